@@ -0,0 +1,404 @@
+import express from "express"
+import { ObjectId } from "mongodb"
+import { AuthenticatedRequest, verifyAdmin } from "../middleware/auth"
+import { connectToDatabase, getTransactions, getWallet, updateWalletBalance } from "../lib/mongodb"
+import { invalidateCachedWallet } from "../lib/wallet-cache"
+import { ApiKeyDocument, serializeApiKey } from "../lib/api-keys"
+import { getCurrentPricing, getModelPricing, setModelAvailability, setModelPricing } from "../lib/pricing"
+import { getFailedRequests } from "../lib/usage"
+import { searchUsers, setAccountPlan, setAccountSuspension, setApiKeySuspension } from "../lib/admin"
+import { isRateLimitPlan, RATE_LIMIT_PLANS } from "../lib/rate-limit"
+import { getAuditEvents, recordAuditEvent } from "../lib/audit-log"
+
+// Support tooling for staff. Every route requires the `admin` custom claim
+// on the caller's Firebase token, and every change is written to the audit
+// log in the same transaction as the change itself.
+const router = express.Router()
+router.use(verifyAdmin)
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+const MAX_REASON_LENGTH = 500
+
+function parseReason(reason: unknown): string | null {
+  if (typeof reason !== "string") return null
+  const trimmed = reason.trim()
+  return trimmed && trimmed.length <= MAX_REASON_LENGTH ? trimmed : null
+}
+
+function parsePageSize(limit: string | undefined): number | null {
+  const pageSize = limit ? Number(limit) : DEFAULT_PAGE_SIZE
+  return Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= MAX_PAGE_SIZE ? pageSize : null
+}
+
+const isPrice = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0
+
+const isUnitPriceList = (value: any) =>
+  value && typeof value === "object" && !Array.isArray(value) && Object.values(value).every(isPrice)
+
+router.get("/users", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { q, limit, pageToken } = req.query as Record<string, string | undefined>
+    const pageSize = parsePageSize(limit)
+    if (!pageSize) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` })
+    }
+
+    return res.json(await searchUsers(q?.trim() || undefined, { limit: pageSize, pageToken }))
+  } catch (error) {
+    console.error("Failed to search users:", error)
+    return res.status(500).json({ error: "Failed to search users" })
+  }
+})
+
+// `userId` is an account id, so organizations (`org:<id>`) work here too
+router.get("/users/:userId", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params
+    const wallet = await getWallet(userId)
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    const db = await connectToDatabase()
+    const [transactions, keys] = await Promise.all([
+      getTransactions(userId, { limit: 20 }),
+      db.collection<ApiKeyDocument>("apiKeys").find({ userId }).sort({ createdAt: 1 }).toArray()
+    ])
+
+    return res.json({
+      wallet,
+      recentTransactions: transactions.data,
+      apiKeys: keys.map(key => ({ ...serializeApiKey(key), suspendedReason: key.suspendedReason ?? null }))
+    })
+  } catch (error) {
+    console.error("Failed to retrieve user:", error)
+    return res.status(500).json({ error: "Failed to retrieve user" })
+  }
+})
+
+// Credits or debits a wallet by hand; the reason is kept in the ledger
+router.post("/users/:userId/adjustments", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params
+    const { amount } = req.body || {}
+    const reason = parseReason(req.body?.reason)
+
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount === 0) {
+      return res.status(400).json({ error: "amount must be a non-zero number" })
+    }
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const wallet = await updateWalletBalance(
+      userId,
+      amount,
+      "adjustment",
+      { description: reason, adminId: req.user!.uid },
+      {
+        onUpdate: (session, updated) => recordAuditEvent(req.user!, {
+          action: "wallet.adjust",
+          target: { type: "user", id: userId },
+          reason,
+          details: { amount, balance: updated.balance }
+        }, session)
+      }
+    )
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+    await invalidateCachedWallet(userId)
+
+    return res.json(wallet)
+  } catch (error) {
+    console.error("Failed to adjust wallet:", error)
+    return res.status(500).json({ error: "Failed to adjust wallet" })
+  }
+})
+
+// Sets the account's rate limit tier; null puts it back on the default tier
+router.put("/users/:userId/plan", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params
+    const plan = req.body?.plan
+    const reason = req.body?.reason === undefined ? undefined : parseReason(req.body.reason)
+
+    if (plan !== null && (typeof plan !== "string" || !isRateLimitPlan(plan))) {
+      return res.status(400).json({ error: `plan must be null or one of: ${RATE_LIMIT_PLANS.join(", ")}` })
+    }
+    if (reason === null) {
+      return res.status(400).json({ error: `reason must be up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const previous = await getWallet(userId)
+    const wallet = previous
+      ? await setAccountPlan(userId, plan, {
+          onUpdate: session => recordAuditEvent(req.user!, {
+            action: "user.plan",
+            target: { type: "user", id: userId },
+            reason,
+            details: { before: previous.plan ?? null, after: plan }
+          }, session)
+        })
+      : null
+    if (!previous || !wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    return res.json(wallet)
+  } catch (error) {
+    console.error("Failed to set plan:", error)
+    return res.status(500).json({ error: "Failed to set plan" })
+  }
+})
+
+router.post("/users/:userId/suspend", async (req: AuthenticatedRequest, res) => {
+  try {
+    const reason = parseReason(req.body?.reason)
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const wallet = await setAccountSuspension(req.params.userId, reason, {
+      onUpdate: session => recordAuditEvent(req.user!, {
+        action: "user.suspend",
+        target: { type: "user", id: req.params.userId },
+        reason
+      }, session)
+    })
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    return res.json(wallet)
+  } catch (error) {
+    console.error("Failed to suspend user:", error)
+    return res.status(500).json({ error: "Failed to suspend user" })
+  }
+})
+
+router.post("/users/:userId/unsuspend", async (req: AuthenticatedRequest, res) => {
+  try {
+    const reason = parseReason(req.body?.reason)
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const wallet = await setAccountSuspension(req.params.userId, null, {
+      onUpdate: session => recordAuditEvent(req.user!, {
+        action: "user.unsuspend",
+        target: { type: "user", id: req.params.userId },
+        reason
+      }, session)
+    })
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    return res.json(wallet)
+  } catch (error) {
+    console.error("Failed to unsuspend user:", error)
+    return res.status(500).json({ error: "Failed to unsuspend user" })
+  }
+})
+
+router.post("/api-keys/:id/suspend", async (req: AuthenticatedRequest, res) => {
+  try {
+    const reason = parseReason(req.body?.reason)
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const key = ObjectId.isValid(req.params.id)
+      ? await setApiKeySuspension(req.params.id, reason, {
+          onUpdate: (session, updated) => recordAuditEvent(req.user!, {
+            action: "api_key.suspend",
+            target: { type: "api_key", id: req.params.id },
+            reason,
+            details: { userId: updated.userId }
+          }, session)
+        })
+      : null
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    return res.json(serializeApiKey(key))
+  } catch (error) {
+    console.error("Failed to suspend API key:", error)
+    return res.status(500).json({ error: "Failed to suspend API key" })
+  }
+})
+
+router.post("/api-keys/:id/unsuspend", async (req: AuthenticatedRequest, res) => {
+  try {
+    const reason = parseReason(req.body?.reason)
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const key = ObjectId.isValid(req.params.id)
+      ? await setApiKeySuspension(req.params.id, null, {
+          onUpdate: (session, updated) => recordAuditEvent(req.user!, {
+            action: "api_key.unsuspend",
+            target: { type: "api_key", id: req.params.id },
+            reason,
+            details: { userId: updated.userId }
+          }, session)
+        })
+      : null
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    return res.json(serializeApiKey(key))
+  } catch (error) {
+    console.error("Failed to unsuspend API key:", error)
+    return res.status(500).json({ error: "Failed to unsuspend API key" })
+  }
+})
+
+router.get("/pricing", async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json({ data: await getCurrentPricing() })
+  } catch (error) {
+    console.error("Failed to retrieve pricing:", error)
+    return res.status(500).json({ error: "Failed to retrieve pricing" })
+  }
+})
+
+// Adds a price entry; entries are immutable so past charges stay explainable
+router.put("/pricing/:model", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { model } = req.params
+    const { inputPer1K, outputPer1K, cachedInputPer1K, unitPrices, effectiveFrom } = req.body || {}
+    const reason = req.body?.reason === undefined ? undefined : parseReason(req.body.reason)
+
+    if (!isPrice(inputPer1K) || !isPrice(outputPer1K)) {
+      return res.status(400).json({ error: "inputPer1K and outputPer1K must be non-negative numbers" })
+    }
+    if (cachedInputPer1K !== undefined && !isPrice(cachedInputPer1K)) {
+      return res.status(400).json({ error: "cachedInputPer1K must be a non-negative number" })
+    }
+    if (unitPrices !== undefined && !isUnitPriceList(unitPrices)) {
+      return res.status(400).json({ error: "unitPrices must map variants to non-negative numbers" })
+    }
+    const from = effectiveFrom === undefined ? new Date() : new Date(effectiveFrom)
+    if (isNaN(from.getTime())) {
+      return res.status(400).json({ error: "effectiveFrom must be an ISO 8601 date" })
+    }
+    if (reason === null) {
+      return res.status(400).json({ error: `reason must be up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    // A new price does not re-enable a disabled model
+    const previous = await getModelPricing(model, from)
+    const entry = await setModelPricing(
+      model,
+      {
+        inputPer1K,
+        outputPer1K,
+        ...(cachedInputPer1K !== undefined && { cachedInputPer1K }),
+        ...(unitPrices !== undefined && { unitPrices }),
+        ...(previous?.disabled && { disabled: true })
+      },
+      from,
+      {
+        onUpdate: session => recordAuditEvent(req.user!, {
+          action: "pricing.set",
+          target: { type: "model", id: model },
+          reason,
+          details: {
+            before: previous
+              ? {
+                  inputPer1K: previous.inputPer1K,
+                  outputPer1K: previous.outputPer1K,
+                  cachedInputPer1K: previous.cachedInputPer1K,
+                  unitPrices: previous.unitPrices
+                }
+              : null,
+            after: { inputPer1K, outputPer1K, cachedInputPer1K, unitPrices },
+            effectiveFrom: from
+          }
+        }, session)
+      }
+    )
+    return res.status(201).json(entry)
+  } catch (error) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ error: "The model already has a price taking effect at effectiveFrom" })
+    }
+    console.error("Failed to set pricing:", error)
+    return res.status(500).json({ error: "Failed to set pricing" })
+  }
+})
+
+router.put("/models/:model/availability", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { model } = req.params
+    const { enabled } = req.body || {}
+    const reason = parseReason(req.body?.reason)
+
+    if (typeof enabled !== "boolean") {
+      return res.status(400).json({ error: "enabled must be a boolean" })
+    }
+    if (!reason) {
+      return res.status(400).json({ error: `reason is required, up to ${MAX_REASON_LENGTH} characters` })
+    }
+
+    const entry = await setModelAvailability(model, enabled, {
+      onUpdate: session => recordAuditEvent(req.user!, {
+        action: enabled ? "model.enable" : "model.disable",
+        target: { type: "model", id: model },
+        reason
+      }, session)
+    })
+    if (!entry) {
+      return res.status(404).json({ error: "Model has no pricing" })
+    }
+
+    return res.json(entry)
+  } catch (error) {
+    console.error("Failed to update model availability:", error)
+    return res.status(500).json({ error: "Failed to update model availability" })
+  }
+})
+
+router.get("/failed-requests", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { cursor, userId, limit } = req.query as Record<string, string | undefined>
+    if (cursor && !ObjectId.isValid(cursor)) {
+      return res.status(400).json({ error: "Invalid cursor" })
+    }
+    const pageSize = parsePageSize(limit)
+    if (!pageSize) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` })
+    }
+
+    return res.json(await getFailedRequests({ cursor, userId, limit: pageSize }))
+  } catch (error) {
+    console.error("Failed to retrieve failed requests:", error)
+    return res.status(500).json({ error: "Failed to retrieve failed requests" })
+  }
+})
+
+router.get("/audit-log", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { cursor, adminId, targetId, action, limit } = req.query as Record<string, string | undefined>
+    if (cursor && !ObjectId.isValid(cursor)) {
+      return res.status(400).json({ error: "Invalid cursor" })
+    }
+    const pageSize = parsePageSize(limit)
+    if (!pageSize) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` })
+    }
+
+    return res.json(await getAuditEvents({ cursor, adminId, targetId, action, limit: pageSize }))
+  } catch (error) {
+    console.error("Failed to retrieve audit log:", error)
+    return res.status(500).json({ error: "Failed to retrieve audit log" })
+  }
+})
+
+export default router
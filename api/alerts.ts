@@ -0,0 +1,61 @@
+import express from "express"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
+import { hasPermission } from "../lib/organizations"
+import {
+  getAlertDeliveries,
+  getAlertSettings,
+  getDefaultAlertSettings,
+  parseAlertSettings,
+  serializeAlertSettings,
+  updateAlertSettings
+} from "../lib/alerts"
+
+const router = express.Router()
+
+const DEFAULT_DELIVERIES = 20
+const MAX_DELIVERIES = 100
+
+router.get("/", verifyToken, requirePermission("billing:read"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.account!.id
+    // Users who never saved settings see what they would start from
+    const settings = (await getAlertSettings(userId)) ?? getDefaultAlertSettings(userId)
+    return res.json(serializeAlertSettings(settings, hasPermission(req.account!, "billing:manage")))
+  } catch (error) {
+    console.error("Failed to retrieve alert settings:", error)
+    return res.status(500).json({ error: "Failed to retrieve alert settings" })
+  }
+})
+
+router.put("/", verifyToken, requirePermission("billing:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = await parseAlertSettings(req.body)
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error })
+    }
+
+    const settings = await updateAlertSettings(req.account!.id, parsed.update)
+    return res.json(serializeAlertSettings(settings, true))
+  } catch (error) {
+    console.error("Failed to update alert settings:", error)
+    return res.status(500).json({ error: "Failed to update alert settings" })
+  }
+})
+
+// Recent webhook deliveries, to debug an endpoint that is not receiving them
+router.get("/deliveries", verifyToken, requirePermission("billing:read"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_DELIVERIES
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERIES) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_DELIVERIES}` })
+    }
+
+    const deliveries = await getAlertDeliveries(req.account!.id, limit)
+    return res.json({ data: deliveries })
+  } catch (error) {
+    console.error("Failed to retrieve alert deliveries:", error)
+    return res.status(500).json({ error: "Failed to retrieve alert deliveries" })
+  }
+})
+
+export default router
@@ -0,0 +1,118 @@
+import express from "express"
+import { ObjectId } from "mongodb"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../../middleware/auth"
+import { connectToDatabase } from "../../lib/mongodb"
+import {
+  ApiKeyDocument,
+  generateApiKey,
+  invalidateApiKeyCache,
+  parseApiKeySettings,
+  serializeApiKey
+} from "../../lib/api-keys"
+import { apiKeyFilter, hasPermission } from "../../lib/organizations"
+import { notifyApiKeyChange } from "../../lib/alerts"
+
+const router = express.Router()
+
+// Keys are addressed by their id; the secret itself is never sent back to us.
+// Organization members without keys:manage only reach the keys they created.
+function keyFilter(req: AuthenticatedRequest) {
+  if (!ObjectId.isValid(req.params.id)) return null
+  return { _id: new ObjectId(req.params.id), ...apiKeyFilter(req.account!) }
+}
+
+router.delete("/:id", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const filter = keyFilter(req)
+    if (!filter) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    const db = await connectToDatabase()
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+    
+    const result = await apiKeys.findOneAndDelete(filter)
+    if (!result.value) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+    await invalidateApiKeyCache(result.value.keyHash)
+    notifyApiKeyChange("api_key_deleted", result.value)
+
+    return res.json({ message: "API key deleted successfully" })
+
+  } catch (error) {
+    console.error("Failed to delete API key:", error)
+    return res.status(500).json({ error: "Failed to delete API key" })
+  }
+})
+
+router.patch("/:id", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const filter = keyFilter(req)
+    if (!filter) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    const { settings, error } = parseApiKeySettings(req.body)
+    if (error) {
+      return res.status(400).json({ error })
+    }
+    // Members may rename their own keys but not lift their rate limits
+    if (settings!.rateLimits !== undefined && !hasPermission(req.account!, "keys:manage")) {
+      return res.status(403).json({ error: "Your role in this organization does not allow this" })
+    }
+
+    const db = await connectToDatabase()
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+
+    const result = await apiKeys.findOneAndUpdate(
+      filter,
+      { $set: settings! },
+      { returnDocument: "after" }
+    )
+    if (!result.value) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+    await invalidateApiKeyCache(result.value.keyHash)
+
+    return res.json(serializeApiKey(result.value))
+  } catch (error) {
+    console.error("Failed to update API key:", error)
+    return res.status(500).json({ error: "Failed to update API key" })
+  }
+})
+
+// Replaces the secret of a key, keeping its id, name, scopes and usage.
+// The old secret stops working immediately.
+router.post("/:id/rotate", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const filter = keyFilter(req)
+    if (!filter) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    const db = await connectToDatabase()
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+
+    const { key, keyHash, prefix } = generateApiKey()
+    const result = await apiKeys.findOneAndUpdate(
+      filter,
+      { $set: { keyHash, prefix, rotatedAt: new Date() } },
+      { returnDocument: "before" }
+    )
+    if (!result.value) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+    await invalidateApiKeyCache(result.value.keyHash)
+
+    return res.json({
+      apiKey: key,
+      ...serializeApiKey({ ...result.value, keyHash, prefix })
+    })
+  } catch (error) {
+    console.error("Failed to rotate API key:", error)
+    return res.status(500).json({ error: "Failed to rotate API key" })
+  }
+})
+
+export default router
\ No newline at end of file
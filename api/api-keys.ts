@@ -1,24 +1,87 @@
 import express from "express"
-import { AuthenticatedRequest, verifyToken } from "../middleware/auth"
+import { ObjectId } from "mongodb"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
 import { connectToDatabase } from "../lib/mongodb"
+import { ApiKeyDocument, invalidateApiKeyCache, migrateLegacyApiKeys, serializeApiKey } from "../lib/api-keys"
+import { getSpendSummary, parseSpendLimits } from "../lib/spend-limits"
+import { getCacheStats } from "../lib/response-cache"
+import { apiKeyFilter } from "../lib/organizations"
 
 const router = express.Router()
 
-router.get("/", verifyToken, async (req: AuthenticatedRequest, res) => {
+router.get("/", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.uid
+    const account = req.account!
+    // Legacy keys predate organizations and are always personal
+    if (account.type === "personal") await migrateLegacyApiKeys(account.id)
+
     const db = await connectToDatabase()
-    const apiKeys = db.collection("apiKeys")
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
 
-    const keys = await apiKeys
-      .find({ userId }, { projection: { key: 1, createdAt: 1 } })
+    const keys = (await apiKeys
+      .find(apiKeyFilter(account))
+      .sort({ createdAt: 1 })
       .toArray()
+    ).map(serializeApiKey)
 
-    res.json(keys)
+    const cacheStats = await getCacheStats(keys.map(k => k.id))
+    res.json(keys.map(k => ({ ...k, cacheStats: cacheStats[k.id] })))
   } catch (error) {
     console.error("API keys error:", error)
     res.status(500).json({ error: "Failed to retrieve API keys" })
   }
 })
 
+router.get("/:id/limits", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    const db = await connectToDatabase()
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+    const key = await apiKeys.findOne({ _id: new ObjectId(req.params.id), ...apiKeyFilter(req.account!) })
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    res.json({ id: key._id.toString(), limits: getSpendSummary(key) })
+  } catch (error) {
+    console.error("API key limits error:", error)
+    res.status(500).json({ error: "Failed to retrieve API key limits" })
+  }
+})
+
+// Replaces all limits of the key; periods left out have no limit. Spend
+// limits are set by whoever manages the account's keys, not by members.
+router.put("/:id/limits", verifyToken, requirePermission("keys:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+
+    const { limits, error } = parseSpendLimits(req.body)
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const db = await connectToDatabase()
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+    const result = await apiKeys.findOneAndUpdate(
+      { _id: new ObjectId(req.params.id), ...apiKeyFilter(req.account!) },
+      { $set: { limits: limits! } },
+      { returnDocument: "after" }
+    )
+    if (!result.value) {
+      return res.status(404).json({ error: "API key not found" })
+    }
+    await invalidateApiKeyCache(result.value.keyHash)
+
+    res.json({ id: result.value._id.toString(), limits: getSpendSummary(result.value) })
+  } catch (error) {
+    console.error("API key limits error:", error)
+    res.status(500).json({ error: "Failed to update API key limits" })
+  }
+})
+
 export default router
@@ -0,0 +1,19 @@
+import express from "express"
+import { retryAlertDeliveries } from "../../lib/alerts"
+import { verifyCronSecret } from "../../middleware/cron"
+
+const router = express.Router()
+
+// Invoked by the Vercel cron schedule in vercel.json to retry failed
+// alert webhook deliveries
+router.get("/", verifyCronSecret, async (req, res) => {
+  try {
+    const report = await retryAlertDeliveries()
+    return res.json(report)
+  } catch (error) {
+    console.error("Alert delivery retry failed:", error)
+    return res.status(500).json({ error: "Alert delivery retry failed" })
+  }
+})
+
+export default router
@@ -0,0 +1,19 @@
+import express from "express"
+import { processDueAutoRecharges } from "../../lib/auto-recharge"
+import { verifyCronSecret } from "../../middleware/cron"
+
+const router = express.Router()
+
+// Invoked by the Vercel cron schedule in vercel.json. Retries failed
+// auto-recharges and catches wallets whose attempt never started.
+router.get("/", verifyCronSecret, async (req, res) => {
+  try {
+    const report = await processDueAutoRecharges()
+    return res.json(report)
+  } catch (error) {
+    console.error("Auto-recharge run failed:", error)
+    return res.status(500).json({ error: "Auto-recharge run failed" })
+  }
+})
+
+export default router
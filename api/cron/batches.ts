@@ -0,0 +1,23 @@
+import express from "express"
+import { processBatches } from "../../lib/batches"
+import { verifyCronSecret } from "../../middleware/cron"
+
+const router = express.Router()
+
+// Invoked every minute by the Vercel cron schedule in vercel.json, which
+// authenticates with the CRON_SECRET as a bearer token
+router.get("/", verifyCronSecret, async (req, res) => {
+  try {
+    const report = await processBatches()
+    if (!report) {
+      return res.status(409).json({ error: "Batch worker already running" })
+    }
+
+    return res.json(report)
+  } catch (error) {
+    console.error("Batch worker run failed:", error)
+    return res.status(500).json({ error: "Batch worker run failed" })
+  }
+})
+
+export default router
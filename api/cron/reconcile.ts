@@ -0,0 +1,23 @@
+import express from "express"
+import { reconcileWallets } from "../../lib/reconcile"
+import { verifyCronSecret } from "../../middleware/cron"
+
+const router = express.Router()
+
+// Invoked by the Vercel cron schedule in vercel.json, which authenticates
+// with the CRON_SECRET as a bearer token
+router.get("/", verifyCronSecret, async (req, res) => {
+  try {
+    const report = await reconcileWallets()
+    if (!report) {
+      return res.status(409).json({ error: "Reconciliation already in progress" })
+    }
+
+    return res.json(report)
+  } catch (error) {
+    console.error("Wallet reconciliation failed:", error)
+    return res.status(500).json({ error: "Wallet reconciliation failed" })
+  }
+})
+
+export default router
@@ -1,25 +1,49 @@
 import express from "express"
-import { AuthenticatedRequest, verifyToken } from "../middleware/auth"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
 import { connectToDatabase } from "../lib/mongodb"
-import crypto from "crypto"
+import { ApiKeyDocument, generateApiKey, parseApiKeySettings, serializeApiKey } from "../lib/api-keys"
+import { notifyApiKeyChange } from "../lib/alerts"
 
 const router = express.Router()
 
-router.post("/", verifyToken, async (req: AuthenticatedRequest, res) => {
+const MAX_PERSONAL_KEYS = 2
+const MAX_ORGANIZATION_KEYS = 20
+
+router.post("/", verifyToken, requirePermission("keys:create"), async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user?.uid
+    const account = req.account!
+    const userId = account.id
     const db = await connectToDatabase()
-    const apiKeys = db.collection("apiKeys")
+    const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
 
-    const existingKeys = await apiKeys.find({ userId }).toArray()
-    if (existingKeys.length >= 2) {
+    const existingKeys = await apiKeys.countDocuments({ userId })
+    const maxKeys = account.type === "organization" ? MAX_ORGANIZATION_KEYS : MAX_PERSONAL_KEYS
+    if (existingKeys >= maxKeys) {
       return res.status(400).json({ error: "Maximum number of API keys reached" })
     }
 
-    const key = crypto.randomBytes(32).toString("hex")
-    await apiKeys.insertOne({ key, userId, createdAt: new Date() })
+    const { settings, error } = parseApiKeySettings(req.body)
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    // The plaintext key is returned once and never stored
+    const { key, keyHash, prefix } = generateApiKey()
+    const doc: ApiKeyDocument = {
+      keyHash,
+      prefix,
+      name: settings!.name || `Key ${existingKeys + 1}`,
+      userId,
+      createdBy: account.uid,
+      createdAt: new Date(),
+      expiresAt: settings!.expiresAt ?? null,
+      allowedModels: settings!.allowedModels ?? [],
+      requestCount: 0
+    }
+    const result = await apiKeys.insertOne(doc)
+    notifyApiKeyChange("api_key_created", { ...doc, _id: result.insertedId })
 
-    res.json({ apiKey: key })
+    res.json({ apiKey: key, ...serializeApiKey({ ...doc, _id: result.insertedId }) })
   } catch (error) {
     console.error("Generate key error:", error)
     res.status(500).json({ error: "Failed to generate API key" })
@@ -0,0 +1,206 @@
+import express from "express"
+import { ObjectId } from "mongodb"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
+import { sendEmail } from "../lib/email"
+import {
+  acceptInvitation,
+  createInvitation,
+  createOrganization,
+  getOrganization,
+  getOrgContext,
+  listInvitations,
+  listOrganizations,
+  OrgRole,
+  ORG_ROLES,
+  removeMember,
+  renameOrganization,
+  revokeInvitation,
+  serializeInvitation,
+  updateMemberRole
+} from "../lib/organizations"
+
+const router = express.Router()
+
+const MAX_NAME_LENGTH = 100
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function parseName(name: unknown): string | null {
+  if (typeof name !== "string") return null
+  const trimmed = name.trim()
+  return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null
+}
+
+// Routes under /:orgId act for that organization, whatever the
+// X-Organization-Id header says
+const orgMember = async (req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const account = await getOrgContext(req.user!.uid, req.params.orgId)
+    if (!account) {
+      return res.status(404).json({ error: "Organization not found" })
+    }
+    req.account = account
+    next()
+  } catch (error) {
+    console.error("Organization lookup error:", error)
+    res.status(500).json({ error: "Failed to resolve organization" })
+  }
+}
+
+router.get("/", verifyToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json({ data: await listOrganizations(req.user!.uid) })
+  } catch (error) {
+    console.error("Failed to list organizations:", error)
+    return res.status(500).json({ error: "Failed to list organizations" })
+  }
+})
+
+router.post("/", verifyToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const name = parseName(req.body?.name)
+    if (!name) {
+      return res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters` })
+    }
+
+    const org = await createOrganization(req.user!.uid, name)
+    return res.status(201).json(await getOrganization(org._id.toString()))
+  } catch (error) {
+    console.error("Failed to create organization:", error)
+    return res.status(500).json({ error: "Failed to create organization" })
+  }
+})
+
+// The invitation link in the email leads the frontend here with its token
+router.post("/invitations/accept", verifyToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { token } = req.body || {}
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({ error: "token is required" })
+    }
+
+    const result = await acceptInvitation(token, req.user!)
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error })
+    }
+    return res.json({ ...(await getOrganization(result.orgId)), role: result.role })
+  } catch (error) {
+    console.error("Failed to accept invitation:", error)
+    return res.status(500).json({ error: "Failed to accept invitation" })
+  }
+})
+
+router.get("/:orgId", verifyToken, orgMember, async (req: AuthenticatedRequest, res) => {
+  try {
+    const org = await getOrganization(req.params.orgId)
+    if (!org) {
+      return res.status(404).json({ error: "Organization not found" })
+    }
+    return res.json({ ...org, role: req.account!.role })
+  } catch (error) {
+    console.error("Failed to retrieve organization:", error)
+    return res.status(500).json({ error: "Failed to retrieve organization" })
+  }
+})
+
+router.patch("/:orgId", verifyToken, orgMember, requirePermission("org:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const name = parseName(req.body?.name)
+    if (!name) {
+      return res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters` })
+    }
+
+    await renameOrganization(req.params.orgId, name)
+    return res.json(await getOrganization(req.params.orgId))
+  } catch (error) {
+    console.error("Failed to update organization:", error)
+    return res.status(500).json({ error: "Failed to update organization" })
+  }
+})
+
+router.get("/:orgId/invitations", verifyToken, orgMember, requirePermission("members:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    return res.json({ data: await listInvitations(req.params.orgId) })
+  } catch (error) {
+    console.error("Failed to list invitations:", error)
+    return res.status(500).json({ error: "Failed to list invitations" })
+  }
+})
+
+router.post("/:orgId/invitations", verifyToken, orgMember, requirePermission("members:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const account = req.account!
+    const { email, role = "member" } = req.body || {}
+
+    if (typeof email !== "string" || !EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: "email must be an email address" })
+    }
+    if (!ORG_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ORG_ROLES.join(", ")}` })
+    }
+    if (role === "owner" && account.role !== "owner") {
+      return res.status(403).json({ error: "Only owners can invite owners" })
+    }
+
+    const { invitation, token } = await createInvitation(account.orgId!, email, role as OrgRole, account.uid)
+    const org = await getOrganization(account.orgId!)
+    const acceptUrl = `${process.env.FRONTEND_URL || ""}/invitations/accept?token=${encodeURIComponent(token)}`
+
+    await sendEmail({
+      to: invitation.email,
+      subject: `You have been invited to ${org!.name}`,
+      text: `You have been invited to join ${org!.name} as ${role}. Accept the invitation within 7 days: ${acceptUrl}`
+    }).catch(error => console.error("Failed to email invitation:", error))
+
+    // The link is returned too, for sharing it when email is not set up
+    return res.status(201).json({ ...serializeInvitation(invitation), acceptUrl })
+  } catch (error) {
+    console.error("Failed to create invitation:", error)
+    return res.status(500).json({ error: "Failed to create invitation" })
+  }
+})
+
+router.delete("/:orgId/invitations/:id", verifyToken, orgMember, requirePermission("members:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!ObjectId.isValid(req.params.id) || !(await revokeInvitation(req.params.orgId, req.params.id))) {
+      return res.status(404).json({ error: "Invitation not found" })
+    }
+    return res.json({ message: "Invitation revoked" })
+  } catch (error) {
+    console.error("Failed to revoke invitation:", error)
+    return res.status(500).json({ error: "Failed to revoke invitation" })
+  }
+})
+
+router.patch("/:orgId/members/:userId", verifyToken, orgMember, requirePermission("members:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { role } = req.body || {}
+    if (!ORG_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ORG_ROLES.join(", ")}` })
+    }
+
+    const failure = await updateMemberRole(req.account!, req.params.userId, role)
+    if (failure) {
+      return res.status(failure.status).json({ error: failure.error })
+    }
+    return res.json(await getOrganization(req.params.orgId))
+  } catch (error) {
+    console.error("Failed to update member:", error)
+    return res.status(500).json({ error: "Failed to update member" })
+  }
+})
+
+// Removes a member; members can also remove themselves to leave
+router.delete("/:orgId/members/:userId", verifyToken, orgMember, async (req: AuthenticatedRequest, res) => {
+  try {
+    const failure = await removeMember(req.account!, req.params.userId)
+    if (failure) {
+      return res.status(failure.status).json({ error: failure.error })
+    }
+    return res.json({ message: "Member removed" })
+  } catch (error) {
+    console.error("Failed to remove member:", error)
+    return res.status(500).json({ error: "Failed to remove member" })
+  }
+})
+
+export default router
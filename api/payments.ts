@@ -0,0 +1,66 @@
+import express from "express"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
+import { getPaymentProvider, listPaymentProviders } from "../lib/payment-providers"
+import { completeTestCheckout } from "../lib/payment-providers/test"
+import { WALLET_CURRENCY } from "../lib/payments"
+
+const router = express.Router()
+
+const MIN_TOPUP = 1
+const MAX_TOPUP = 10000
+
+// The frontend offers only the providers that are configured
+router.get("/providers", (req, res) => {
+  res.json({ providers: listPaymentProviders(), currency: WALLET_CURRENCY })
+})
+
+// Starts a hosted checkout. The wallet is credited by the provider's webhook,
+// or by /api/verify-payment when the user comes back.
+router.post("/checkout", verifyToken, requirePermission("billing:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    // The wallet being topped up, personal or an organization's
+    const userId = req.account!.id
+    const { provider: providerName, amount, successUrl, cancelUrl } = req.body
+
+    const provider = getPaymentProvider(providerName)
+    if (!provider) {
+      return res.status(400).json({ error: `Unknown payment provider: ${providerName}` })
+    }
+    if (typeof amount !== "number" || amount < MIN_TOPUP || amount > MAX_TOPUP) {
+      return res.status(400).json({ error: `amount must be between ${MIN_TOPUP} and ${MAX_TOPUP}` })
+    }
+
+    const frontend = process.env.FRONTEND_URL || ""
+    const session = await provider.createCheckout(userId, Math.round(amount * 100) / 100, WALLET_CURRENCY, {
+      successUrl: successUrl || `${frontend}/wallet?payment=success`,
+      cancelUrl: cancelUrl || `${frontend}/wallet?payment=cancelled`
+    })
+
+    res.json({ provider: provider.name, ...session })
+  } catch (error) {
+    console.error("Checkout error:", error)
+    res.status(500).json({ error: "Failed to create checkout" })
+  }
+})
+
+// Stands in for the hosted payment page of the local test provider
+router.get("/test/:id/pay", async (req, res) => {
+  try {
+    if (!getPaymentProvider("test")) {
+      return res.status(404).json({ error: "Not Found" })
+    }
+
+    const successUrl = await completeTestCheckout(req.params.id)
+    if (!successUrl) {
+      return res.status(404).json({ error: "Checkout not found" })
+    }
+
+    const separator = successUrl.includes("?") ? "&" : "?"
+    res.redirect(`${successUrl}${separator}provider=test&orderId=${encodeURIComponent(req.params.id)}`)
+  } catch (error) {
+    console.error("Test checkout error:", error)
+    res.status(500).json({ error: "Failed to complete test checkout" })
+  }
+})
+
+export default router
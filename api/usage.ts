@@ -0,0 +1,91 @@
+import express from "express"
+import { ObjectId } from "mongodb"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
+import { connectToDatabase } from "../lib/mongodb"
+import { ApiKeyDocument } from "../lib/api-keys"
+import { getUsageSummary, toCsv, USAGE_GROUP_BY, UsageGroupBy } from "../lib/usage"
+
+const router = express.Router()
+
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const METRIC_COLUMNS = [
+  "requests",
+  "errors",
+  "cachedRequests",
+  "promptTokens",
+  "completionTokens",
+  "cost",
+  "averageLatencyMs"
+]
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+// Aggregated usage for the dashboard. Days are UTC and `to` is inclusive.
+// GET /api/usage?from=2024-01-01&to=2024-01-31&groupBy=day|model|key&apiKeyId=&model=&format=json|csv
+router.get("/", verifyToken, requirePermission("billing:read"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.account!.id
+    const { from, to, groupBy = "day", apiKeyId, model, format = "json" } = req.query as Record<string, string | undefined>
+
+    if (!USAGE_GROUP_BY.includes(groupBy as UsageGroupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of: ${USAGE_GROUP_BY.join(", ")}` })
+    }
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({ error: "format must be json or csv" })
+    }
+
+    const toDate = to ?? toDay(new Date())
+    const fromDate = from ?? toDay(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000))
+    if (!DAY_PATTERN.test(fromDate) || !DAY_PATTERN.test(toDate) ||
+        isNaN(Date.parse(fromDate)) || isNaN(Date.parse(toDate))) {
+      return res.status(400).json({ error: "from and to must be dates in YYYY-MM-DD format" })
+    }
+    const rangeDays = (Date.parse(toDate) - Date.parse(fromDate)) / (24 * 60 * 60 * 1000) + 1
+    if (rangeDays < 1 || rangeDays > MAX_RANGE_DAYS) {
+      return res.status(400).json({ error: `The range must cover 1 to ${MAX_RANGE_DAYS} days` })
+    }
+
+    const { data, totals } = await getUsageSummary(userId, {
+      from: fromDate,
+      to: toDate,
+      groupBy: groupBy as UsageGroupBy,
+      apiKeyId,
+      model
+    })
+
+    // Key names are looked up now; deleted keys keep their usage but lose their name
+    let rows: Record<string, unknown>[] = data
+    if (groupBy === "key") {
+      const db = await connectToDatabase()
+      const ids = data.map(row => row.apiKeyId!).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id))
+      const keys = await db
+        .collection<ApiKeyDocument>("apiKeys")
+        .find({ _id: { $in: ids }, userId })
+        .project<{ _id: ObjectId; name: string; prefix: string }>({ name: 1, prefix: 1 })
+        .toArray()
+      const byId = new Map(keys.map(key => [key._id.toString(), key]))
+      rows = data.map(row => ({
+        apiKeyId: row.apiKeyId,
+        name: byId.get(row.apiKeyId!)?.name ?? null,
+        prefix: byId.get(row.apiKeyId!)?.prefix ?? null,
+        ...row
+      }))
+    }
+
+    if (format === "csv") {
+      const groupColumns = groupBy === "key" ? ["apiKeyId", "name", "prefix"] : [groupBy]
+      res.setHeader("Content-Type", "text/csv; charset=utf-8")
+      res.setHeader("Content-Disposition", `attachment; filename="usage-${fromDate}-${toDate}-by-${groupBy}.csv"`)
+      return res.send(toCsv(rows, [...groupColumns, ...METRIC_COLUMNS]))
+    }
+
+    return res.json({ from: fromDate, to: toDate, groupBy, data: rows, totals })
+  } catch (error) {
+    console.error("Failed to retrieve usage:", error)
+    return res.status(500).json({ error: "Failed to retrieve usage" })
+  }
+})
+
+export default router
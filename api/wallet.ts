@@ -1,10 +1,29 @@
 import express from "express"
-import { getAuth } from "firebase-admin/auth"
-import { getWallet, createWallet } from "../lib/mongodb"
+import { getWallet, createWallet, getTransactions, TransactionType } from "../lib/mongodb"
+import { AuthenticatedRequest, requirePermission, verifyToken } from "../middleware/auth"
+import { ObjectId } from "mongodb"
 import { initializeApp, getApps, cert } from "firebase-admin/app"
+import {
+  maybeTriggerAutoRecharge,
+  parseAutoRechargeSettings,
+  saveAutoRechargeSettings,
+  serializeAutoRecharge
+} from "../lib/auto-recharge"
 
 const router = express.Router()
 
+const TRANSACTION_TYPES: TransactionType[] = [
+  "charge",
+  "topup",
+  "refund",
+  "reversal",
+  "signup_grant",
+  "adjustment",
+  "opening_balance"
+]
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+
 if (!getApps().length) {
   initializeApp({
     credential: cert({
@@ -15,27 +34,15 @@ if (!getApps().length) {
   })
 }
 
-router.get("/", async (req, res) => {
+router.get("/", verifyToken, requirePermission("wallet:read"), async (req: AuthenticatedRequest, res) => {
   try {
-    const authHeader = req.headers.authorization
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({ error: "Unauthorized" })
-    }
-
-    const token = authHeader.split("Bearer ")[1]
-    let decodedToken
-    try {
-      decodedToken = await getAuth().verifyIdToken(token)
-    } catch (error) {
-      console.error("Error verifying Firebase ID token:", error)
-      return res.status(401).json({ error: "Invalid token" })
-    }
-
-    const userId = decodedToken.uid
+    const account = req.account!
 
-    let wallet = await getWallet(userId)
+    // Personal wallets are created on first sight; organization wallets
+    // are created with the organization
+    let wallet = await getWallet(account.id)
     if (!wallet) {
-      wallet = await createWallet(userId)
+      wallet = await createWallet(account.id, { signupGrant: account.type === "personal" })
     }
 
     console.log("Wallet response:", JSON.stringify(wallet))
@@ -46,4 +53,83 @@ router.get("/", async (req, res) => {
   }
 })
 
+router.get("/transactions", verifyToken, requirePermission("billing:read"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.account!.id
+    const { cursor, type, from, to, limit } = req.query as Record<string, string | undefined>
+
+    if (cursor && !ObjectId.isValid(cursor)) {
+      return res.status(400).json({ error: "Invalid cursor" })
+    }
+
+    const types = type ? (type.split(",") as TransactionType[]) : undefined
+    if (types?.some(t => !TRANSACTION_TYPES.includes(t))) {
+      return res.status(400).json({ error: `type must be one of: ${TRANSACTION_TYPES.join(", ")}` })
+    }
+
+    const fromDate = from ? new Date(from) : undefined
+    const toDate = to ? new Date(to) : undefined
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: "from and to must be ISO 8601 dates" })
+    }
+
+    const pageSize = limit ? Number(limit) : DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` })
+    }
+
+    const page = await getTransactions(userId, {
+      cursor,
+      limit: pageSize,
+      types,
+      from: fromDate,
+      to: toDate
+    })
+    return res.json(page)
+  } catch (error) {
+    console.error("Failed to retrieve transactions:", error)
+    return res.status(500).json({ error: "Failed to retrieve transactions" })
+  }
+})
+
+router.get("/auto-recharge", verifyToken, requirePermission("billing:read"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const wallet = await getWallet(req.account!.id)
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+    return res.json(serializeAutoRecharge(wallet.autoRecharge))
+  } catch (error) {
+    console.error("Failed to retrieve auto-recharge settings:", error)
+    return res.status(500).json({ error: "Failed to retrieve auto-recharge settings" })
+  }
+})
+
+router.put("/auto-recharge", verifyToken, requirePermission("billing:manage"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.account!.id
+    const wallet = await getWallet(userId)
+    if (!wallet) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    const parsed = await parseAutoRechargeSettings(userId, req.body, wallet.autoRecharge)
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error })
+    }
+
+    const updated = await saveAutoRechargeSettings(userId, parsed.settings)
+    if (!updated) {
+      return res.status(404).json({ error: "Wallet not found" })
+    }
+
+    // The balance may already be under the new threshold
+    await maybeTriggerAutoRecharge(updated)
+    return res.json(serializeAutoRecharge(updated.autoRecharge))
+  } catch (error) {
+    console.error("Failed to update auto-recharge settings:", error)
+    return res.status(500).json({ error: "Failed to update auto-recharge settings" })
+  }
+})
+
 export default router
\ No newline at end of file
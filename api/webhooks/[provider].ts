@@ -0,0 +1,64 @@
+// api/webhooks/[provider].ts
+import { Router } from "express"
+import { getPaymentProvider } from "../../lib/payment-providers"
+import { applyPaymentEvents } from "../../lib/payments"
+import { recordWebhookEvent, getWebhookEvent, processWebhookEvent } from "../../lib/webhook-events"
+
+const router = Router()
+
+// One endpoint per payment provider, e.g. /api/webhooks/paypal and /api/webhooks/stripe
+router.post("/:provider", async (req, res) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider)
+    if (!provider) {
+      return res.status(404).send()
+    }
+
+    const delivery = await provider.verifyWebhook(req.headers, (req as any).rawBody, req.body)
+    if (!delivery) {
+      console.error(`Rejected ${provider.name} webhook with an invalid signature:`, req.body?.id)
+      return res.status(401).send()
+    }
+
+    const event = await recordWebhookEvent(provider.name, delivery.id, delivery.type, delivery.payload)
+
+    // Redeliveries of handled events are acknowledged without reprocessing
+    if (event.status === "processed" || event.status === "ignored") {
+      return res.status(200).send()
+    }
+
+    await processWebhookEvent(event, payload => applyPaymentEvents(provider.name, provider.parseWebhook(payload)))
+    res.status(200).send()
+  } catch (error) {
+    // A non-2xx response makes the provider deliver the event again
+    console.error('Webhook error:', error)
+    res.status(500).send()
+  }
+})
+
+// Re-runs a stored event, e.g. after a bug fix. Crediting is idempotent, so
+// replaying an event that already succeeded changes nothing.
+router.post("/:provider/replay/:eventId", async (req, res) => {
+  try {
+    const secret = process.env.WEBHOOK_REPLAY_SECRET
+    if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+      return res.status(401).json({ error: "Unauthorized" })
+    }
+
+    const provider = getPaymentProvider(req.params.provider)
+    const event = provider && await getWebhookEvent(provider.name, req.params.eventId)
+    if (!provider || !event) {
+      return res.status(404).json({ error: "Event not found" })
+    }
+
+    const status = await processWebhookEvent(event, payload =>
+      applyPaymentEvents(provider.name, provider.parseWebhook(payload))
+    )
+    res.json({ eventId: event.eventId, status })
+  } catch (error) {
+    console.error('Webhook replay error:', error)
+    res.status(500).json({ error: "Failed to replay event" })
+  }
+})
+
+export default router
@@ -0,0 +1,9 @@
+/** @type {import("jest").Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  setupFilesAfterEnv: ["<rootDir>/test/setup.ts"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { esModuleInterop: true, isolatedModules: true } }]
+  }
+}
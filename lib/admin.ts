@@ -0,0 +1,142 @@
+import { ObjectId } from "mongodb"
+import { getAuth, UserRecord } from "firebase-admin/auth"
+import { connectToDatabase, UpdateWriter, WalletDocument, withTransaction } from "./mongodb"
+import { invalidateCachedWallet } from "./wallet-cache"
+import { ApiKeyDocument, invalidateApiKeyCache } from "./api-keys"
+
+function serializeUser(user: UserRecord, wallet?: WalletDocument) {
+  return {
+    uid: user.uid,
+    email: user.email ?? null,
+    displayName: user.displayName ?? null,
+    disabled: user.disabled,
+    admin: user.customClaims?.admin === true,
+    createdAt: user.metadata.creationTime,
+    lastSignInAt: user.metadata.lastSignInTime ?? null,
+    wallet: wallet
+      ? { balance: wallet.balance, plan: wallet.plan ?? null, suspendedAt: wallet.suspendedAt ?? null }
+      : null
+  }
+}
+
+const isUserNotFound = (error: any) => error?.code === "auth/user-not-found"
+
+/**
+ * Looks users up by exact email or uid, or lists them a page at a time when
+ * there is no query. Firebase Auth has no substring search.
+ */
+export async function searchUsers(query: string | undefined, options: { limit: number; pageToken?: string }) {
+  const auth = getAuth()
+  let users: UserRecord[]
+  let nextPageToken: string | null = null
+
+  if (query) {
+    try {
+      users = [query.includes("@") ? await auth.getUserByEmail(query) : await auth.getUser(query)]
+    } catch (error) {
+      if (!isUserNotFound(error)) throw error
+      users = []
+    }
+  } else {
+    const page = await auth.listUsers(options.limit, options.pageToken)
+    users = page.users
+    nextPageToken = page.pageToken ?? null
+  }
+
+  const db = await connectToDatabase()
+  const wallets = await db
+    .collection<WalletDocument>("wallets")
+    .find({ userId: { $in: users.map(user => user.uid) } })
+    .toArray()
+  const walletsByUser = new Map(wallets.map(wallet => [wallet.userId, wallet]))
+
+  return {
+    data: users.map(user => serializeUser(user, walletsByUser.get(user.uid))),
+    nextPageToken
+  }
+}
+
+/**
+ * Suspends an account, or lifts the suspension when `reason` is null.
+ * All of the account's API keys are rejected while it is suspended, and a
+ * user's Firebase account is disabled so they cannot sign in either.
+ * `onUpdate` runs in the same transaction as the change.
+ * @returns The updated wallet, or null if the account has none
+ */
+export async function setAccountSuspension(
+  userId: string,
+  reason: string | null,
+  options: { onUpdate?: UpdateWriter<WalletDocument> } = {}
+) {
+  const db = await connectToDatabase()
+  const wallet = await withTransaction(async session => {
+    const result = await db.collection<WalletDocument>("wallets").findOneAndUpdate(
+      { userId },
+      { $set: { suspendedAt: reason === null ? null : new Date(), suspendedReason: reason } },
+      { returnDocument: "after", session }
+    )
+    if (result.value) await options.onUpdate?.(session, result.value)
+    return result.value
+  })
+  if (!wallet) return null
+  await invalidateCachedWallet(userId)
+
+  // Organization accounts have no Firebase user
+  const auth = getAuth()
+  try {
+    await auth.updateUser(userId, { disabled: reason !== null })
+    // Signed-in sessions cannot refresh their tokens any more
+    if (reason !== null) await auth.revokeRefreshTokens(userId)
+  } catch (error) {
+    if (!isUserNotFound(error)) throw error
+  }
+  return wallet
+}
+
+/**
+ * Moves an account to a rate limit plan, or back to the default plan when
+ * `plan` is null. `onUpdate` runs in the same transaction as the change.
+ * @returns The updated wallet, or null if the account has none
+ */
+export async function setAccountPlan(
+  userId: string,
+  plan: string | null,
+  options: { onUpdate?: UpdateWriter<WalletDocument> } = {}
+) {
+  const db = await connectToDatabase()
+  const wallet = await withTransaction(async session => {
+    const result = await db.collection<WalletDocument>("wallets").findOneAndUpdate(
+      { userId },
+      plan === null ? { $unset: { plan: "" } } : { $set: { plan } },
+      { returnDocument: "after", session }
+    )
+    if (result.value) await options.onUpdate?.(session, result.value)
+    return result.value
+  })
+  if (wallet) await invalidateCachedWallet(userId)
+  return wallet
+}
+
+/**
+ * Suspends a single API key, or lifts the suspension when `reason` is null.
+ * `onUpdate` runs in the same transaction as the change.
+ * @returns The updated key, or null if it does not exist
+ */
+export async function setApiKeySuspension(
+  id: string,
+  reason: string | null,
+  options: { onUpdate?: UpdateWriter<ApiKeyDocument> } = {}
+) {
+  const db = await connectToDatabase()
+  const key = await withTransaction(async session => {
+    const result = await db.collection<ApiKeyDocument>("apiKeys").findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { suspendedAt: reason === null ? null : new Date(), suspendedReason: reason } },
+      { returnDocument: "after", session }
+    )
+    if (result.value) await options.onUpdate?.(session, result.value)
+    return result.value
+  })
+  if (key) await invalidateApiKeyCache(key.keyHash)
+  return key
+}
@@ -0,0 +1,596 @@
+import crypto from "crypto"
+import dns from "dns"
+import http from "http"
+import https from "https"
+import net from "net"
+import axios from "axios"
+import { ObjectId } from "mongodb"
+import { redis } from "./redis"
+import { connectToDatabase, onWalletBalanceChange, TransactionDocument, WalletBalanceChange } from "./mongodb"
+import { sendEmail } from "./email"
+
+// User-configured notifications, sent by email and to an HMAC-signed
+// webhook. Threshold alerts fire once per crossing: a balance alert re-arms
+// when the balance is back above the threshold, a daily spend alert when the
+// UTC day changes. Webhook deliveries are stored and retried with backoff
+// by the alerts cron.
+export type AlertType =
+  | "balance_low"
+  | "daily_spend"
+  | "payment_received"
+  | "api_key_created"
+  | "api_key_deleted"
+  | "rate_limited"
+
+export interface AlertSettingsDocument {
+  _id?: ObjectId;
+  userId: string;
+  email: string | null;
+  webhookUrl: string | null;
+  // Signs webhook deliveries; shown to the user so they can verify them
+  webhookSecret: string;
+  // Fires when the balance drops below each of these
+  balanceBelow: number[];
+  dailySpendAbove: number | null;
+  paymentReceived: boolean;
+  apiKeyCreated: boolean;
+  apiKeyDeleted: boolean;
+  rateLimited: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Alert {
+  id: string;
+  type: AlertType;
+  userId: string;
+  createdAt: Date;
+  data: Record<string, any>;
+}
+
+export interface AlertDeliveryDocument {
+  _id?: ObjectId;
+  alertId: string;
+  userId: string;
+  type: AlertType;
+  url: string;
+  // The exact JSON that is signed and sent
+  body: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+const MAX_BALANCE_THRESHOLDS = 5
+const SETTINGS_CACHE_TTL = 300 // 5 minutes
+// Delay before retry n; the delivery fails for good after the last one
+const RETRY_DELAYS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60] // seconds
+const DELIVERY_TIMEOUT = 10000 // ms
+// How long a delivery being attempted is hidden from other workers
+const DELIVERY_LEASE = 60 // seconds
+const DELIVERY_RETENTION = 30 * 24 * 60 * 60 // 30 days
+const RETRY_BATCH = 100
+const RATE_LIMIT_ALERT_INTERVAL = 60 * 60 // 1 hour
+
+const settingsCacheKey = (userId: string) => `alert_settings:${userId}`
+const currentDay = (now = new Date()) => now.toISOString().slice(0, 10)
+
+let indexesCreated = false
+
+async function getCollections() {
+  const db = await connectToDatabase()
+  const settings = db.collection<AlertSettingsDocument>("alertSettings")
+  const deliveries = db.collection<AlertDeliveryDocument>("alertDeliveries")
+
+  if (!indexesCreated) {
+    await Promise.all([
+      settings.createIndex({ userId: 1 }, { unique: true }),
+      deliveries.createIndex({ status: 1, nextAttemptAt: 1 }),
+      deliveries.createIndex({ userId: 1, createdAt: -1 }),
+      deliveries.createIndex({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION })
+    ])
+    indexesCreated = true
+  }
+  return { settings, deliveries }
+}
+
+const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString("hex")}`
+
+function defaultSettings(userId: string): AlertSettingsDocument {
+  const now = new Date()
+  return {
+    userId,
+    email: null,
+    webhookUrl: null,
+    webhookSecret: generateWebhookSecret(),
+    balanceBelow: [],
+    dailySpendAbove: null,
+    paymentReceived: true,
+    apiKeyCreated: true,
+    apiKeyDeleted: true,
+    rateLimited: true,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * The user's alert settings, or null if they never configured any.
+ * Cached in Redis since every wallet change looks them up.
+ */
+export async function getAlertSettings(userId: string): Promise<AlertSettingsDocument | null> {
+  const cached = await redis.get(settingsCacheKey(userId))
+  if (cached) return JSON.parse(cached)
+
+  const { settings } = await getCollections()
+  const doc = await settings.findOne({ userId })
+  await redis.setex(settingsCacheKey(userId), SETTINGS_CACHE_TTL, JSON.stringify(doc))
+  return doc
+}
+
+/**
+ * @param {boolean} includeSecret - The webhook secret signs deliveries, so
+ * only callers who may change the settings get it
+ */
+export function serializeAlertSettings(doc: AlertSettingsDocument, includeSecret: boolean) {
+  return {
+    email: doc.email,
+    webhookUrl: doc.webhookUrl,
+    ...(includeSecret ? { webhookSecret: doc.webhookSecret } : {}),
+    balanceBelow: doc.balanceBelow,
+    dailySpendAbove: doc.dailySpendAbove,
+    paymentReceived: doc.paymentReceived,
+    apiKeyCreated: doc.apiKeyCreated,
+    apiKeyDeleted: doc.apiKeyDeleted,
+    rateLimited: doc.rateLimited
+  }
+}
+
+export type AlertSettingsUpdate = Partial<Omit<AlertSettingsDocument, "_id" | "userId" | "createdAt" | "updatedAt">>
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const BOOLEAN_FIELDS = ["paymentReceived", "apiKeyCreated", "apiKeyDeleted", "rateLimited"] as const
+
+function isValidWebhookUrl(value: string) {
+  try {
+    const url = new URL(value)
+    // Plain http only for local development
+    return url.protocol === "https:" || (url.protocol === "http:" && process.env.NODE_ENV !== "production")
+  } catch {
+    return false
+  }
+}
+
+// Webhooks must not reach our own network: loopback, private and link-local
+// ranges, the last including the cloud metadata endpoint 169.254.169.254
+const BLOCKED_NETWORKS = new net.BlockList()
+const BLOCKED_SUBNETS: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"]
+]
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  BLOCKED_NETWORKS.addSubnet(network, prefix, type)
+}
+
+function isBlockedAddress(address: string) {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return BLOCKED_NETWORKS.check(mapped[1], "ipv4")
+  return BLOCKED_NETWORKS.check(address, net.isIPv6(address) ? "ipv6" : "ipv4")
+}
+
+/**
+ * Resolves a webhook URL's host
+ * @returns {Promise<string | null>} the first blocked address it resolves to, or null
+ * @throws if the host does not resolve
+ */
+async function findBlockedAddress(value: string): Promise<string | null> {
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, "")
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address)
+  return addresses.find(isBlockedAddress) ?? null
+}
+
+// Checks the address a delivery actually connects to, so a host that
+// re-resolves to a blocked address after the check above is refused too
+const webhookLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error)
+    if (addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a blocked address`))
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}) as net.LookupFunction
+
+const webhookAgents = {
+  httpAgent: new http.Agent({ lookup: webhookLookup }),
+  httpsAgent: new https.Agent({ lookup: webhookLookup })
+}
+
+/**
+ * Validates a settings update; fields that are missing stay unchanged
+ * @returns {Promise<{ update: AlertSettingsUpdate } | { error: string }>}
+ */
+export async function parseAlertSettings(body: any): Promise<{ update: AlertSettingsUpdate } | { error: string }> {
+  if (!body || typeof body !== "object") return { error: "Invalid settings" }
+  const update: AlertSettingsUpdate = {}
+
+  if (body.email !== undefined) {
+    if (body.email !== null && (typeof body.email !== "string" || !EMAIL_PATTERN.test(body.email))) {
+      return { error: "email must be an email address or null" }
+    }
+    update.email = body.email
+  }
+
+  if (body.webhookUrl !== undefined) {
+    if (body.webhookUrl !== null && (typeof body.webhookUrl !== "string" || !isValidWebhookUrl(body.webhookUrl))) {
+      return { error: "webhookUrl must be an https URL or null" }
+    }
+    if (body.webhookUrl !== null) {
+      const blocked = await findBlockedAddress(body.webhookUrl).catch(() => undefined)
+      if (blocked === undefined) return { error: "webhookUrl host could not be resolved" }
+      if (blocked) return { error: "webhookUrl must not point to a private or internal address" }
+    }
+    update.webhookUrl = body.webhookUrl
+  }
+  if (body.rotateWebhookSecret === true) update.webhookSecret = generateWebhookSecret()
+
+  if (body.balanceBelow !== undefined) {
+    const thresholds = body.balanceBelow
+    if (
+      !Array.isArray(thresholds) ||
+      thresholds.length > MAX_BALANCE_THRESHOLDS ||
+      thresholds.some(value => typeof value !== "number" || !Number.isFinite(value) || value <= 0)
+    ) {
+      return { error: `balanceBelow must be a list of at most ${MAX_BALANCE_THRESHOLDS} positive amounts` }
+    }
+    update.balanceBelow = [...new Set(thresholds as number[])].sort((a, b) => b - a)
+  }
+
+  if (body.dailySpendAbove !== undefined) {
+    const limit = body.dailySpendAbove
+    if (limit !== null && (typeof limit !== "number" || !Number.isFinite(limit) || limit <= 0)) {
+      return { error: "dailySpendAbove must be a positive amount or null" }
+    }
+    update.dailySpendAbove = limit
+  }
+
+  for (const field of BOOLEAN_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== "boolean") return { error: `${field} must be a boolean` }
+    update[field] = body[field]
+  }
+
+  return { update }
+}
+
+/**
+ * Applies a settings update, creating the settings on first use
+ */
+export async function updateAlertSettings(userId: string, update: AlertSettingsUpdate) {
+  const { settings } = await getCollections()
+  const { updatedAt, ...defaults } = defaultSettings(userId)
+
+  // Defaults only fill in what the update does not set
+  const insertDefaults = Object.fromEntries(
+    Object.entries(defaults).filter(([field]) => !(field in update))
+  )
+  const result = await settings.findOneAndUpdate(
+    { userId },
+    { $set: { ...update, updatedAt }, $setOnInsert: insertDefaults },
+    { upsert: true, returnDocument: "after" }
+  )
+  await redis.del(settingsCacheKey(userId))
+  return result.value!
+}
+
+/**
+ * The settings a user without any would start from
+ */
+export function getDefaultAlertSettings(userId: string) {
+  return defaultSettings(userId)
+}
+
+export function signAlertPayload(body: string, secret: string, timestamp: number) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+function describeAlert(alert: Alert): { subject: string; text: string } {
+  const { data } = alert
+  const money = (amount: number) => `$${Number(amount).toFixed(2)}`
+
+  switch (alert.type) {
+    case "balance_low":
+      return {
+        subject: `Your balance is below ${money(data.threshold)}`,
+        text: `Your wallet balance is ${money(data.balance)}, below your alert threshold of ${money(data.threshold)}. Top up to avoid interrupted requests.`
+      }
+    case "daily_spend":
+      return {
+        subject: `You have spent over ${money(data.limit)} today`,
+        text: `Spend today (${data.day}, UTC) has reached ${money(data.spent)}, above your alert of ${money(data.limit)}.`
+      }
+    case "payment_received":
+      return {
+        subject: `Payment of ${money(data.amount)} received`,
+        text: `${money(data.amount)} was added to your wallet. Your balance is now ${money(data.balance)}.`
+      }
+    case "api_key_created":
+      return {
+        subject: `API key "${data.name}" was created`,
+        text: `A new API key "${data.name}" (${data.prefix}...) was created on your account.`
+      }
+    case "api_key_deleted":
+      return {
+        subject: `API key "${data.name}" was deleted`,
+        text: `The API key "${data.name}" (${data.prefix}...) was deleted from your account.`
+      }
+    case "rate_limited":
+      return {
+        subject: `API key "${data.name}" is being rate limited`,
+        text: `Requests with API key "${data.name}" (${data.prefix}...) exceeded its limit of ${data.limit} ${data.limitType} per minute. Further alerts for this key are paused for an hour.`
+      }
+  }
+}
+
+const ALERT_ENABLED: Record<AlertType, (settings: AlertSettingsDocument) => boolean> = {
+  balance_low: settings => settings.balanceBelow.length > 0,
+  daily_spend: settings => settings.dailySpendAbove !== null,
+  payment_received: settings => settings.paymentReceived,
+  api_key_created: settings => settings.apiKeyCreated,
+  api_key_deleted: settings => settings.apiKeyDeleted,
+  rate_limited: settings => settings.rateLimited
+}
+
+/**
+ * Sends an alert over every channel the user configured, if that alert is
+ * switched on. Email is sent once; webhooks are queued and retried.
+ */
+export async function sendAlert(userId: string, type: AlertType, data: Record<string, any>) {
+  const settings = await getAlertSettings(userId)
+  if (!settings || !ALERT_ENABLED[type](settings)) return
+
+  const alert: Alert = { id: `alert_${crypto.randomUUID()}`, type, userId, createdAt: new Date(), data }
+
+  if (settings.email) {
+    const { subject, text } = describeAlert(alert)
+    await sendEmail({ to: settings.email, subject, text }).catch(error => {
+      console.error(`Failed to email ${type} alert:`, error)
+    })
+  }
+
+  if (settings.webhookUrl) {
+    const { deliveries } = await getCollections()
+    const delivery: AlertDeliveryDocument = {
+      alertId: alert.id,
+      userId,
+      type,
+      url: settings.webhookUrl,
+      body: JSON.stringify(alert),
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE * 1000),
+      createdAt: new Date()
+    }
+    const { insertedId } = await deliveries.insertOne(delivery)
+    await attemptDelivery({ ...delivery, _id: insertedId }, settings.webhookSecret)
+  }
+}
+
+async function attemptDelivery(delivery: AlertDeliveryDocument, secret: string) {
+  const { deliveries } = await getCollections()
+  const attempts = delivery.attempts + 1
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  try {
+    // The host may resolve elsewhere than when the URL was saved
+    if (await findBlockedAddress(delivery.url)) {
+      throw new Error("Webhook URL resolves to a private or internal address")
+    }
+    await axios.post(delivery.url, delivery.body, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Alert-Id": delivery.alertId,
+        "X-Alert-Signature": `t=${timestamp},v1=${signAlertPayload(delivery.body, secret, timestamp)}`
+      },
+      timeout: DELIVERY_TIMEOUT,
+      maxRedirects: 0,
+      proxy: false,
+      ...webhookAgents
+    })
+    await deliveries.updateOne(
+      { _id: delivery._id },
+      { $set: { status: "delivered", attempts, nextAttemptAt: null, deliveredAt: new Date() } }
+    )
+  } catch (error: any) {
+    const message = error?.response ? `HTTP ${error.response.status}` : error?.message || String(error)
+    const delay = RETRY_DELAYS[attempts - 1]
+    await deliveries.updateOne(
+      { _id: delivery._id },
+      {
+        $set: delay === undefined
+          ? { status: "failed", attempts, nextAttemptAt: null, lastError: message }
+          : { attempts, nextAttemptAt: new Date(Date.now() + delay * 1000), lastError: message }
+      }
+    )
+  }
+}
+
+/**
+ * Retries webhook deliveries that are due
+ */
+export async function retryAlertDeliveries() {
+  const { deliveries } = await getCollections()
+  let attempted = 0
+
+  while (attempted < RETRY_BATCH) {
+    // Claim one due delivery by pushing its next attempt out by the lease
+    const now = new Date()
+    const claimed = await deliveries.findOneAndUpdate(
+      { status: "pending", nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE * 1000) } },
+      { sort: { nextAttemptAt: 1 } }
+    )
+    const delivery = claimed.value
+    if (!delivery) break
+    attempted++
+
+    // Sign with the current secret, in case it was rotated since
+    const settings = await getAlertSettings(delivery.userId)
+    if (!settings) {
+      await deliveries.updateOne(
+        { _id: delivery._id },
+        { $set: { status: "failed", nextAttemptAt: null, lastError: "Alert settings were removed" } }
+      )
+      continue
+    }
+    await attemptDelivery(delivery, settings.webhookSecret)
+  }
+
+  const pending = await deliveries.countDocuments({ status: "pending" })
+  return { attempted, pending }
+}
+
+/**
+ * A user's most recent webhook deliveries
+ */
+export async function getAlertDeliveries(userId: string, limit: number) {
+  const { deliveries } = await getCollections()
+  const entries = await deliveries.find({ userId }).sort({ createdAt: -1 }).limit(limit).toArray()
+  return entries.map(entry => ({
+    id: entry._id.toString(),
+    alertId: entry.alertId,
+    type: entry.type,
+    url: entry.url,
+    status: entry.status,
+    attempts: entry.attempts,
+    nextAttemptAt: entry.nextAttemptAt,
+    lastError: entry.lastError ?? null,
+    createdAt: entry.createdAt,
+    deliveredAt: entry.deliveredAt ?? null
+  }))
+}
+
+// Balance thresholds that already fired and have not re-armed
+const firedThresholdsKey = (userId: string) => `alerts:balance_low:${userId}`
+
+async function checkBalanceThresholds(settings: AlertSettingsDocument, balance: number) {
+  for (const threshold of settings.balanceBelow) {
+    if (balance >= threshold) {
+      await redis.srem(firedThresholdsKey(settings.userId), String(threshold))
+      continue
+    }
+    const added = await redis.sadd(firedThresholdsKey(settings.userId), String(threshold))
+    if (added) await sendAlert(settings.userId, "balance_low", { threshold, balance })
+  }
+}
+
+/**
+ * What the user has been charged today (UTC), straight from the ledger
+ */
+async function getLedgerSpendToday(userId: string) {
+  const db = await connectToDatabase()
+  const transactions = db.collection<TransactionDocument>("transactions")
+  const [result] = await transactions
+    .aggregate([
+      { $match: { userId, type: "charge", createdAt: { $gte: new Date(`${currentDay()}T00:00:00Z`) } } },
+      { $group: { _id: null, spent: { $sum: "$amount" } } }
+    ])
+    .toArray()
+  return -(result?.spent ?? 0)
+}
+
+async function checkDailySpend(settings: AlertSettingsDocument, charged: number) {
+  const limit = settings.dailySpendAbove
+  if (limit === null) return
+
+  const day = currentDay()
+  const spendKey = `alerts:daily_spend:${settings.userId}:${day}`
+  const ttl = 2 * 24 * 60 * 60
+
+  // The running total starts from the ledger, which already includes this charge
+  let spent: number
+  const seeded = await redis.set(spendKey, String(await getLedgerSpendToday(settings.userId)), "EX", ttl, "NX")
+  if (seeded) {
+    spent = Number(await redis.get(spendKey))
+  } else {
+    spent = Number(await redis.incrbyfloat(spendKey, charged))
+  }
+  if (spent < limit) return
+
+  const firstCrossing = await redis.set(`alerts:daily_spend_fired:${settings.userId}:${day}`, "1", "EX", ttl, "NX")
+  if (firstCrossing) await sendAlert(settings.userId, "daily_spend", { limit, spent, day })
+}
+
+async function handleWalletBalanceChange(change: WalletBalanceChange) {
+  const settings = await getAlertSettings(change.userId)
+  if (!settings) return
+
+  await checkBalanceThresholds(settings, change.balance)
+
+  if (change.type === "charge") {
+    await checkDailySpend(settings, -change.amount)
+  }
+
+  // Top-ups from a payment provider; signup grants are not payments
+  if (change.type === "topup" && change.details.provider) {
+    await sendAlert(change.userId, "payment_received", {
+      amount: change.amount,
+      balance: change.balance,
+      provider: change.details.provider,
+      externalId: change.details.externalId
+    })
+  }
+}
+
+onWalletBalanceChange(handleWalletBalanceChange)
+
+/**
+ * Alerts the owner that one of their API keys was created or deleted
+ */
+export function notifyApiKeyChange(
+  type: "api_key_created" | "api_key_deleted",
+  key: { _id: ObjectId; userId: string; name: string; prefix: string }
+) {
+  sendAlert(key.userId, type, { id: key._id.toString(), name: key.name, prefix: key.prefix }).catch(error => {
+    console.error(`Failed to send ${type} alert:`, error)
+  })
+}
+
+/**
+ * Alerts the owner that a key hit its rate limit, at most once an hour per key
+ */
+export function notifyRateLimited(
+  key: { _id: ObjectId; userId: string; name: string; prefix: string },
+  limit: { type: "requests" | "tokens"; limit: number }
+) {
+  const apiKeyId = key._id.toString()
+  redis
+    .set(`alerts:rate_limited:${apiKeyId}`, "1", "EX", RATE_LIMIT_ALERT_INTERVAL, "NX")
+    .then(first => {
+      if (!first) return
+      return sendAlert(key.userId, "rate_limited", {
+        id: apiKeyId,
+        name: key.name,
+        prefix: key.prefix,
+        limitType: limit.type,
+        limit: limit.limit
+      })
+    })
+    .catch(error => console.error("Failed to send rate_limited alert:", error))
+}
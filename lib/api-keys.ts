@@ -0,0 +1,254 @@
+import crypto from "crypto"
+import { ObjectId, WithId } from "mongodb"
+import { connectToDatabase } from "./mongodb"
+import { redis } from "./redis"
+import { resolveModel } from "./models"
+import type { SpendLimits, SpendTotals } from "./spend-limits"
+import type { RateLimitConfig, RateLimitTier } from "./rate-limit"
+
+// Keys are shown to the user once at creation. Only a SHA-256 hash is
+// stored, plus a short prefix so the dashboard can tell keys apart.
+export const API_KEY_PREFIX = "sk-chg-"
+const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 4
+
+// Resolved keys are cached briefly so every request doesn't hit Mongo
+const KEY_CACHE_TTL = 300 // 5 minutes
+
+export interface ApiKeyDocument {
+  _id?: ObjectId;
+  keyHash: string;
+  prefix: string;
+  name: string;
+  // The account that owns the key and pays for it: a uid or `org:<id>`
+  userId: string;
+  // The user who created it; differs from userId for organization keys
+  createdBy?: string;
+  createdAt: Date;
+  expiresAt?: Date | null;
+  // Empty or missing means every model is allowed
+  allowedModels?: string[];
+  lastUsedAt?: Date;
+  requestCount?: number;
+  rotatedAt?: Date;
+  limits?: SpendLimits;
+  spend?: SpendTotals;
+  // Held for requests in flight against the hard limits, see reserveApiKeySpend
+  reservedSpend?: number;
+  // Tighter rate limits for this key, on top of the owner's tier
+  rateLimits?: RateLimitTier;
+  // Set by an admin; suspended keys are rejected until unsuspended
+  suspendedAt?: Date | null;
+  suspendedReason?: string | null;
+  // Plaintext key of documents created before hashing; removed on first use
+  key?: string;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex")
+}
+
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("hex")}`
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, VISIBLE_PREFIX_LENGTH) }
+}
+
+const keyCacheKey = (keyHash: string) => `apikey:${keyHash}`
+
+// Every Date field of ApiKeyDocument; the JSON cache stores them as strings
+const DATE_FIELDS: (keyof ApiKeyDocument)[] = ["createdAt", "expiresAt", "lastUsedAt", "rotatedAt", "suspendedAt"]
+
+function reviveDates(doc: any): WithId<ApiKeyDocument> {
+  const revived = { ...doc, _id: new ObjectId(doc._id) }
+  for (const field of DATE_FIELDS) {
+    if (typeof doc[field] === "string") revived[field] = new Date(doc[field])
+  }
+  return revived
+}
+
+/**
+ * Looks up the key a request presented. Keys stored in plaintext by older
+ * versions are migrated to a hash the first time they are used.
+ */
+export async function findApiKey(key: string): Promise<WithId<ApiKeyDocument> | null> {
+  const keyHash = hashApiKey(key)
+
+  const cached = await redis.get(keyCacheKey(keyHash))
+  if (cached) return reviveDates(JSON.parse(cached))
+
+  const db = await connectToDatabase()
+  const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+
+  let doc = await apiKeys.findOne({ keyHash })
+  if (!doc) {
+    const legacy = await apiKeys.findOneAndUpdate(
+      { key },
+      {
+        $set: {
+          keyHash,
+          prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+          name: "Default key"
+        },
+        $unset: { key: "" }
+      },
+      { returnDocument: "after" }
+    )
+    doc = legacy.value
+  }
+  if (!doc) return null
+
+  await cacheApiKey(doc)
+  return doc
+}
+
+export async function cacheApiKey(doc: WithId<ApiKeyDocument>) {
+  await redis.setex(keyCacheKey(doc.keyHash), KEY_CACHE_TTL, JSON.stringify(doc))
+}
+
+/**
+ * Hashes any plaintext keys the user still has, so they can be listed
+ */
+export async function migrateLegacyApiKeys(userId: string) {
+  const db = await connectToDatabase()
+  const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+  const legacy = await apiKeys.find({ userId, key: { $exists: true } }).toArray()
+
+  for (const doc of legacy) {
+    await apiKeys.updateOne(
+      { _id: doc._id },
+      {
+        $set: {
+          keyHash: hashApiKey(doc.key!),
+          prefix: doc.key!.slice(0, VISIBLE_PREFIX_LENGTH),
+          name: doc.name || "Default key"
+        },
+        $unset: { key: "" }
+      }
+    )
+  }
+}
+
+export function isApiKeyExpired(doc: ApiKeyDocument): boolean {
+  return !!doc.expiresAt && doc.expiresAt.getTime() <= Date.now()
+}
+
+export function isModelAllowed(doc: ApiKeyDocument, model: string): boolean {
+  return !doc.allowedModels?.length || doc.allowedModels.includes(model)
+}
+
+/**
+ * Records a use of the key. Fire-and-forget: usage tracking must never fail a request.
+ */
+export function touchApiKey(id: ObjectId) {
+  connectToDatabase()
+    .then(db => db.collection<ApiKeyDocument>("apiKeys").updateOne(
+      { _id: id },
+      { $set: { lastUsedAt: new Date() }, $inc: { requestCount: 1 } }
+    ))
+    .catch(error => console.error("Failed to record API key usage:", error))
+}
+
+export async function invalidateApiKeyCache(keyHash: string) {
+  await redis.del(keyCacheKey(keyHash))
+}
+
+/**
+ * Public view of a key document, without the hash
+ */
+export function serializeApiKey(doc: WithId<ApiKeyDocument>) {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    prefix: doc.prefix,
+    createdBy: doc.createdBy ?? doc.userId,
+    createdAt: doc.createdAt,
+    expiresAt: doc.expiresAt ?? null,
+    allowedModels: doc.allowedModels ?? [],
+    lastUsedAt: doc.lastUsedAt ?? null,
+    requestCount: doc.requestCount ?? 0,
+    limits: doc.limits ?? {},
+    rateLimits: doc.rateLimits ?? {},
+    suspendedAt: doc.suspendedAt ?? null,
+  }
+}
+
+export interface ApiKeySettings {
+  name?: string;
+  expiresAt?: Date | null;
+  allowedModels?: string[];
+  rateLimits?: RateLimitTier;
+}
+
+function parseRateLimitConfig(config: any): RateLimitConfig | null {
+  if (!config || typeof config !== "object" || Array.isArray(config)) return null
+  const valid = ["rpm", "tpm"].every(field =>
+    config[field] === undefined || (Number.isInteger(config[field]) && config[field] > 0)
+  )
+  if (!valid) return null
+
+  const parsed: RateLimitConfig = {}
+  if (config.rpm) parsed.rpm = config.rpm
+  if (config.tpm) parsed.tpm = config.tpm
+  return parsed
+}
+
+/**
+ * Validates the user-editable fields of a key, as sent on creation or update
+ * @returns {{ settings: ApiKeySettings } | { error: string }}
+ */
+export function parseApiKeySettings(body: any): { settings: ApiKeySettings; error?: undefined } | { error: string; settings?: undefined } {
+  const settings: ApiKeySettings = {}
+  const { name, expiresAt, allowedModels, rateLimits } = body || {}
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim() || name.length > 64) {
+      return { error: "name must be a non-empty string of at most 64 characters" }
+    }
+    settings.name = name.trim()
+  }
+
+  if (expiresAt !== undefined) {
+    if (expiresAt === null) {
+      settings.expiresAt = null
+    } else {
+      const date = new Date(expiresAt)
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return { error: "expiresAt must be a future date" }
+      }
+      settings.expiresAt = date
+    }
+  }
+
+  if (allowedModels !== undefined) {
+    if (!Array.isArray(allowedModels) || !allowedModels.every(model => typeof model === "string")) {
+      return { error: "allowedModels must be an array of model names" }
+    }
+    const unknown = allowedModels.filter(model => !resolveModel(model).length)
+    if (unknown.length) {
+      return { error: `Unknown models: ${unknown.join(", ")}` }
+    }
+    settings.allowedModels = [...new Set(allowedModels)]
+  }
+
+  if (rateLimits !== undefined) {
+    // Key limits can only tighten the owner's tier; its buckets still apply
+    const parsed: RateLimitTier | null = parseRateLimitConfig(rateLimits)
+    const models = rateLimits?.models
+    if (parsed && models !== undefined) {
+      if (!models || typeof models !== "object" || Array.isArray(models)) {
+        return { error: "rateLimits.models must be an object keyed by model" }
+      }
+      parsed.models = {}
+      for (const [model, config] of Object.entries(models)) {
+        const modelLimits = parseRateLimitConfig(config)
+        if (!modelLimits) return { error: `rateLimits.models.${model} must have positive integer rpm and/or tpm` }
+        parsed.models[model] = modelLimits
+      }
+    }
+    if (!parsed) {
+      return { error: "rateLimits must have positive integer rpm and/or tpm" }
+    }
+    settings.rateLimits = parsed
+  }
+
+  return { settings }
+}
@@ -0,0 +1,123 @@
+import { invalidRequest, OpenAIError } from "./chat-schema"
+
+// Validation of the OpenAI audio request bodies. Transcription requests are
+// multipart forms, so their fields arrive as strings and are converted here.
+
+export const TRANSCRIPT_FORMATS = ["json", "text", "srt", "verbose_json", "vtt"]
+const TIMESTAMP_GRANULARITIES = ["word", "segment"]
+const MAX_PROMPT_LENGTH = 1000
+
+export const SPEECH_FORMATS = ["mp3", "opus", "aac", "flac", "wav", "pcm"]
+const VOICES = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"]
+export const MAX_SPEECH_INPUT_LENGTH = 4096
+
+type Validated = { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined }
+
+const oneOf = (values: string[]) => (value: any) =>
+  values.includes(value) ? null : `must be one of: ${values.join(", ")}`
+
+// Each check returns an error or the converted value
+const TRANSCRIPTION_FIELDS: Record<string, (value: any) => { error: string } | { value: any }> = {
+  model: value => (value ? { value } : { error: "must be a string" }),
+  language: value =>
+    /^[a-z]{2,3}$/.test(value) ? { value } : { error: "must be an ISO-639-1 language code" },
+  prompt: value =>
+    typeof value === "string" && value.length <= MAX_PROMPT_LENGTH
+      ? { value }
+      : { error: `must be at most ${MAX_PROMPT_LENGTH} characters` },
+  response_format: value =>
+    TRANSCRIPT_FORMATS.includes(value) ? { value } : { error: `must be one of: ${TRANSCRIPT_FORMATS.join(", ")}` },
+  temperature: value => {
+    const number = Number(value)
+    return value !== "" && number >= 0 && number <= 1 ? { value: number } : { error: "must be a number between 0 and 1" }
+  },
+  timestamp_granularities: value => {
+    const list = Array.isArray(value) ? value : [value]
+    return list.every(item => TIMESTAMP_GRANULARITIES.includes(item))
+      ? { value: list }
+      : { error: `must be a list of: ${TIMESTAMP_GRANULARITIES.join(", ")}` }
+  },
+}
+
+// Form encoders name list fields with brackets, as the OpenAI SDKs do
+const TRANSCRIPTION_ALIASES: Record<string, string> = {
+  "timestamp_granularities[]": "timestamp_granularities"
+}
+
+/**
+ * Validates the fields of a transcription form; the file is checked by the route
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateTranscriptionRequest(fields: Record<string, any>): Validated {
+  if (fields.model === undefined) {
+    return { error: invalidRequest("Missing required parameter: 'model'.", "model", "missing_required_parameter") }
+  }
+
+  const params: Record<string, any> = { response_format: "json" }
+  for (const [field, value] of Object.entries(fields)) {
+    const name = TRANSCRIPTION_ALIASES[field] ?? field
+    const check = TRANSCRIPTION_FIELDS[name]
+    if (!check) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+
+    const result = check(value)
+    if ("error" in result) {
+      return { error: invalidRequest(`Invalid '${name}': ${result.error}.`, name, "invalid_value") }
+    }
+    params[name] = result.value
+  }
+
+  if (params.timestamp_granularities && params.response_format !== "verbose_json") {
+    return {
+      error: invalidRequest(
+        "'timestamp_granularities' requires 'response_format' to be 'verbose_json'.",
+        "timestamp_granularities",
+        "invalid_value"
+      )
+    }
+  }
+  return { params }
+}
+
+const SPEECH_PARAMETERS: Record<string, (value: any) => string | null> = {
+  model: value => (typeof value === "string" && value ? null : "must be a string"),
+  input: value =>
+    typeof value === "string" && value && value.length <= MAX_SPEECH_INPUT_LENGTH
+      ? null
+      : `must be a string of 1 to ${MAX_SPEECH_INPUT_LENGTH} characters`,
+  voice: oneOf(VOICES),
+  response_format: oneOf(SPEECH_FORMATS),
+  speed: value => (typeof value === "number" && value >= 0.25 && value <= 4 ? null : "must be a number between 0.25 and 4"),
+}
+
+/**
+ * Validates a speech body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateSpeechRequest(body: any): Validated {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+  for (const name of ["model", "input", "voice"]) {
+    if (body[name] === undefined || body[name] === null) {
+      return { error: invalidRequest(`Missing required parameter: '${name}'.`, name, "missing_required_parameter") }
+    }
+  }
+
+  const params: Record<string, any> = { response_format: "mp3" }
+  for (const [name, value] of Object.entries(body)) {
+    const check = SPEECH_PARAMETERS[name]
+    if (!check) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+    if (value === null) continue
+
+    const problem = check(value)
+    if (problem) {
+      return { error: invalidRequest(`Invalid '${name}': ${problem}.`, name, "invalid_value") }
+    }
+    params[name] = value
+  }
+  return { params }
+}
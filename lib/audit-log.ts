@@ -0,0 +1,92 @@
+import { ClientSession, ObjectId } from "mongodb"
+import { connectToDatabase } from "./mongodb"
+
+// Every change an admin makes through the admin API is recorded in
+// `auditLog`, in the transaction that makes the change. Entries are never
+// updated or deleted.
+export type AuditTargetType = "user" | "api_key" | "model"
+
+export interface AuditLogDocument {
+  _id?: ObjectId;
+  adminId: string;
+  adminEmail?: string;
+  // e.g. "wallet.adjust", "user.suspend"
+  action: string;
+  target: { type: AuditTargetType; id: string };
+  reason?: string;
+  // The values that were changed, before and after where it applies
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+let indexesCreated = false
+
+async function getAuditLog() {
+  const db = await connectToDatabase()
+  const auditLog = db.collection<AuditLogDocument>("auditLog")
+
+  if (!indexesCreated) {
+    await Promise.all([
+      auditLog.createIndex({ createdAt: -1 }),
+      auditLog.createIndex({ "target.id": 1, createdAt: -1 }),
+      auditLog.createIndex({ adminId: 1, createdAt: -1 })
+    ])
+    indexesCreated = true
+  }
+  return auditLog
+}
+
+/**
+ * @param {ClientSession} session - The transaction of the change being recorded
+ */
+export async function recordAuditEvent(
+  admin: { uid: string; email?: string },
+  event: Pick<AuditLogDocument, "action" | "target" | "reason"> & { details?: Record<string, unknown> },
+  session?: ClientSession
+) {
+  const auditLog = await getAuditLog()
+  const entry: AuditLogDocument = {
+    adminId: admin.uid,
+    adminEmail: admin.email,
+    action: event.action,
+    target: event.target,
+    reason: event.reason,
+    details: event.details ?? {},
+    createdAt: new Date()
+  }
+  await auditLog.insertOne(entry, { session })
+}
+
+/**
+ * Lists audit entries, newest first
+ * @param {string} cursor - The id of the last entry of the previous page
+ */
+export async function getAuditEvents(options: {
+  cursor?: string;
+  limit: number;
+  adminId?: string;
+  targetId?: string;
+  action?: string;
+}) {
+  const auditLog = await getAuditLog()
+
+  const filter: Record<string, any> = {}
+  if (options.cursor) filter._id = { $lt: new ObjectId(options.cursor) }
+  if (options.adminId) filter.adminId = options.adminId
+  if (options.targetId) filter["target.id"] = options.targetId
+  if (options.action) filter.action = options.action
+
+  const entries = await auditLog
+    .find(filter)
+    .sort({ _id: -1 })
+    .limit(options.limit + 1)
+    .toArray()
+
+  const hasMore = entries.length > options.limit
+  const data = entries.slice(0, options.limit)
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? data[data.length - 1]._id.toString() : null
+  }
+}
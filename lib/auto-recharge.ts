@@ -0,0 +1,513 @@
+import crypto from "crypto"
+import axios from "axios"
+import { redis } from "./redis"
+import { connectToDatabase, getWallet, onWalletBalanceChange, WalletDocument } from "./mongodb"
+import { invalidateCachedWallet } from "./wallet-cache"
+import { creditPayment, isPaymentCredited, onPaymentDenied, WALLET_CURRENCY } from "./payments"
+import { getPaymentProvider, PaymentDeclinedError } from "./payment-providers"
+
+// Opt-in top-ups from a saved payment method. A settled charge that leaves
+// the balance under the threshold schedules an attempt; the attempt runs
+// right away in the background, and the cron route picks up anything that
+// was missed or is due for a retry. Declines back off and disable the
+// setting after MAX_FAILURES in a row. A charge the provider settles later
+// blocks further attempts until its webhook credits it.
+export const MIN_RECHARGE_AMOUNT = 1
+export const MAX_RECHARGE_AMOUNT = 10000
+const MAX_FAILURES = 3
+// Delay before the retry that follows the nth consecutive failure
+const RETRY_DELAYS = [15 * 60, 60 * 60, 6 * 60 * 60] // seconds
+const LOCK_TTL = 120 // seconds
+// A pending charge not credited by then counts as a failure
+const PENDING_TIMEOUT = 10 * 24 * 60 * 60 // seconds
+const DUE_BATCH = 100
+
+export interface SavedPaymentMethod {
+  provider: string;
+  // PayPal vault token or Stripe payment method id
+  id: string;
+}
+
+// Stored on the wallet document as `autoRecharge`
+export interface AutoRechargeSettings {
+  enabled: boolean;
+  threshold: number;
+  amount: number;
+  // Most that auto-recharge may charge per UTC calendar month
+  monthlyLimit: number;
+  paymentMethod: SavedPaymentMethod;
+  // Charged so far in `month` (YYYY-MM)
+  month?: string;
+  chargedThisMonth?: number;
+  // The month the ceiling notification went out, so it is sent once
+  limitNotifiedMonth?: string;
+  failures: number;
+  // Set while an attempt is due; unset when nothing needs to happen
+  nextAttemptAt?: Date | null;
+  // Reused as the provider idempotency key until the charge is resolved,
+  // so a crash between charging and crediting cannot charge twice
+  pendingAttemptId?: string | null;
+  // A charge the provider accepted but has not settled; set until its
+  // payment is credited
+  pendingCharge?: { provider: string; externalId: string; since: Date } | null;
+  lastChargedAt?: Date;
+  lastError?: string | null;
+  disabledReason?: string | null;
+}
+
+export type AutoRechargeEventType = "succeeded" | "pending" | "failed" | "disabled" | "monthly_limit_reached"
+
+export interface AutoRechargeEvent {
+  type: AutoRechargeEventType;
+  userId: string;
+  amount: number;
+  provider: string;
+  balance?: number;
+  failures?: number;
+  error?: string;
+  nextAttemptAt?: Date | null;
+}
+
+export type AutoRechargeResult = "charged" | "pending" | "failed" | "disabled" | "skipped"
+
+type AutoRechargeHandler = (event: AutoRechargeEvent) => void | Promise<void>
+
+const autoRechargeHandlers: AutoRechargeHandler[] = []
+
+const AUTO_RECHARGE_WEBHOOK_URL = process.env.AUTO_RECHARGE_WEBHOOK_URL
+
+/**
+ * Registers a callback run on every auto-recharge outcome
+ */
+export function onAutoRechargeEvent(handler: AutoRechargeHandler) {
+  autoRechargeHandlers.push(handler)
+}
+
+onAutoRechargeEvent(event => {
+  if (event.type === "succeeded" || event.type === "pending") return
+  console.warn("Auto-recharge event:", JSON.stringify(event))
+})
+
+if (AUTO_RECHARGE_WEBHOOK_URL) {
+  onAutoRechargeEvent(async event => {
+    await axios.post(AUTO_RECHARGE_WEBHOOK_URL, { type: `wallet.auto_recharge.${event.type}`, data: event })
+  })
+}
+
+function notify(event: AutoRechargeEvent) {
+  for (const handler of autoRechargeHandlers) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch(error => console.error("Auto-recharge handler failed:", error))
+  }
+}
+
+const currentMonth = (now = new Date()) => now.toISOString().slice(0, 7)
+
+async function getWallets() {
+  const db = await connectToDatabase()
+  return db.collection<WalletDocument>("wallets")
+}
+
+async function clearPendingCharge(userId: string, provider: string, externalId: string) {
+  const wallets = await getWallets()
+  const result = await wallets.updateOne(
+    {
+      userId,
+      "autoRecharge.pendingCharge.provider": provider,
+      "autoRecharge.pendingCharge.externalId": externalId
+    },
+    { $set: { "autoRecharge.pendingCharge": null, "autoRecharge.pendingAttemptId": null } }
+  )
+  return result.modifiedCount > 0
+}
+
+// The webhook crediting a pending charge lifts the block on new attempts
+onWalletBalanceChange(async change => {
+  const { provider, externalId } = change.details
+  if (change.type !== "topup" || !provider || !externalId) return
+  await clearPendingCharge(change.userId, provider, externalId)
+})
+
+// A pending charge the provider denies is a declined charge
+onPaymentDenied(async (provider, externalId) => {
+  const wallets = await getWallets()
+  const wallet = await wallets.findOne({
+    "autoRecharge.pendingCharge.provider": provider,
+    "autoRecharge.pendingCharge.externalId": externalId
+  })
+  if (!wallet?.autoRecharge) return false
+
+  // Taken so a run cannot reschedule between the two writes; the webhook is
+  // delivered again if a run holds it
+  const lockKey = `lock:auto_recharge:${wallet.userId}`
+  const locked = await redis.set(lockKey, String(Date.now()), "EX", LOCK_TTL, "NX")
+  if (!locked) throw new Error(`Auto-recharge for ${wallet.userId} is running`)
+
+  try {
+    if (!(await clearPendingCharge(wallet.userId, provider, externalId))) return false
+    await recordFailure(wallet.userId, wallet.autoRecharge, new PaymentDeclinedError(`Charge ${externalId} was denied`))
+    return true
+  } finally {
+    await redis.del(lockKey)
+  }
+})
+
+/**
+ * What auto-recharge has charged in the current month
+ */
+export function getChargedThisMonth(settings: AutoRechargeSettings): number {
+  return settings.month === currentMonth() ? settings.chargedThisMonth ?? 0 : 0
+}
+
+/**
+ * The settings as returned to the wallet owner
+ */
+export function serializeAutoRecharge(settings?: AutoRechargeSettings | null) {
+  if (!settings) return { enabled: false }
+  return {
+    enabled: settings.enabled,
+    threshold: settings.threshold,
+    amount: settings.amount,
+    monthlyLimit: settings.monthlyLimit,
+    paymentMethod: settings.paymentMethod,
+    chargedThisMonth: getChargedThisMonth(settings),
+    failures: settings.failures,
+    nextAttemptAt: settings.nextAttemptAt ?? null,
+    pendingSince: settings.pendingCharge?.since ?? null,
+    lastChargedAt: settings.lastChargedAt ?? null,
+    lastError: settings.lastError ?? null,
+    disabledReason: settings.disabledReason ?? null
+  }
+}
+
+/**
+ * Validates a settings update and checks that the payment method belongs to
+ * the user. Missing fields keep their current values.
+ * @returns {Promise<{ settings: AutoRechargeSettings } | { error: string }>}
+ */
+export async function parseAutoRechargeSettings(
+  userId: string,
+  body: any,
+  current?: AutoRechargeSettings | null
+): Promise<{ settings: AutoRechargeSettings } | { error: string }> {
+  if (!body || typeof body !== "object") return { error: "Invalid settings" }
+
+  const enabled = body.enabled ?? current?.enabled ?? false
+  const threshold = body.threshold ?? current?.threshold
+  const amount = body.amount ?? current?.amount
+  const monthlyLimit = body.monthlyLimit ?? current?.monthlyLimit
+  const paymentMethod = body.paymentMethod ?? current?.paymentMethod
+
+  if (typeof enabled !== "boolean") return { error: "enabled must be a boolean" }
+  if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold < 0) {
+    return { error: "threshold must be a non-negative number" }
+  }
+  if (typeof amount !== "number" || amount < MIN_RECHARGE_AMOUNT || amount > MAX_RECHARGE_AMOUNT) {
+    return { error: `amount must be between ${MIN_RECHARGE_AMOUNT} and ${MAX_RECHARGE_AMOUNT}` }
+  }
+  if (typeof monthlyLimit !== "number" || !Number.isFinite(monthlyLimit) || monthlyLimit < amount) {
+    return { error: "monthlyLimit must be a number no lower than amount" }
+  }
+  if (!paymentMethod || typeof paymentMethod.provider !== "string" || typeof paymentMethod.id !== "string") {
+    return { error: "paymentMethod must be an object with provider and id" }
+  }
+
+  const methodChanged =
+    paymentMethod.provider !== current?.paymentMethod?.provider || paymentMethod.id !== current?.paymentMethod?.id
+  if (methodChanged) {
+    const provider = getPaymentProvider(paymentMethod.provider)
+    if (!provider?.chargeSavedMethod || !provider.verifyPaymentMethod) {
+      return { error: `Payment provider ${paymentMethod.provider} does not support saved payment methods` }
+    }
+    if (!(await provider.verifyPaymentMethod(userId, paymentMethod.id))) {
+      return { error: "Payment method not found" }
+    }
+  }
+
+  // Enabling again, or switching to another payment method, starts over
+  const reset = methodChanged || (enabled && !current?.enabled)
+
+  return {
+    settings: {
+      ...current,
+      enabled,
+      threshold: Math.round(threshold * 100) / 100,
+      amount: Math.round(amount * 100) / 100,
+      monthlyLimit: Math.round(monthlyLimit * 100) / 100,
+      paymentMethod: { provider: paymentMethod.provider, id: paymentMethod.id },
+      failures: reset ? 0 : current?.failures ?? 0,
+      // Only a pending retry keeps its schedule; anything else is
+      // re-evaluated against the new settings
+      nextAttemptAt: enabled && !reset && current?.failures ? current.nextAttemptAt ?? null : null,
+      pendingAttemptId: reset ? null : current?.pendingAttemptId ?? null,
+      lastError: reset ? null : current?.lastError ?? null,
+      disabledReason: enabled ? null : current?.disabledReason ?? null
+    }
+  }
+}
+
+export async function saveAutoRechargeSettings(userId: string, settings: AutoRechargeSettings) {
+  const wallets = await getWallets()
+  const result = await wallets.findOneAndUpdate(
+    { userId },
+    { $set: { autoRecharge: settings } },
+    { returnDocument: "after" }
+  )
+  await invalidateCachedWallet(userId)
+  return result.value
+}
+
+/**
+ * Schedules an attempt if the balance has fallen under the wallet's
+ * threshold and none is scheduled yet, then starts it in the background
+ * @param wallet - The wallet as it is after the debit
+ */
+export async function maybeTriggerAutoRecharge(wallet: { userId: string; balance: number; autoRecharge?: AutoRechargeSettings }) {
+  const settings = wallet.autoRecharge
+  if (!settings?.enabled || settings.nextAttemptAt || settings.pendingCharge || wallet.balance >= settings.threshold) {
+    return
+  }
+
+  const wallets = await getWallets()
+  const scheduled = await wallets.updateOne(
+    {
+      userId: wallet.userId,
+      "autoRecharge.enabled": true,
+      "autoRecharge.nextAttemptAt": null,
+      "autoRecharge.pendingCharge": null
+    },
+    { $set: { "autoRecharge.nextAttemptAt": new Date() } }
+  )
+  if (!scheduled.modifiedCount) return
+
+  runAutoRecharge(wallet.userId).catch(error => {
+    console.error("Auto-recharge failed, leaving it to the cron:", error)
+  })
+}
+
+/**
+ * Charges the saved payment method and credits the wallet, if the balance
+ * is still under the threshold and the monthly ceiling allows it
+ */
+export async function runAutoRecharge(userId: string): Promise<AutoRechargeResult> {
+  const lockKey = `lock:auto_recharge:${userId}`
+  const locked = await redis.set(lockKey, String(Date.now()), "EX", LOCK_TTL, "NX")
+  if (!locked) return "skipped"
+
+  try {
+    const wallets = await getWallets()
+    const wallet = await getWallet(userId)
+    const settings = wallet?.autoRecharge
+    if (!wallet || !settings) return "skipped"
+
+    const unschedule = () =>
+      wallets.updateOne({ userId }, { $set: { "autoRecharge.nextAttemptAt": null } })
+
+    // Nothing else is charged while a charge is settling. Its webhook clears
+    // the block; this catches a credit whose handler did not run.
+    if (settings.pendingCharge) {
+      const { provider, externalId, since } = settings.pendingCharge
+      if (await isPaymentCredited(provider, externalId)) {
+        await clearPendingCharge(userId, provider, externalId)
+      } else if (Date.now() - since.getTime() > PENDING_TIMEOUT * 1000) {
+        await clearPendingCharge(userId, provider, externalId)
+        return recordFailure(userId, settings, new Error(`Charge ${externalId} was not credited in time`))
+      }
+      // A credited charge may have lifted the balance; the next run decides
+      await unschedule()
+      return "skipped"
+    }
+
+    if (!settings.enabled || wallet.balance >= settings.threshold) {
+      await unschedule()
+      return "skipped"
+    }
+
+    const month = currentMonth()
+    const chargedThisMonth = getChargedThisMonth(settings)
+    if (chargedThisMonth + settings.amount > settings.monthlyLimit) {
+      // Nothing more can be charged until the month turns over
+      const now = new Date()
+      const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+      await wallets.updateOne({ userId }, { $set: { "autoRecharge.nextAttemptAt": nextMonth } })
+      if (settings.limitNotifiedMonth !== month) {
+        await wallets.updateOne({ userId }, { $set: { "autoRecharge.limitNotifiedMonth": month } })
+        notify({
+          type: "monthly_limit_reached",
+          userId,
+          amount: settings.amount,
+          provider: settings.paymentMethod.provider,
+          balance: wallet.balance
+        })
+      }
+      return "skipped"
+    }
+
+    const provider = getPaymentProvider(settings.paymentMethod.provider)
+    if (!provider?.chargeSavedMethod) {
+      return disable(userId, settings, `Payment provider ${settings.paymentMethod.provider} is not available`)
+    }
+
+    const attemptId = settings.pendingAttemptId || crypto.randomUUID()
+    if (!settings.pendingAttemptId) {
+      await wallets.updateOne({ userId }, { $set: { "autoRecharge.pendingAttemptId": attemptId } })
+    }
+
+    let payment
+    try {
+      payment = await provider.chargeSavedMethod(
+        userId,
+        settings.paymentMethod.id,
+        settings.amount,
+        WALLET_CURRENCY,
+        `auto_recharge_${attemptId}`
+      )
+    } catch (error) {
+      return recordFailure(userId, settings, error)
+    }
+
+    // A failure from here on leaves the attempt id in place, so the retry
+    // gets the same charge back from the provider and the credit is deduplicated
+    let balance: number | undefined
+    if (payment.type === "completed") {
+      const { type, ...completed } = payment
+      const { wallet: credited } = await creditPayment({ provider: provider.name, ...completed })
+      balance = credited?.balance
+    }
+    // Pending charges are credited by the provider's webhook once they
+    // settle, and keep their attempt id until then
+    const pending = payment.type === "pending"
+
+    await wallets.updateOne(
+      { userId },
+      {
+        $set: {
+          "autoRecharge.month": month,
+          "autoRecharge.chargedThisMonth": chargedThisMonth + settings.amount,
+          "autoRecharge.failures": 0,
+          "autoRecharge.nextAttemptAt": null,
+          "autoRecharge.pendingAttemptId": pending ? attemptId : null,
+          "autoRecharge.pendingCharge": pending
+            ? { provider: provider.name, externalId: payment.externalId, since: new Date() }
+            : null,
+          "autoRecharge.lastChargedAt": new Date(),
+          "autoRecharge.lastError": null
+        }
+      }
+    )
+
+    notify({
+      type: pending ? "pending" : "succeeded",
+      userId,
+      amount: settings.amount,
+      provider: provider.name,
+      balance
+    })
+    return pending ? "pending" : "charged"
+  } finally {
+    await redis.del(lockKey)
+  }
+}
+
+async function recordFailure(userId: string, settings: AutoRechargeSettings, error: unknown): Promise<AutoRechargeResult> {
+  const message = error instanceof Error ? error.message : String(error)
+  const declined = error instanceof PaymentDeclinedError
+  const failures = settings.failures + 1
+  console.error(`Auto-recharge charge for ${userId} failed (${failures}/${MAX_FAILURES}):`, error)
+
+  if (failures >= MAX_FAILURES) {
+    return disable(userId, { ...settings, failures }, `Disabled after ${failures} failed charges: ${message}`)
+  }
+
+  const nextAttemptAt = new Date(Date.now() + RETRY_DELAYS[failures - 1] * 1000)
+  const wallets = await getWallets()
+  await wallets.updateOne(
+    { userId },
+    {
+      $set: {
+        "autoRecharge.failures": failures,
+        "autoRecharge.nextAttemptAt": nextAttemptAt,
+        // A declined charge is final and the retry is a new charge. After a
+        // timeout or an outage the charge may have gone through, so the retry
+        // reuses the attempt id and the provider returns that charge instead.
+        ...(declined ? { "autoRecharge.pendingAttemptId": null } : {}),
+        "autoRecharge.lastError": message
+      }
+    }
+  )
+
+  notify({
+    type: "failed",
+    userId,
+    amount: settings.amount,
+    provider: settings.paymentMethod.provider,
+    failures,
+    error: message,
+    nextAttemptAt
+  })
+  return "failed"
+}
+
+async function disable(userId: string, settings: AutoRechargeSettings, reason: string): Promise<AutoRechargeResult> {
+  const wallets = await getWallets()
+  await wallets.updateOne(
+    { userId },
+    {
+      $set: {
+        "autoRecharge.enabled": false,
+        "autoRecharge.failures": settings.failures,
+        "autoRecharge.nextAttemptAt": null,
+        "autoRecharge.pendingAttemptId": null,
+        "autoRecharge.disabledReason": reason
+      }
+    }
+  )
+  await invalidateCachedWallet(userId)
+
+  notify({
+    type: "disabled",
+    userId,
+    amount: settings.amount,
+    provider: settings.paymentMethod.provider,
+    failures: settings.failures,
+    error: reason
+  })
+  return "disabled"
+}
+
+/**
+ * Runs every attempt that is due, including wallets that fell under their
+ * threshold without a scheduled attempt (charges settled by the outbox, or
+ * waiting on a pending charge)
+ */
+export async function processDueAutoRecharges() {
+  const wallets = await getWallets()
+  const now = new Date()
+  const due = await wallets
+    .find({
+      "autoRecharge.enabled": true,
+      $or: [
+        { "autoRecharge.nextAttemptAt": { $lte: now } },
+        {
+          "autoRecharge.nextAttemptAt": null,
+          $expr: { $lt: ["$balance", "$autoRecharge.threshold"] }
+        }
+      ]
+    })
+    .project({ userId: 1 })
+    .limit(DUE_BATCH)
+    .toArray()
+
+  const results: Record<AutoRechargeResult, number> = { charged: 0, pending: 0, failed: 0, disabled: 0, skipped: 0 }
+  let errors = 0
+  for (const { userId } of due) {
+    try {
+      results[await runAutoRecharge(userId)]++
+    } catch (error) {
+      console.error(`Auto-recharge for ${userId} failed:`, error)
+      errors++
+    }
+  }
+  return { checked: due.length, ...results, errors }
+}
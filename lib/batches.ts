@@ -0,0 +1,665 @@
+import axios from "axios"
+import crypto from "crypto"
+import { ObjectId } from "mongodb"
+import { redis } from "./redis"
+import { connectToDatabase, getWallet, releaseWalletHold, WALLET_HOLD_TTL } from "./mongodb"
+import { applyBatchPricing, calculateCost, capCompletionTokens, CostBreakdown } from "./pricing"
+import { estimateEmbeddingTokens, estimatePromptTokens } from "./tokens"
+import { ModelKind, resolveModel, supportsVision } from "./models"
+import { isRetryable, withFailover } from "./failover"
+import { settleBatchRequestCharge } from "./billing"
+import { countImageParts, invalidRequest, InvalidRequestError, OpenAIError, validateChatRequest } from "./chat-schema"
+import { validateEmbeddingsRequest } from "./embeddings-schema"
+import { saveFile } from "./files"
+import { recordUsage } from "./usage"
+
+// The Batch API: a JSONL file of requests is validated and priced when the
+// batch is created, and the worst case is held on the wallet for the whole
+// completion window. The worker runs the requests later under a throughput
+// budget of its own, charges each one at the batch discount against that
+// hold, and writes the results to output and error files once all are done.
+
+export const BATCH_ENDPOINTS: Record<string, ModelKind> = {
+  "/v1/chat/completions": "chat",
+  "/v1/embeddings": "embedding",
+}
+
+export const COMPLETION_WINDOWS: Record<string, number> = { "24h": 24 * 60 * 60 }
+
+export const MAX_BATCH_REQUESTS = 50000
+
+// Finalizing a batch at the end of its window still needs the hold
+const HOLD_GRACE = 60 * 60 // seconds
+
+export type BatchStatus = "in_progress" | "finalizing" | "completed" | "failed" | "expired" | "cancelling" | "cancelled"
+
+const ACTIVE_STATUSES: BatchStatus[] = ["in_progress", "cancelling", "finalizing"]
+
+export interface BatchDocument {
+  _id?: ObjectId;
+  userId: string;
+  apiKeyId: string;
+  endpoint: string;
+  inputFileId: string;
+  completionWindow: string;
+  status: BatchStatus;
+  // Covers every request at its maximum cost; charges are taken from it
+  holdId: string;
+  reserved: number;
+  // Charged so far
+  cost: number;
+  requestCounts: { total: number; completed: number; failed: number };
+  outputFileId?: string;
+  errorFileId?: string;
+  errors?: { code: string; message: string }[];
+  metadata?: Record<string, string> | null;
+  createdAt: Date;
+  expiresAt: Date;
+  inProgressAt: Date;
+  finalizingAt?: Date;
+  completedAt?: Date;
+  failedAt?: Date;
+  expiredAt?: Date;
+  cancellingAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface BatchRequestDocument {
+  _id?: ObjectId;
+  batchId: ObjectId;
+  index: number;
+  customId: string;
+  body: Record<string, any>;
+  status: "pending" | "completed" | "failed";
+  attempts: number;
+  // A request that failed transiently is not run again before this
+  retryAfter?: Date;
+  requestId?: string;
+  response?: { statusCode: number; body: any };
+  error?: { code: string; message: string };
+  breakdown?: CostBreakdown;
+  // Completed requests are charged separately, so a failed charge is retried
+  charged?: boolean;
+  completedAt?: Date;
+}
+
+type ParsedRequest = Pick<BatchRequestDocument, "index" | "customId" | "body">
+
+const BATCH_ID_PREFIX = "batch_"
+
+const batchId = (batch: BatchDocument) => `${BATCH_ID_PREFIX}${batch._id!.toString()}`
+const batchRequestId = (request: BatchRequestDocument) => `batch_req_${request._id!.toString()}`
+const seconds = (date?: Date) => (date ? Math.floor(date.getTime() / 1000) : null)
+
+function parseBatchId(id: string): ObjectId | null {
+  const hex = id.startsWith(BATCH_ID_PREFIX) ? id.slice(BATCH_ID_PREFIX.length) : ""
+  return ObjectId.isValid(hex) && hex.length === 24 ? new ObjectId(hex) : null
+}
+
+async function getCollections() {
+  const db = await connectToDatabase()
+  return {
+    batches: db.collection<BatchDocument>("batches"),
+    requests: db.collection<BatchRequestDocument>("batchRequests")
+  }
+}
+
+/**
+ * Shapes a batch as an OpenAI batch object, with what it has cost so far
+ */
+export function serializeBatch(batch: BatchDocument) {
+  return {
+    id: batchId(batch),
+    object: "batch",
+    endpoint: batch.endpoint,
+    errors: batch.errors?.length ? { object: "list", data: batch.errors } : null,
+    input_file_id: batch.inputFileId,
+    completion_window: batch.completionWindow,
+    status: batch.status,
+    output_file_id: batch.outputFileId ?? null,
+    error_file_id: batch.errorFileId ?? null,
+    created_at: seconds(batch.createdAt),
+    in_progress_at: seconds(batch.inProgressAt),
+    expires_at: seconds(batch.expiresAt),
+    finalizing_at: seconds(batch.finalizingAt),
+    completed_at: seconds(batch.completedAt),
+    failed_at: seconds(batch.failedAt),
+    expired_at: seconds(batch.expiredAt),
+    cancelling_at: seconds(batch.cancellingAt),
+    cancelled_at: seconds(batch.cancelledAt),
+    request_counts: batch.requestCounts,
+    metadata: batch.metadata ?? null,
+    cost: batch.cost,
+    reserved: batch.reserved
+  }
+}
+
+/**
+ * Validates a batch creation body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateBatchRequest(
+  body: any
+): { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+  for (const name of ["input_file_id", "endpoint", "completion_window"]) {
+    if (typeof body[name] !== "string") {
+      return { error: invalidRequest(`Missing required parameter: '${name}'.`, name, "missing_required_parameter") }
+    }
+  }
+  for (const name of Object.keys(body)) {
+    if (!["input_file_id", "endpoint", "completion_window", "metadata"].includes(name)) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+  }
+
+  if (!BATCH_ENDPOINTS[body.endpoint]) {
+    return {
+      error: invalidRequest(
+        `Invalid 'endpoint': must be one of: ${Object.keys(BATCH_ENDPOINTS).join(", ")}.`,
+        "endpoint",
+        "invalid_value"
+      )
+    }
+  }
+  if (!COMPLETION_WINDOWS[body.completion_window]) {
+    return {
+      error: invalidRequest(
+        `Invalid 'completion_window': must be one of: ${Object.keys(COMPLETION_WINDOWS).join(", ")}.`,
+        "completion_window",
+        "invalid_value"
+      )
+    }
+  }
+
+  const { metadata } = body
+  if (metadata !== undefined && metadata !== null) {
+    const entries = typeof metadata === "object" && !Array.isArray(metadata) ? Object.entries(metadata) : null
+    if (!entries || entries.length > 16 || entries.some(([, value]) => typeof value !== "string")) {
+      return { error: invalidRequest("Invalid 'metadata': must be an object of up to 16 strings.", "metadata", "invalid_value") }
+    }
+  }
+  return { params: body }
+}
+
+/**
+ * Parses and validates the lines of a batch input file
+ * @returns {{ requests: ParsedRequest[] } | { error: OpenAIError }}
+ */
+export function parseBatchInput(
+  content: Buffer,
+  endpoint: string
+): { requests: ParsedRequest[]; error?: undefined } | { error: OpenAIError; requests?: undefined } {
+  const lineError = (line: number, problem: string) => ({
+    error: invalidRequest(`Line ${line} of the input file: ${problem}`, "input_file_id", "invalid_file")
+  })
+
+  const lines = content.toString("utf8").split(/\r?\n/)
+  const requests: ParsedRequest[] = []
+  const customIds = new Set<string>()
+
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue
+    if (requests.length === MAX_BATCH_REQUESTS) {
+      return lineError(i + 1, `batches are limited to ${MAX_BATCH_REQUESTS} requests`)
+    }
+
+    let entry: any
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      return lineError(i + 1, "not valid JSON")
+    }
+
+    if (typeof entry?.custom_id !== "string" || !entry.custom_id) return lineError(i + 1, "custom_id is required")
+    if (customIds.has(entry.custom_id)) return lineError(i + 1, `duplicate custom_id '${entry.custom_id}'`)
+    customIds.add(entry.custom_id)
+
+    if (entry.method !== "POST") return lineError(i + 1, "method must be 'POST'")
+    if (entry.url !== endpoint) return lineError(i + 1, `url must be the batch endpoint, '${endpoint}'`)
+    if (typeof entry.body?.model !== "string") return lineError(i + 1, "body.model is required")
+    if (entry.body.stream) return lineError(i + 1, "streaming is not supported in batches")
+
+    const validation = BATCH_ENDPOINTS[endpoint] === "embedding"
+      ? validateEmbeddingsRequest(entry.body)
+      : validateChatRequest(entry.body)
+    if (validation.error) return lineError(i + 1, validation.error.message)
+
+    if (countImageParts(validation.params.messages || []) && !supportsVision(entry.body.model)) {
+      return lineError(i + 1, `the model '${entry.body.model}' does not support image inputs`)
+    }
+    const body = BATCH_ENDPOINTS[endpoint] === "embedding" ? validation.params : capCompletionTokens(validation.params)
+    requests.push({ index: requests.length, customId: entry.custom_id, body })
+  }
+
+  if (!requests.length) return { error: invalidRequest("The input file contains no requests", "input_file_id", "invalid_file") }
+  return { requests }
+}
+
+/**
+ * The most a batch can cost at the batch discount. Prices are linear in
+ * tokens, so each model is priced once on the sum of its requests.
+ */
+export async function estimateBatchCost(endpoint: string, requests: ParsedRequest[]): Promise<number> {
+  const tokensByModel = new Map<string, { prompt_tokens: number; completion_tokens: number }>()
+
+  for (const { body } of requests) {
+    const tokens = tokensByModel.get(body.model) ?? { prompt_tokens: 0, completion_tokens: 0 }
+    if (BATCH_ENDPOINTS[endpoint] === "embedding") {
+      tokens.prompt_tokens += estimateEmbeddingTokens(body.input)
+    } else {
+      tokens.prompt_tokens += estimatePromptTokens(body)
+      tokens.completion_tokens += (body.max_completion_tokens ?? body.max_tokens) * (body.n ?? 1)
+    }
+    tokensByModel.set(body.model, tokens)
+  }
+
+  let total = 0
+  for (const [model, usage] of tokensByModel) {
+    total += applyBatchPricing(await calculateCost(model, usage)).total
+  }
+  return total
+}
+
+/**
+ * Seconds a batch's wallet hold must last
+ */
+export function batchHoldTtl(completionWindow: string) {
+  return Math.max(COMPLETION_WINDOWS[completionWindow] + HOLD_GRACE, WALLET_HOLD_TTL)
+}
+
+/**
+ * Stores a validated batch and its requests, ready for the worker
+ */
+export async function createBatch(
+  batch: Pick<BatchDocument, "userId" | "apiKeyId" | "endpoint" | "inputFileId" | "completionWindow" | "holdId" | "reserved" | "metadata">,
+  parsed: ParsedRequest[]
+) {
+  const { batches, requests } = await getCollections()
+  const now = new Date()
+  const document: BatchDocument = {
+    ...batch,
+    status: "in_progress",
+    cost: 0,
+    requestCounts: { total: parsed.length, completed: 0, failed: 0 },
+    createdAt: now,
+    inProgressAt: now,
+    expiresAt: new Date(now.getTime() + COMPLETION_WINDOWS[batch.completionWindow] * 1000)
+  }
+  const inserted = await batches.insertOne(document)
+
+  // Inserted in chunks to stay under Mongo's message size limit
+  const INSERT_CHUNK = 1000
+  for (let i = 0; i < parsed.length; i += INSERT_CHUNK) {
+    await requests.insertMany(
+      parsed.slice(i, i + INSERT_CHUNK).map(request => ({
+        ...request,
+        batchId: inserted.insertedId,
+        status: "pending" as const,
+        attempts: 0
+      }))
+    )
+  }
+  return { ...document, _id: inserted.insertedId }
+}
+
+/**
+ * Looks up one of an account's batches
+ */
+export async function getBatch(userId: string, id: string) {
+  const objectId = parseBatchId(id)
+  if (!objectId) return null
+
+  const { batches } = await getCollections()
+  return batches.findOne({ _id: objectId, userId })
+}
+
+/**
+ * Lists an account's batches, newest first, paginated by batch id
+ */
+export async function listBatches(userId: string, options: { after?: string; limit: number }) {
+  const { batches } = await getCollections()
+  const filter: Record<string, any> = { userId }
+  const after = options.after ? parseBatchId(options.after) : null
+  if (after) filter._id = { $lt: after }
+
+  const found = await batches.find(filter).sort({ _id: -1 }).limit(options.limit + 1).toArray()
+  return { batches: found.slice(0, options.limit), hasMore: found.length > options.limit }
+}
+
+/**
+ * Asks the worker to stop a batch; requests already run stay charged
+ * @returns {Promise<BatchDocument | null>} null if the batch can no longer be cancelled
+ */
+export async function cancelBatch(batch: BatchDocument) {
+  const { batches } = await getCollections()
+  const result = await batches.findOneAndUpdate(
+    { _id: batch._id, status: "in_progress" },
+    { $set: { status: "cancelling", cancellingAt: new Date() } },
+    { returnDocument: "after" }
+  )
+  return result.value
+}
+
+// Worker
+
+const LOCK_KEY = "lock:batches"
+const LOCK_TTL = 120 // seconds, longer than a run
+// Serverless functions are cut off after a minute
+const RUN_TIME_LIMIT = Number(process.env.BATCH_RUN_TIME_MS) || 50 * 1000
+// Batch traffic shares the upstream deployments with live traffic, so it
+// has a budget of its own across all batches instead of the users' limits
+const REQUESTS_PER_MINUTE = Number(process.env.BATCH_REQUESTS_PER_MINUTE) || 600
+const CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4
+// Transient upstream failures are retried on later runs up to this many times
+const MAX_REQUEST_ATTEMPTS = 3
+const RETRY_DELAY = 60 // seconds, doubled with each attempt
+
+export interface BatchRunReport {
+  startedAt: Date;
+  finishedAt: Date;
+  requestsRun: number;
+  batchesFinalized: number;
+  // Whether the run stopped at the throughput budget
+  throttled: boolean;
+}
+
+// Takes up to `wanted` requests from this minute's budget
+async function takeThroughput(wanted: number): Promise<number> {
+  const key = `batch_throughput:${Math.floor(Date.now() / 60000)}`
+  const results = await redis.multi().incrby(key, wanted).expire(key, 120).exec()
+  const used = Number(results?.[0]?.[1] || 0)
+  return Math.max(0, Math.min(wanted, REQUESTS_PER_MINUTE - (used - wanted)))
+}
+
+// Charges a completed request; a failure is retried by the next run
+async function chargeRequest(batch: BatchDocument, request: BatchRequestDocument) {
+  const { batches, requests } = await getCollections()
+  const cost = request.breakdown!.total
+  let alreadyCharged = false
+  try {
+    await settleBatchRequestCharge(
+      batch.apiKeyId,
+      batch.userId,
+      batch.holdId,
+      request.breakdown!,
+      request.requestId!,
+      batchId(batch),
+      // Marked charged in the transaction of the charge, so a crash or an
+      // overlapping run can never charge the request twice
+      async session => {
+        const claimed = await requests.updateOne(
+          { _id: request._id, charged: false },
+          { $set: { charged: true } },
+          { session }
+        )
+        if (!claimed.modifiedCount) {
+          alreadyCharged = true
+          throw new Error("Batch request was already charged")
+        }
+        await batches.updateOne({ _id: batch._id }, { $inc: { cost } }, { session })
+      }
+    )
+  } catch (error) {
+    if (alreadyCharged) return true
+    console.error("Failed to charge batch request:", error)
+    return false
+  }
+  return true
+}
+
+function upstreamError(error: any): { statusCode: number; error: { code: string; message: string } } {
+  if (axios.isAxiosError(error) && error.response) {
+    const upstream = (error.response.data as any)?.error
+    return {
+      statusCode: error.response.status,
+      error: {
+        code: upstream?.code || upstream?.type || "upstream_error",
+        message: upstream?.message || error.message
+      }
+    }
+  }
+  if (error instanceof InvalidRequestError) {
+    return { statusCode: error.status, error: { code: error.error.code || error.error.type, message: error.message } }
+  }
+  return { statusCode: error.status || 500, error: { code: "server_error", message: error.message || String(error) } }
+}
+
+async function runRequest(batch: BatchDocument, request: BatchRequestDocument) {
+  const { batches, requests } = await getCollections()
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  const model: string = request.body.model
+  const embedding = BATCH_ENDPOINTS[batch.endpoint] === "embedding"
+  let statusCode = 200
+  let breakdown: CostBreakdown | null = null
+  let failure: string | undefined
+
+  try {
+    const targets = resolveModel(model).filter(target => !embedding || target.provider.embed)
+    if (!targets.length) {
+      throw Object.assign(new Error(`The model '${model}' does not exist`), { status: 400 })
+    }
+
+    const signal = new AbortController().signal
+    const response = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+      embedding ? provider.embed!(upstreamModel, request.body, signal) : provider.complete(upstreamModel, request.body, signal)
+    )
+    breakdown = applyBatchPricing(await calculateCost(model, response.usage))
+
+    const completed = {
+      status: "completed" as const,
+      requestId,
+      response: { statusCode, body: response },
+      breakdown,
+      charged: false,
+      completedAt: new Date()
+    }
+    await requests.updateOne({ _id: request._id }, { $set: completed })
+    await batches.updateOne({ _id: batch._id }, { $inc: { "requestCounts.completed": 1 } })
+    await chargeRequest(batch, { ...request, ...completed })
+  } catch (error) {
+    failure = error.message || String(error)
+    const { statusCode: status, error: requestError } = upstreamError(error)
+    statusCode = status
+
+    if (isRetryable(error) && request.attempts + 1 < MAX_REQUEST_ATTEMPTS) {
+      const retryAfter = new Date(Date.now() + RETRY_DELAY * 2 ** request.attempts * 1000)
+      await requests.updateOne({ _id: request._id }, { $set: { retryAfter }, $inc: { attempts: 1 } })
+      return
+    }
+
+    await requests.updateOne(
+      { _id: request._id },
+      {
+        $set: {
+          status: "failed",
+          requestId,
+          response: { statusCode, body: { error: requestError } },
+          error: requestError,
+          completedAt: new Date()
+        },
+        $inc: { attempts: 1 }
+      }
+    )
+    await batches.updateOne({ _id: batch._id }, { $inc: { "requestCounts.failed": 1 } })
+  } finally {
+    await recordUsage({
+      userId: batch.userId,
+      apiKeyId: batch.apiKeyId,
+      requestId,
+      endpoint: `batch.${batch.endpoint.slice("/v1/".length).replace(/\//g, ".")}`,
+      model,
+      stream: false,
+      cached: false,
+      status: statusCode,
+      breakdown,
+      latencyMs: Date.now() - startedAt,
+      error: failure
+    })
+  }
+}
+
+// Fails every request that has not run, e.g. when a batch is cancelled
+async function closePendingRequests(batch: BatchDocument, error: { code: string; message: string }) {
+  const { batches, requests } = await getCollections()
+  const result = await requests.updateMany(
+    { batchId: batch._id, status: "pending" },
+    { $set: { status: "failed", error, completedAt: new Date() } }
+  )
+  if (result.modifiedCount) {
+    await batches.updateOne({ _id: batch._id }, { $inc: { "requestCounts.failed": result.modifiedCount } })
+  }
+}
+
+const FINAL_TIMESTAMPS: Record<string, keyof BatchDocument> = {
+  completed: "completedAt",
+  failed: "failedAt",
+  expired: "expiredAt",
+  cancelled: "cancelledAt",
+}
+
+async function writeResultFile(batch: BatchDocument, status: "completed" | "failed") {
+  const { requests } = await getCollections()
+  const lines: string[] = []
+  const cursor = requests.find({ batchId: batch._id, status }).sort({ index: 1 })
+  for await (const request of cursor) {
+    lines.push(JSON.stringify({
+      id: batchRequestId(request),
+      custom_id: request.customId,
+      response: request.response
+        ? { status_code: request.response.statusCode, request_id: request.requestId, body: request.response.body }
+        : null,
+      error: status === "failed" ? request.error : null
+    }))
+  }
+  if (!lines.length) return undefined
+
+  const name = `${batchId(batch)}_${status === "completed" ? "output" : "error"}.jsonl`
+  const file = await saveFile(batch.userId, name, "batch_output", Buffer.from(lines.join("\n") + "\n"))
+  return file.id
+}
+
+/**
+ * Writes a finished batch's result files, releases what is left of its hold
+ * and moves it to its final status. Safe to rerun after a crash.
+ * @returns {Promise<boolean>} false if a charge failed and finalizing must be retried
+ */
+async function finalizeBatch(batch: BatchDocument, status: "completed" | "failed" | "expired" | "cancelled") {
+  const { batches, requests } = await getCollections()
+  if (!batch.finalizingAt) {
+    batch.finalizingAt = new Date()
+    await batches.updateOne({ _id: batch._id }, { $set: { finalizingAt: batch.finalizingAt } })
+  }
+
+  for await (const request of requests.find({ batchId: batch._id, status: "completed", charged: false })) {
+    if (!(await chargeRequest(batch, request))) return false
+  }
+
+  if (!batch.outputFileId) {
+    batch.outputFileId = await writeResultFile(batch, "completed")
+    if (batch.outputFileId) await batches.updateOne({ _id: batch._id }, { $set: { outputFileId: batch.outputFileId } })
+  }
+  if (!batch.errorFileId) {
+    batch.errorFileId = await writeResultFile(batch, "failed")
+    if (batch.errorFileId) await batches.updateOne({ _id: batch._id }, { $set: { errorFileId: batch.errorFileId } })
+  }
+
+  await releaseWalletHold(batch.holdId)
+  await batches.updateOne({ _id: batch._id }, { $set: { status, [FINAL_TIMESTAMPS[status]]: new Date() } })
+  return true
+}
+
+// Runs a batch's pending requests until they are done, time runs out or the
+// throughput budget is spent
+async function runBatch(batch: BatchDocument, deadline: number) {
+  const { batches, requests } = await getCollections()
+  let requestsRun = 0
+
+  while (Date.now() < deadline) {
+    // Cancellation is picked up between rounds
+    const current = await batches.findOne({ _id: batch._id }, { projection: { status: 1 } })
+    if (current?.status !== "in_progress") return { requestsRun, done: false, throttled: false }
+
+    const pending = await requests
+      .find({ batchId: batch._id, status: "pending", retryAfter: { $not: { $gt: new Date() } } })
+      .sort({ index: 1 })
+      .limit(CONCURRENCY)
+      .toArray()
+    if (!pending.length) {
+      // Requests waiting out a retry delay keep the batch open
+      const waiting = await requests.countDocuments({ batchId: batch._id, status: "pending" }, { limit: 1 })
+      return { requestsRun, done: !waiting, throttled: false }
+    }
+
+    const allowed = await takeThroughput(pending.length)
+    await Promise.all(pending.slice(0, allowed).map(request => runRequest(batch, request)))
+    requestsRun += allowed
+    if (allowed < pending.length) return { requestsRun, done: false, throttled: true }
+  }
+  return { requestsRun, done: false, throttled: false }
+}
+
+/**
+ * One run of the batch worker: stops expired and cancelled batches, then
+ * works through active batches oldest first
+ * @returns {Promise<BatchRunReport | null>} null if another run holds the lock
+ */
+export async function processBatches(): Promise<BatchRunReport | null> {
+  const locked = await redis.set(LOCK_KEY, String(Date.now()), "EX", LOCK_TTL, "NX")
+  if (!locked) return null
+
+  try {
+    const startedAt = new Date()
+    const deadline = startedAt.getTime() + RUN_TIME_LIMIT
+    const report: BatchRunReport = { startedAt, finishedAt: startedAt, requestsRun: 0, batchesFinalized: 0, throttled: false }
+
+    const { batches } = await getCollections()
+    const active = await batches.find({ status: { $in: ACTIVE_STATUSES } }).sort({ createdAt: 1 }).toArray()
+
+    for (const batch of active) {
+      if (Date.now() >= deadline) break
+
+      let finalStatus: "completed" | "failed" | "expired" | "cancelled" | null = null
+      const wallet = await getWallet(batch.userId)
+
+      if (batch.status === "cancelling") {
+        await closePendingRequests(batch, { code: "batch_cancelled", message: "The batch was cancelled before this request ran." })
+        finalStatus = "cancelled"
+      } else if (batch.status === "finalizing") {
+        // Every request already ran, even if finalizing outlasts the window
+        finalStatus = "completed"
+      } else if (batch.expiresAt <= startedAt) {
+        await closePendingRequests(batch, {
+          code: "batch_expired",
+          message: "This request could not be executed before the completion window expired."
+        })
+        finalStatus = "expired"
+      } else if (wallet?.suspendedAt) {
+        const error = { code: "account_suspended", message: "This account has been suspended." }
+        await closePendingRequests(batch, error)
+        await batches.updateOne({ _id: batch._id }, { $set: { errors: [error] } })
+        finalStatus = "failed"
+      } else if (!report.throttled) {
+        const result = await runBatch(batch, deadline)
+        report.requestsRun += result.requestsRun
+        report.throttled = result.throttled
+        if (result.done) finalStatus = "completed"
+      }
+
+      if (!finalStatus) continue
+      if (batch.status === "in_progress" && finalStatus === "completed") {
+        await batches.updateOne({ _id: batch._id }, { $set: { status: "finalizing" } })
+      }
+      const latest = await batches.findOne({ _id: batch._id })
+      if (latest && (await finalizeBatch(latest, finalStatus))) report.batchesFinalized++
+    }
+
+    report.finishedAt = new Date()
+    return report
+  } finally {
+    await redis.del(LOCK_KEY)
+  }
+}
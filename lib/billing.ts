@@ -0,0 +1,184 @@
+import { ClientSession, WithId } from "mongodb"
+import {
+  chargeWalletHold,
+  getWallet,
+  releaseExpiredHolds,
+  reserveWalletFunds,
+  settleWalletHold,
+  withTransaction,
+  TransactionDetails,
+  WalletDocument
+} from "./mongodb"
+import { CostBreakdown } from "./pricing"
+import { getCachedWallet, cacheWallet, debitCachedWallet } from "./wallet-cache"
+import { afterApiKeySpend, recordApiKeySpend, reserveApiKeySpend, SpendLimitViolation } from "./spend-limits"
+import { ApiKeyDocument } from "./api-keys"
+import { enqueueWalletSettlement } from "./outbox"
+import { maybeTriggerAutoRecharge } from "./auto-recharge"
+
+// Shared by every billed API route: requests are validated against the
+// cached wallet, a hold is placed before going upstream, and the hold is
+// settled here once the real usage is known.
+
+/**
+ * Loads the wallet a request is billed to, from Redis when possible
+ * @throws if the account has no wallet
+ */
+export async function getRequestWallet(userId: string) {
+  let wallet = await getCachedWallet(userId)
+
+  if (!wallet) {
+    wallet = await getWallet(userId)
+    if (!wallet) throw new Error("Wallet not found")
+    await cacheWallet(userId, wallet)
+  }
+  return wallet
+}
+
+export type RequestHold =
+  | { holdId: string; violation?: undefined }
+  | { holdId: null; violation: SpendLimitViolation | null }
+
+/**
+ * Places the hold for a request's worst-case cost: against the wallet's
+ * available balance and the key's hard spend limits, in one transaction
+ * @param {number} ttl - Seconds until the hold is considered abandoned
+ * @returns {Promise<RequestHold>} The hold id, or null with the spend limit
+ * that would be exceeded (null when funds are insufficient)
+ */
+export async function reserveRequestFunds(
+  apiKey: WithId<ApiKeyDocument>,
+  userId: string,
+  amount: number,
+  meta: { model?: string } = {},
+  ttl?: number
+): Promise<RequestHold> {
+  // Released first: their key reservations count against the limits, and
+  // releasing them inside the transaction would conflict with its writes
+  await releaseExpiredHolds(userId)
+
+  return withTransaction<RequestHold>(async session => {
+    const { reserved, violation } = await reserveApiKeySpend(apiKey, amount, session)
+    if (violation) return { holdId: null, violation }
+
+    const holdId = await reserveWalletFunds(
+      userId,
+      amount,
+      { apiKeyId: apiKey._id.toString(), model: meta.model, apiKeyReserved: reserved },
+      ttl,
+      session
+    )
+    if (!holdId) {
+      // Gives the key reservation back
+      await session.abortTransaction()
+      return { holdId: null, violation: null }
+    }
+    return { holdId }
+  })
+}
+
+function chargeDetails(apiKeyId: string, breakdown: CostBreakdown, requestId: string): TransactionDetails {
+  return {
+    requestId,
+    apiKeyId,
+    tokens: {
+      prompt: breakdown.promptTokens,
+      completion: breakdown.completionTokens,
+      total: breakdown.promptTokens + breakdown.completionTokens
+    },
+    breakdown
+  }
+}
+
+// Records the key's spend in the transaction of the charge, so the key's
+// hard limits never see the charge missing once its reservation is given back
+function keySpendRecorder(apiKeyId: string, cost: number) {
+  const recorded: { key: WithId<ApiKeyDocument> | null } = { key: null }
+  const onCharge = async (session: ClientSession) => {
+    recorded.key = await recordApiKeySpend(apiKeyId, cost, session)
+  }
+  return { recorded, onCharge }
+}
+
+// Bookkeeping that follows every charge
+async function afterCharge(key: WithId<ApiKeyDocument> | null, userId: string, wallet: WalletDocument, cost: number) {
+  await cacheWallet(userId, wallet)
+  if (key) {
+    await afterApiKeySpend(key, cost).catch(error => {
+      console.error("Failed to process API key spend:", error)
+    })
+  }
+  await maybeTriggerAutoRecharge(wallet).catch(error => {
+    console.error("Failed to schedule auto-recharge:", error)
+  })
+}
+
+/**
+ * Settles a request's hold at its actual cost and records the key's spend
+ * @param {boolean} options.allowReleased - Also charge a hold that expired
+ * before the request finished, for output that was already delivered
+ * @returns {Promise<number>} The balance after the charge
+ */
+export async function settleRequestCharge(
+  apiKeyId: string,
+  userId: string,
+  holdId: string,
+  breakdown: CostBreakdown,
+  requestId: string,
+  options: { allowReleased?: boolean } = {}
+): Promise<number> {
+  const cost = breakdown.total
+  const details = chargeDetails(apiKeyId, breakdown, requestId)
+  const { recorded, onCharge } = keySpendRecorder(apiKeyId, cost)
+
+  let wallet
+  try {
+    wallet = await settleWalletHold(holdId, cost, details, { allowReleased: options.allowReleased, onCharge })
+  } catch (error) {
+    // Mongo is unreachable: queue the charge for the reconciler and debit
+    // the cache so the balance cannot be spent twice in the meantime
+    console.error("Failed to settle wallet hold, queueing for retry:", error)
+    await enqueueWalletSettlement(holdId, userId, cost, details)
+    return debitCachedWallet(userId, cost)
+  }
+  if (!wallet) throw new Error("Wallet hold is no longer pending")
+
+  // Refresh the cached wallet with the settled balance
+  await afterCharge(recorded.key, userId, wallet, cost)
+  return wallet.balance
+}
+
+/**
+ * Charges one request of a batch against the hold placed for the whole batch.
+ * Unlike settleRequestCharge there is no outbox fallback: the batch worker
+ * keeps the charge and retries it on its next run.
+ * @param {Function} markCharged - Runs in the charge's transaction; throwing aborts the charge
+ * @throws if the wallet could not be charged
+ */
+export async function settleBatchRequestCharge(
+  apiKeyId: string,
+  userId: string,
+  holdId: string,
+  breakdown: CostBreakdown,
+  requestId: string,
+  batchId: string,
+  markCharged: (session: ClientSession) => Promise<void>
+) {
+  const cost = breakdown.total
+  const { recorded, onCharge } = keySpendRecorder(apiKeyId, cost)
+  const wallet = await chargeWalletHold(
+    holdId,
+    userId,
+    cost,
+    { ...chargeDetails(apiKeyId, breakdown, requestId), batchId },
+    {
+      onCharge: async session => {
+        await markCharged(session)
+        await onCharge(session)
+      }
+    }
+  )
+  if (!wallet) throw new Error("Wallet not found")
+
+  await afterCharge(recorded.key, userId, wallet, cost)
+}
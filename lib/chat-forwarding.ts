@@ -0,0 +1,208 @@
+import crypto from "crypto"
+import { Response } from "express"
+import { AuthenticatedRequest } from "../middleware/auth"
+import { releaseWalletHold } from "./mongodb"
+import { calculateCost, capCompletionTokens, estimateMaxCost, CostBreakdown } from "./pricing"
+import { estimatePromptTokens } from "./tokens"
+import { getRequestWallet, settleRequestCharge } from "./billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "./request-guards"
+import { recordUsage } from "./usage"
+import { recordTokenUsage, RateLimitBucket } from "./rate-limit"
+import { resolveModel, supportsVision, UpstreamTarget } from "./models"
+import { withFailover } from "./failover"
+import { countImageParts, invalidRequest } from "./chat-schema"
+import { proxyChatStream, StreamWriter } from "./stream-proxy"
+
+// Endpoints that speak another OpenAI format are translated to a
+// chat-completions body and served here, billed exactly like the chat route.
+// They skip the response cache, which is keyed on chat-completions bodies.
+
+export interface ForwardOptions {
+  // Name recorded in the usage log
+  endpoint: string;
+  // A validated chat-completions body, including model and stream
+  body: Record<string, any>;
+  // Converts the upstream completion to the endpoint's response format
+  formatResponse: (completion: any) => Record<string, any>;
+  // Writes the upstream stream to the client in the endpoint's event format
+  createStreamWriter: (res: Response) => StreamWriter;
+  // Whether the client gets the usage-only chunk
+  includeUsage?: boolean;
+}
+
+// What a streamed request is billed with
+export interface StreamCharge {
+  apiKeyId: string;
+  userId: string;
+  holdId: string;
+  requestId: string;
+  buckets: RateLimitBucket[];
+}
+
+/**
+ * Streams a chat completion to the client, then settles the request's hold
+ * at the cost of what was streamed. Partial output is billed too, from
+ * locally counted tokens if the upstream never reported usage.
+ * @param {Record<string, any>} body - The chat-completions body, without `stream`
+ * @returns {Promise<CostBreakdown | null>} null if the charge could not be settled
+ */
+export async function streamChatCompletion(
+  res: Response,
+  request: {
+    model: string;
+    targets: UpstreamTarget[];
+    body: Record<string, any>;
+    signal: AbortSignal;
+    onAbort: () => void;
+    // Whether the client gets the usage-only chunk
+    includeUsage: boolean;
+    writer?: StreamWriter;
+  },
+  charge: StreamCharge
+): Promise<CostBreakdown | null> {
+  const { model, targets, body, signal } = request
+
+  // Usage is always requested so the stream can be billed exactly.
+  // Failover is only possible until the upstream starts streaming.
+  const upstreamBody = { ...body, stream: true, stream_options: { ...body.stream_options, include_usage: true } }
+  const upstreamStream = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+    provider.stream(upstreamModel, upstreamBody, signal)
+  )
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+
+  const result = await proxyChatStream(upstreamStream, res, body, {
+    includeUsage: request.includeUsage,
+    onAbort: request.onAbort,
+    writer: request.writer
+  })
+
+  await recordTokenUsage(charge.buckets, result.usage.total_tokens)
+
+  // A stream can outlast its hold, which is then released as expired. The
+  // output has been delivered either way, so the charge is settled regardless.
+  try {
+    const breakdown = await calculateCost(model, result.usage)
+    await settleRequestCharge(charge.apiKeyId, charge.userId, charge.holdId, breakdown, charge.requestId, {
+      allowReleased: true
+    })
+    return breakdown
+  } catch (error) {
+    console.error("Failed to settle stream charge:", error)
+    return null
+  }
+}
+
+/**
+ * Forwards a translated request to the chat upstream and settles its charge
+ */
+export async function forwardChatRequest(req: AuthenticatedRequest, res: Response, options: ForwardOptions) {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  const usage: { breakdown: CostBreakdown | null; error?: string } = { breakdown: null }
+  let logUsage: (() => void) | null = null
+
+  try {
+    const { stream = false, ...params } = options.body
+    const body = capCompletionTokens(params)
+    const model: string = body.model
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: options.endpoint,
+        model,
+        stream,
+        cached: false,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
+      })
+    }
+
+    const modelError = await checkModelAccess(apiKey, model, "chat")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+
+    if (countImageParts(body.messages) && !supportsVision(model)) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not support image inputs`, "input", "model_not_supported")
+      })
+    }
+
+    const targets = resolveModel(model)
+    if (!targets.length) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found")
+      })
+    }
+
+    const wallet = await getRequestWallet(apiKey.userId)
+
+    const promptTokens = estimatePromptTokens(body)
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, promptTokens)
+    if (!rateLimitResult) return
+
+    const maxCost = await estimateMaxCost(model, promptTokens, body.max_completion_tokens ?? body.max_tokens, body.n ?? 1)
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost, { model })
+    if (!holdId) return
+
+    if (stream) {
+      usage.breakdown = await streamChatCompletion(
+        res,
+        {
+          model,
+          targets,
+          body,
+          signal,
+          onAbort: () => controller.abort(),
+          includeUsage: !!options.includeUsage,
+          writer: options.createStreamWriter(res)
+        },
+        { apiKeyId, userId: wallet.userId, holdId, requestId, buckets: rateLimitResult.buckets }
+      )
+    } else {
+      const completion = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+        provider.complete(upstreamModel, body, signal)
+      )
+      const breakdown = await calculateCost(model, completion.usage)
+      await recordTokenUsage(rateLimitResult.buckets, breakdown.promptTokens + breakdown.completionTokens)
+
+      const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+      usage.breakdown = breakdown
+
+      return res.json({
+        ...options.formatResponse(completion),
+        cost: breakdown.total,
+        costBreakdown: breakdown,
+        remainingBalance: newBalance
+      })
+    }
+  } catch (error) {
+    controller.abort()
+    console.error(`Failed to process ${options.endpoint} request:`, error)
+    usage.error = error.message || String(error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+
+    sendRequestError(res, error, `Failed to process ${options.endpoint} request`)
+  } finally {
+    logUsage?.()
+  }
+}
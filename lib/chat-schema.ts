@@ -0,0 +1,259 @@
+// Validation of the OpenAI chat-completions request body. Known parameters
+// are checked and passed through to the upstream untouched; anything else is
+// rejected the way OpenAI does, so typos don't silently change behaviour.
+
+export interface OpenAIError {
+  message: string;
+  type: string;
+  param: string | null;
+  code: string | null;
+}
+
+type Check = (value: any) => string | null
+
+const MESSAGE_ROLES = ["system", "developer", "user", "assistant", "tool", "function"]
+const RESPONSE_FORMATS = ["text", "json_object", "json_schema"]
+const IMAGE_DETAILS = ["auto", "low", "high"]
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+// Vision limits, as documented for gpt-4o on Azure OpenAI
+export const MAX_IMAGES_PER_REQUEST = 10
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+
+const checkInteger = (min: number, max: number): Check => value =>
+  Number.isInteger(value) && value >= min && value <= max
+    ? null
+    : `must be an integer between ${min} and ${max}`
+
+const checkNumber = (min: number, max: number): Check => value =>
+  typeof value === "number" && value >= min && value <= max
+    ? null
+    : `must be a number between ${min} and ${max}`
+
+const checkBoolean: Check = value => (typeof value === "boolean" ? null : "must be a boolean")
+
+const checkString: Check = value => (typeof value === "string" ? null : "must be a string")
+
+const checkObject: Check = value =>
+  value && typeof value === "object" && !Array.isArray(value) ? null : "must be an object"
+
+function checkImageUrl(imageUrl: any): string | null {
+  const url = typeof imageUrl === "string" ? imageUrl : imageUrl?.url
+  if (typeof url !== "string") return "image_url.url is required"
+  if (imageUrl?.detail !== undefined && !IMAGE_DETAILS.includes(imageUrl.detail)) {
+    return `image_url.detail must be one of: ${IMAGE_DETAILS.join(", ")}`
+  }
+
+  if (url.startsWith("data:")) {
+    const dataUrl = /^data:([^;,]+);base64,([A-Za-z0-9+/]*={0,2})$/.exec(url)
+    if (!dataUrl) return "image_url.url must be a base64 data URL"
+    if (!IMAGE_TYPES.includes(dataUrl[1])) {
+      return `images must be one of: ${IMAGE_TYPES.join(", ")}`
+    }
+    // Decoded size of the base64 payload
+    const bytes = Math.floor((dataUrl[2].length * 3) / 4) - (dataUrl[2].match(/=+$/)?.[0].length ?? 0)
+    if (bytes > MAX_IMAGE_BYTES) return `images must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+    return null
+  }
+  return /^https?:\/\//.test(url) ? null : "image_url.url must be an http(s) URL or a data URL"
+}
+
+function checkContentParts(parts: any[]): string | null {
+  for (const [j, part] of parts.entries()) {
+    if (!part || typeof part !== "object" || typeof part.type !== "string") {
+      return `content part ${j} must be an object with a type`
+    }
+    if (part.type === "text" && typeof part.text !== "string") {
+      return `content part ${j}: text must be a string`
+    }
+    if (part.type === "image_url") {
+      const problem = checkImageUrl(part.image_url)
+      if (problem) return `content part ${j}: ${problem}`
+    }
+  }
+  return null
+}
+
+/**
+ * Counts the image inputs across chat messages
+ */
+export function countImageParts(messages: any[]): number {
+  let count = 0
+  for (const message of messages) {
+    if (!Array.isArray(message?.content)) continue
+    count += message.content.filter((part: any) => part?.type === "image_url").length
+  }
+  return count
+}
+
+function checkMessages(messages: any): string | null {
+  if (!Array.isArray(messages) || !messages.length) return "must be a non-empty array"
+
+  for (const [i, message] of messages.entries()) {
+    if (!message || typeof message !== "object") return `item ${i} must be an object`
+    if (!MESSAGE_ROLES.includes(message.role)) {
+      return `item ${i}: role must be one of: ${MESSAGE_ROLES.join(", ")}`
+    }
+
+    const { content } = message
+    const contentOptional = message.role === "assistant" && (message.tool_calls || message.function_call)
+    if (content === null || content === undefined) {
+      if (!contentOptional) return `item ${i}: content is required`
+    } else if (typeof content !== "string" && !Array.isArray(content)) {
+      return `item ${i}: content must be a string or an array of content parts`
+    } else if (Array.isArray(content)) {
+      const problem = checkContentParts(content)
+      if (problem) return `item ${i}: ${problem}`
+    }
+
+    if (message.role === "tool" && typeof message.tool_call_id !== "string") {
+      return `item ${i}: tool_call_id is required for tool messages`
+    }
+  }
+
+  if (countImageParts(messages) > MAX_IMAGES_PER_REQUEST) {
+    return `must contain at most ${MAX_IMAGES_PER_REQUEST} images`
+  }
+  return null
+}
+
+function checkTools(tools: any): string | null {
+  if (!Array.isArray(tools)) return "must be an array"
+  for (const [i, tool] of tools.entries()) {
+    if (tool?.type !== "function") return `item ${i}: type must be 'function'`
+    if (typeof tool.function?.name !== "string") return `item ${i}: function.name is required`
+  }
+  return null
+}
+
+function checkToolChoice(choice: any): string | null {
+  if (["none", "auto", "required"].includes(choice)) return null
+  if (choice?.type === "function" && typeof choice.function?.name === "string") return null
+  return "must be 'none', 'auto', 'required' or a function selection"
+}
+
+function checkStop(stop: any): string | null {
+  if (stop === null || typeof stop === "string") return null
+  if (Array.isArray(stop) && stop.length <= 4 && stop.every(s => typeof s === "string")) return null
+  return "must be a string or an array of up to 4 strings"
+}
+
+function checkLogitBias(bias: any): string | null {
+  if (checkObject(bias)) return "must be an object"
+  for (const value of Object.values(bias)) {
+    if (typeof value !== "number" || value < -100 || value > 100) {
+      return "values must be numbers between -100 and 100"
+    }
+  }
+  return null
+}
+
+function checkResponseFormat(format: any): string | null {
+  if (checkObject(format) || !RESPONSE_FORMATS.includes(format.type)) {
+    return `type must be one of: ${RESPONSE_FORMATS.join(", ")}`
+  }
+  if (format.type === "json_schema" && checkObject(format.json_schema)) {
+    return "json_schema is required when type is 'json_schema'"
+  }
+  return null
+}
+
+function checkStreamOptions(options: any): string | null {
+  if (options === null) return null
+  if (checkObject(options)) return "must be an object"
+  if (options.include_usage !== undefined && typeof options.include_usage !== "boolean") {
+    return "include_usage must be a boolean"
+  }
+  return null
+}
+
+const PARAMETERS: Record<string, Check> = {
+  messages: checkMessages,
+  model: checkString,
+  frequency_penalty: checkNumber(-2, 2),
+  presence_penalty: checkNumber(-2, 2),
+  logit_bias: checkLogitBias,
+  logprobs: checkBoolean,
+  top_logprobs: checkInteger(0, 20),
+  max_tokens: checkInteger(1, 1_000_000),
+  max_completion_tokens: checkInteger(1, 1_000_000),
+  n: checkInteger(1, 128),
+  response_format: checkResponseFormat,
+  seed: value => (Number.isInteger(value) ? null : "must be an integer"),
+  stop: checkStop,
+  stream: checkBoolean,
+  stream_options: checkStreamOptions,
+  temperature: checkNumber(0, 2),
+  top_p: checkNumber(0, 1),
+  tools: checkTools,
+  tool_choice: checkToolChoice,
+  parallel_tool_calls: checkBoolean,
+  user: checkString,
+  // Deprecated function-calling parameters, still accepted by the upstream
+  functions: value => (Array.isArray(value) ? null : "must be an array"),
+  function_call: value =>
+    typeof value === "string" || typeof value?.name === "string"
+      ? null
+      : "must be 'none', 'auto' or a function selection",
+}
+
+export function invalidRequest(message: string, param: string | null = null, code: string | null = null): OpenAIError {
+  return { message, type: "invalid_request_error", param, code }
+}
+
+/**
+ * Thrown for a valid request that the upstream serving it cannot honour,
+ * such as a parameter a provider has no equivalent for
+ */
+export class InvalidRequestError extends Error {
+  status = 400
+  error: OpenAIError
+
+  constructor(error: OpenAIError) {
+    super(error.message)
+    this.name = "InvalidRequestError"
+    this.error = error
+  }
+}
+
+/**
+ * Validates a chat-completions body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateChatRequest(
+  body: any
+): { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+
+  if (body.messages === undefined) {
+    return { error: invalidRequest("Missing required parameter: 'messages'.", "messages", "missing_required_parameter") }
+  }
+
+  const params: Record<string, any> = {}
+  for (const [name, value] of Object.entries(body)) {
+    const check = PARAMETERS[name]
+    if (!check) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+
+    // Explicit nulls mean "use the default", as with OpenAI
+    if (value === null && name !== "messages") continue
+
+    const problem = check(value)
+    if (problem) {
+      return { error: invalidRequest(`Invalid '${name}': ${problem}.`, name, "invalid_value") }
+    }
+    params[name] = value
+  }
+
+  if (params.top_logprobs !== undefined && !params.logprobs) {
+    return { error: invalidRequest("'top_logprobs' requires 'logprobs' to be true.", "top_logprobs", "invalid_value") }
+  }
+  if (params.stream_options && !params.stream) {
+    return { error: invalidRequest("'stream_options' is only allowed when 'stream' is true.", "stream_options", "invalid_value") }
+  }
+
+  return { params }
+}
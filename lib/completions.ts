@@ -0,0 +1,143 @@
+import { Response } from "express"
+import { invalidRequest, OpenAIError, validateChatRequest } from "./chat-schema"
+import { createChatStreamWriter, StreamWriter } from "./stream-proxy"
+
+// The legacy completions API, served by the chat upstream. The prompt becomes
+// a single user message and each choice's message content becomes its text.
+
+// OpenAI's default for this endpoint, which older tooling relies on
+const DEFAULT_MAX_TOKENS = 16
+
+// Parameters passed to the chat upstream under the same name
+const CHAT_PARAMETERS = [
+  "model",
+  "max_tokens",
+  "temperature",
+  "top_p",
+  "n",
+  "stream",
+  "stream_options",
+  "stop",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "user",
+  "seed",
+]
+
+// Accepted at their defaults only; chat models have no equivalent
+const UNSUPPORTED_PARAMETERS: Record<string, (value: any) => boolean> = {
+  suffix: value => value === null || value === "",
+  echo: value => value === null || value === false,
+  logprobs: value => value === null,
+  best_of: value => value === null || value === 1,
+}
+
+function checkPrompt(prompt: any): string | null {
+  if (typeof prompt === "string") return null
+  if (Array.isArray(prompt) && prompt.length === 1 && typeof prompt[0] === "string") return null
+  if (Array.isArray(prompt) && prompt.every(item => typeof item === "string")) {
+    return "only a single prompt is supported per request"
+  }
+  return "must be a string"
+}
+
+/**
+ * Validates a completions body and translates it to a chat-completions body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateCompletionRequest(
+  body: any
+): { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+  for (const name of ["model", "prompt"]) {
+    if (body[name] === undefined || body[name] === null) {
+      return { error: invalidRequest(`Missing required parameter: '${name}'.`, name, "missing_required_parameter") }
+    }
+  }
+
+  const problem = checkPrompt(body.prompt)
+  if (problem) return { error: invalidRequest(`Invalid 'prompt': ${problem}.`, "prompt", "invalid_value") }
+
+  const chatBody: Record<string, any> = {
+    messages: [{ role: "user", content: [body.prompt].flat()[0] }],
+    max_tokens: DEFAULT_MAX_TOKENS
+  }
+  for (const [name, value] of Object.entries(body)) {
+    if (name === "prompt") continue
+
+    const isDefault = UNSUPPORTED_PARAMETERS[name]
+    if (isDefault) {
+      if (!isDefault(value)) {
+        return {
+          error: invalidRequest(`'${name}' is not supported with chat models.`, name, "unsupported_parameter")
+        }
+      }
+      continue
+    }
+    if (!CHAT_PARAMETERS.includes(name)) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+    if (value !== null) chatBody[name] = value
+  }
+
+  return validateChatRequest(chatBody)
+}
+
+function toTextChoice(choice: any, text: string) {
+  return {
+    text,
+    index: choice.index ?? 0,
+    logprobs: null,
+    finish_reason: choice.finish_reason ?? null
+  }
+}
+
+function completionId(chatId: string | undefined) {
+  return chatId ? chatId.replace(/^chatcmpl-/, "cmpl-") : `cmpl-${Date.now()}`
+}
+
+/**
+ * Converts a chat completion to a text_completion object
+ */
+export function toTextCompletion(completion: any) {
+  return {
+    id: completionId(completion.id),
+    object: "text_completion",
+    created: completion.created ?? Math.floor(Date.now() / 1000),
+    model: completion.model,
+    choices: (completion.choices || []).map((choice: any) =>
+      toTextChoice(choice, choice.message?.content ?? "")
+    ),
+    usage: completion.usage
+  }
+}
+
+/**
+ * Relays chat.completion.chunk events as text_completion chunks
+ */
+export function createCompletionStreamWriter(res: Response): StreamWriter {
+  const writer = createChatStreamWriter(res)
+
+  return {
+    write(chunk) {
+      if (chunk.error) return writer.write(chunk)
+
+      const choices = chunk.choices || []
+      // Chunks carrying only content-filter results have nothing to relay
+      if (!choices.length && !chunk.usage) return
+
+      writer.write({
+        id: completionId(chunk.id),
+        object: "text_completion",
+        created: chunk.created,
+        model: chunk.model,
+        choices: choices.map((choice: any) => toTextChoice(choice, choice.delta?.content ?? "")),
+        ...(chunk.usage && { usage: chunk.usage })
+      })
+    },
+    end: writer.end
+  }
+}
@@ -0,0 +1,51 @@
+import nodemailer from "nodemailer"
+
+// Outgoing email goes through a single transport. By default it is SMTP,
+// configured with SMTP_URL (smtp[s]://user:pass@host:port); a different
+// transport (an email API, a test double) can be plugged in with
+// setEmailTransport.
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || "no-reply@localhost"
+
+export function createSmtpTransport(url: string): EmailTransport {
+  const transporter = nodemailer.createTransport(url)
+  return {
+    async send(message) {
+      await transporter.sendMail(message)
+    }
+  }
+}
+
+let transport: EmailTransport | null = process.env.SMTP_URL ? createSmtpTransport(process.env.SMTP_URL) : null
+
+/**
+ * Replaces the transport used by sendEmail
+ */
+export function setEmailTransport(replacement: EmailTransport | null) {
+  transport = replacement
+}
+
+export function isEmailConfigured() {
+  return transport !== null
+}
+
+/**
+ * Sends an email, or only logs it when no transport is configured
+ */
+export async function sendEmail(message: EmailMessage) {
+  if (!transport) {
+    console.warn(`Email transport is not configured, dropping "${message.subject}" to ${message.to}`)
+    return
+  }
+  await transport.send({ from: EMAIL_FROM, ...message })
+}
@@ -0,0 +1,76 @@
+import { invalidRequest, OpenAIError } from "./chat-schema"
+
+// Validation of the OpenAI embeddings request body, checked the same way as
+// chat-completions bodies: known parameters only, passed through as-is.
+
+// OpenAI's limit on the number of inputs per request
+const MAX_INPUTS = 2048
+const ENCODING_FORMATS = ["float", "base64"]
+
+const isTokenArray = (value: any) =>
+  Array.isArray(value) && value.length > 0 && value.every(token => Number.isInteger(token) && token >= 0)
+
+function checkInput(input: any): string | null {
+  if (typeof input === "string") return input ? null : "must not be empty"
+  if (!Array.isArray(input) || !input.length) {
+    return "must be a string, an array of strings, or an array of token arrays"
+  }
+  if (input.length > MAX_INPUTS) return `must have at most ${MAX_INPUTS} items`
+
+  // A single tokenized input
+  if (typeof input[0] === "number") return isTokenArray(input) ? null : "must contain non-negative integer tokens"
+
+  for (const [i, item] of input.entries()) {
+    if (typeof item === "string") {
+      if (!item) return `item ${i} must not be empty`
+    } else if (!isTokenArray(item)) {
+      return `item ${i} must be a non-empty string or array of tokens`
+    }
+  }
+  return null
+}
+
+const PARAMETERS: Record<string, (value: any) => string | null> = {
+  model: value => (typeof value === "string" && value ? null : "must be a string"),
+  input: checkInput,
+  encoding_format: value =>
+    ENCODING_FORMATS.includes(value) ? null : `must be one of: ${ENCODING_FORMATS.join(", ")}`,
+  // Only text-embedding-3 models support this; others are rejected upstream
+  dimensions: value => (Number.isInteger(value) && value >= 1 ? null : "must be a positive integer"),
+  user: value => (typeof value === "string" ? null : "must be a string"),
+}
+
+/**
+ * Validates an embeddings body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateEmbeddingsRequest(
+  body: any
+): { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+
+  for (const name of ["model", "input"]) {
+    if (body[name] === undefined || body[name] === null) {
+      return { error: invalidRequest(`Missing required parameter: '${name}'.`, name, "missing_required_parameter") }
+    }
+  }
+
+  const params: Record<string, any> = {}
+  for (const [name, value] of Object.entries(body)) {
+    const check = PARAMETERS[name]
+    if (!check) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+    if (value === null) continue
+
+    const problem = check(value)
+    if (problem) {
+      return { error: invalidRequest(`Invalid '${name}': ${problem}.`, name, "invalid_value") }
+    }
+    params[name] = value
+  }
+
+  return { params }
+}
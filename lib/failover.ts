@@ -0,0 +1,169 @@
+import axios from "axios"
+import { redis } from "./redis"
+import { ChatProvider } from "./providers"
+import { UpstreamTarget } from "./models"
+
+// Retry policy per deployment before failing over to the next one
+const MAX_ATTEMPTS_PER_TARGET = 2
+const BASE_BACKOFF_MS = 250
+const MAX_BACKOFF_MS = 4000
+// A Retry-After longer than this is treated as "go elsewhere"
+const MAX_RETRY_AFTER_MS = 10000
+
+// Circuit breaker: this many failures within the window opens the circuit,
+// which stops traffic to the deployment until the cooldown expires. State is
+// kept in Redis so every instance sees the same view of a failing region.
+const CIRCUIT_FAILURE_THRESHOLD = 5
+const CIRCUIT_WINDOW = 30 // seconds
+const CIRCUIT_COOLDOWN = 30 // seconds
+
+export class UpstreamUnavailableError extends Error {
+  status = 503
+
+  constructor(model: string) {
+    super(`No healthy upstream available for model ${model}`)
+    this.name = "UpstreamUnavailableError"
+  }
+}
+
+const circuitKey = (target: UpstreamTarget) => `circuit:${target.provider.name}:${target.upstreamModel}`
+
+async function isCircuitOpen(target: UpstreamTarget): Promise<boolean> {
+  try {
+    return (await redis.exists(`${circuitKey(target)}:open`)) === 1
+  } catch (error) {
+    // Without Redis the breaker cannot coordinate; let traffic through
+    console.error("Circuit breaker error:", error)
+    return false
+  }
+}
+
+async function recordFailure(target: UpstreamTarget) {
+  const key = circuitKey(target)
+  try {
+    const results = await redis
+      .multi()
+      .incr(`${key}:failures`)
+      .expire(`${key}:failures`, CIRCUIT_WINDOW)
+      .exec()
+    const failures = Number(results?.[0]?.[1] || 0)
+
+    if (failures >= CIRCUIT_FAILURE_THRESHOLD) {
+      await redis
+        .multi()
+        .set(`${key}:open`, String(Date.now()), "EX", CIRCUIT_COOLDOWN)
+        .del(`${key}:failures`)
+        .exec()
+      console.error(`Circuit opened for ${target.provider.name}/${target.upstreamModel}`)
+    }
+  } catch (error) {
+    console.error("Circuit breaker error:", error)
+  }
+}
+
+async function recordSuccess(target: UpstreamTarget) {
+  try {
+    await redis.del(`${circuitKey(target)}:failures`)
+  } catch (error) {
+    console.error("Circuit breaker error:", error)
+  }
+}
+
+// Weighted targets are shuffled so traffic splits by weight; unweighted
+// targets keep their configured order
+function orderTargets(targets: UpstreamTarget[]): UpstreamTarget[] {
+  if (!targets.some(target => target.weight)) return targets
+
+  const remaining = [...targets]
+  const ordered: UpstreamTarget[] = []
+  while (remaining.length) {
+    const total = remaining.reduce((sum, target) => sum + (target.weight ?? 1), 0)
+    let pick = Math.random() * total
+    const index = remaining.findIndex(target => (pick -= target.weight ?? 1) < 0)
+    ordered.push(...remaining.splice(index === -1 ? 0 : index, 1))
+  }
+  return ordered
+}
+
+// Network errors, timeouts, throttling and server errors may succeed on retry
+export function isRetryable(error: any): boolean {
+  if (axios.isCancel(error)) return false
+  if (!axios.isAxiosError(error)) return false
+  // Network errors and timeouts have no response
+  if (!error.response) return true
+  const status = error.response.status
+  return status === 408 || status === 429 || status >= 500
+}
+
+function retryAfterMs(error: any): number | null {
+  const header = axios.isAxiosError(error) ? error.response?.headers?.["retry-after"] : undefined
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("Request aborted"))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error("Request aborted"))
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs an upstream call against a model's deployments, retrying transient
+ * failures with backoff and failing over to the next healthy deployment.
+ * For streams the call must resolve once response headers arrive, so
+ * failover never happens after bytes have been sent to the client.
+ * @throws the last upstream error, or UpstreamUnavailableError if every circuit is open
+ */
+export async function withFailover<T>(
+  model: string,
+  targets: UpstreamTarget[],
+  signal: AbortSignal,
+  call: (provider: ChatProvider, upstreamModel: string) => Promise<T>
+): Promise<T> {
+  let lastError: any = null
+
+  for (const target of orderTargets(targets)) {
+    if (await isCircuitOpen(target)) continue
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_TARGET; attempt++) {
+      try {
+        const result = await call(target.provider, target.upstreamModel)
+        await recordSuccess(target)
+        return result
+      } catch (error) {
+        lastError = error
+        if (!isRetryable(error)) throw error
+
+        await recordFailure(target)
+        console.error(
+          `Upstream ${target.provider.name}/${target.upstreamModel} failed (attempt ${attempt}):`,
+          axios.isAxiosError(error) ? error.response?.status ?? error.code : error
+        )
+
+        if (attempt === MAX_ATTEMPTS_PER_TARGET) break
+
+        const retryAfter = retryAfterMs(error)
+        if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) break
+
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+        await sleep(retryAfter ?? backoff + Math.random() * backoff, signal)
+      }
+    }
+  }
+
+  throw lastError || new UpstreamUnavailableError(model)
+}
@@ -0,0 +1,144 @@
+import { GridFSBucket, ObjectId } from "mongodb"
+import { Readable } from "stream"
+import { connectToDatabase } from "./mongodb"
+
+// Files for the Batch API, kept in GridFS so inputs and results can exceed
+// Mongo's document size limit. Every file belongs to an account (a user or
+// an organization, like wallets) and is addressed by its OpenAI-style id.
+
+export const FILE_PURPOSES = ["batch", "batch_output"] as const
+export type FilePurpose = typeof FILE_PURPOSES[number]
+
+// Purposes clients may upload with; the rest are written by the batch worker
+export const UPLOAD_PURPOSES: FilePurpose[] = ["batch"]
+
+export const MAX_FILE_BYTES = 100 * 1024 * 1024
+
+interface FileMetadata {
+  userId: string;
+  purpose: FilePurpose;
+}
+
+interface StoredFile {
+  _id: ObjectId;
+  length: number;
+  filename: string;
+  uploadDate: Date;
+  metadata: FileMetadata;
+}
+
+const FILE_ID_PREFIX = "file-"
+
+async function getBucket() {
+  const db = await connectToDatabase()
+  return { db, bucket: new GridFSBucket(db, { bucketName: "files" }) }
+}
+
+function parseFileId(id: string): ObjectId | null {
+  const hex = id.startsWith(FILE_ID_PREFIX) ? id.slice(FILE_ID_PREFIX.length) : ""
+  return ObjectId.isValid(hex) && hex.length === 24 ? new ObjectId(hex) : null
+}
+
+/**
+ * Shapes a stored file as an OpenAI file object
+ */
+export function serializeFile(file: StoredFile) {
+  return {
+    id: `${FILE_ID_PREFIX}${file._id.toString()}`,
+    object: "file",
+    bytes: file.length,
+    created_at: Math.floor(file.uploadDate.getTime() / 1000),
+    filename: file.filename,
+    purpose: file.metadata.purpose
+  }
+}
+
+/**
+ * Stores a file for an account
+ */
+export async function saveFile(userId: string, filename: string, purpose: FilePurpose, content: Buffer) {
+  const { bucket } = await getBucket()
+  const metadata: FileMetadata = { userId, purpose }
+  const upload = bucket.openUploadStream(filename, { metadata })
+
+  await new Promise<void>((resolve, reject) => {
+    Readable.from([content]).pipe(upload).on("finish", () => resolve()).on("error", reject)
+  })
+
+  return serializeFile({
+    _id: upload.id,
+    length: content.length,
+    filename,
+    uploadDate: new Date(),
+    metadata
+  })
+}
+
+/**
+ * Looks up one of an account's files
+ * @returns {Promise<StoredFile | null>} null if the id is unknown or belongs to another account
+ */
+export async function getFile(userId: string, id: string): Promise<StoredFile | null> {
+  const objectId = parseFileId(id)
+  if (!objectId) return null
+
+  const { db } = await getBucket()
+  const file = await db.collection<StoredFile>("files.files").findOne({ _id: objectId, "metadata.userId": userId })
+  return file
+}
+
+/**
+ * Reads a file's content, which must belong to the account
+ * @returns {Promise<Buffer | null>} null if the file does not exist
+ */
+export async function readFile(userId: string, id: string): Promise<Buffer | null> {
+  const file = await getFile(userId, id)
+  if (!file) return null
+
+  const { bucket } = await getBucket()
+  const chunks: Buffer[] = []
+  for await (const chunk of bucket.openDownloadStream(file._id)) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Lists an account's files, newest first, paginated by file id
+ */
+export async function listFiles(
+  userId: string,
+  options: { purpose?: string; after?: string; limit: number }
+) {
+  const { db } = await getBucket()
+  const filter: Record<string, any> = { "metadata.userId": userId }
+  if (options.purpose) filter["metadata.purpose"] = options.purpose
+
+  const after = options.after ? parseFileId(options.after) : null
+  if (after) filter._id = { $lt: after }
+
+  const files = await db
+    .collection<StoredFile>("files.files")
+    .find(filter)
+    .sort({ _id: -1 })
+    .limit(options.limit + 1)
+    .toArray()
+
+  return {
+    files: files.slice(0, options.limit).map(serializeFile),
+    hasMore: files.length > options.limit
+  }
+}
+
+/**
+ * Deletes one of an account's files
+ * @returns {Promise<boolean>} false if the file does not exist
+ */
+export async function deleteFile(userId: string, id: string): Promise<boolean> {
+  const file = await getFile(userId, id)
+  if (!file) return false
+
+  const { bucket } = await getBucket()
+  await bucket.delete(file._id)
+  return true
+}
@@ -0,0 +1,68 @@
+import { invalidRequest, OpenAIError } from "./chat-schema"
+
+// Validation of the OpenAI image generation request body. Images are billed
+// per image by quality and size, so those are always filled in.
+
+export const DEFAULT_IMAGE_MODEL = "dall-e-3"
+const MAX_PROMPT_LENGTH = 4000
+const IMAGE_SIZES = ["1024x1024", "1792x1024", "1024x1792"]
+const QUALITIES = ["standard", "hd"]
+const STYLES = ["vivid", "natural"]
+const RESPONSE_FORMATS = ["url", "b64_json"]
+
+const oneOf = (values: string[]) => (value: any) =>
+  values.includes(value) ? null : `must be one of: ${values.join(", ")}`
+
+const PARAMETERS: Record<string, (value: any) => string | null> = {
+  prompt: value =>
+    typeof value === "string" && value && value.length <= MAX_PROMPT_LENGTH
+      ? null
+      : `must be a string of 1 to ${MAX_PROMPT_LENGTH} characters`,
+  model: value => (typeof value === "string" && value ? null : "must be a string"),
+  n: value => (Number.isInteger(value) && value >= 1 && value <= 10 ? null : "must be an integer between 1 and 10"),
+  size: oneOf(IMAGE_SIZES),
+  quality: oneOf(QUALITIES),
+  style: oneOf(STYLES),
+  response_format: oneOf(RESPONSE_FORMATS),
+  user: value => (typeof value === "string" ? null : "must be a string"),
+}
+
+/**
+ * Validates an image generation body
+ * @returns {{ params: Record<string, any> } | { error: OpenAIError }}
+ */
+export function validateImageRequest(
+  body: any
+): { params: Record<string, any>; error?: undefined } | { error: OpenAIError; params?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+  if (body.prompt === undefined || body.prompt === null) {
+    return { error: invalidRequest("Missing required parameter: 'prompt'.", "prompt", "missing_required_parameter") }
+  }
+
+  const params: Record<string, any> = {
+    model: DEFAULT_IMAGE_MODEL,
+    n: 1,
+    size: "1024x1024",
+    quality: "standard"
+  }
+  for (const [name, value] of Object.entries(body)) {
+    const check = PARAMETERS[name]
+    if (!check) {
+      return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+    if (value === null) continue
+
+    const problem = check(value)
+    if (problem) {
+      return { error: invalidRequest(`Invalid '${name}': ${problem}.`, name, "invalid_value") }
+    }
+    params[name] = value
+  }
+
+  if (params.model === "dall-e-3" && params.n !== 1) {
+    return { error: invalidRequest("Invalid 'n': dall-e-3 only supports n=1.", "n", "invalid_value") }
+  }
+  return { params }
+}
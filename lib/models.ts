@@ -0,0 +1,183 @@
+import { getCurrentPricing } from "./pricing"
+import { getProvider, ChatProvider } from "./providers"
+
+// Which endpoint a model serves; chat unless its route says otherwise
+export type ModelKind = "chat" | "embedding" | "image" | "transcription" | "speech"
+
+export interface ModelRoute {
+  provider: string;
+  // Deployment name for Azure, model name for every other provider
+  upstreamModel: string;
+  // Relative share of traffic; routes without weights are tried in order
+  weight?: number;
+  kind?: ModelKind;
+  // Chat models that accept image inputs
+  vision?: boolean;
+}
+
+export interface UpstreamTarget {
+  provider: ChatProvider;
+  upstreamModel: string;
+  weight?: number;
+}
+
+// Azure deployment backing each built-in model name. A model is only served
+// when its deployment env var is set.
+export const MODEL_DEPLOYMENTS: Record<string, string | undefined> = {
+  'gpt-4': process.env.AZURE_GPT4_DEPLOYMENT_NAME,
+  'gpt-4o-mini': process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+  'gpt-3.5-turbo': process.env.AZURE_GPT35_DEPLOYMENT_NAME,
+  'gpt-4o': process.env.AZURE_GPT4O_DEPLOYMENT_NAME,
+}
+
+// Azure deployment backing each built-in embedding model, served by /v1/embeddings
+export const EMBEDDING_DEPLOYMENTS: Record<string, string | undefined> = {
+  'text-embedding-3-small': process.env.AZURE_EMBEDDING_3_SMALL_DEPLOYMENT_NAME,
+  'text-embedding-3-large': process.env.AZURE_EMBEDDING_3_LARGE_DEPLOYMENT_NAME,
+  'text-embedding-ada-002': process.env.AZURE_ADA_002_DEPLOYMENT_NAME,
+}
+
+// Azure deployment backing each built-in image model, served by /v1/images/generations
+export const IMAGE_DEPLOYMENTS: Record<string, string | undefined> = {
+  'dall-e-3': process.env.AZURE_DALLE3_DEPLOYMENT_NAME,
+}
+
+// Azure deployments backing the built-in audio models, served by
+// /v1/audio/transcriptions and /v1/audio/speech
+export const TRANSCRIPTION_DEPLOYMENTS: Record<string, string | undefined> = {
+  'whisper-1': process.env.AZURE_WHISPER_DEPLOYMENT_NAME,
+}
+
+export const SPEECH_DEPLOYMENTS: Record<string, string | undefined> = {
+  'tts-1': process.env.AZURE_TTS_DEPLOYMENT_NAME,
+  'tts-1-hd': process.env.AZURE_TTS_HD_DEPLOYMENT_NAME,
+}
+
+// Built-in chat models that accept image_url content parts
+const VISION_MODELS = ['gpt-4o', 'gpt-4o-mini']
+
+function loadModelRoutes(): Record<string, ModelRoute[]> {
+  const routes: Record<string, ModelRoute[]> = {}
+
+  for (const [model, deployment] of Object.entries(MODEL_DEPLOYMENTS)) {
+    if (!deployment) continue
+    routes[model] = [{
+      provider: model === 'gpt-4o' ? "azure-gpt4o" : "azure",
+      upstreamModel: deployment
+    }]
+  }
+
+  const deploymentsByKind: [ModelKind, Record<string, string | undefined>][] = [
+    ["embedding", EMBEDDING_DEPLOYMENTS],
+    ["image", IMAGE_DEPLOYMENTS],
+    ["transcription", TRANSCRIPTION_DEPLOYMENTS],
+    ["speech", SPEECH_DEPLOYMENTS],
+  ]
+  for (const [kind, deployments] of deploymentsByKind) {
+    for (const [model, deployment] of Object.entries(deployments)) {
+      if (!deployment) continue
+      routes[model] = [{ provider: "azure", upstreamModel: deployment, kind }]
+    }
+  }
+
+  // Extra or overriding routes. A model maps to one route or to a list of
+  // deployments to fail over between, e.g.
+  // {"claude-3-5-sonnet": {"provider": "anthropic", "upstreamModel": "claude-3-5-sonnet-20241022"},
+  //  "gpt-4o": [{"provider": "azure-gpt4o", "upstreamModel": "gpt4o", "weight": 3},
+  //             {"provider": "azure-eastus2", "upstreamModel": "gpt4o", "weight": 1}],
+  //  "nomic-embed-text": {"provider": "local", "upstreamModel": "nomic-embed-text", "kind": "embedding"}}
+  // Routed models still need a pricing entry before they can be used.
+  if (process.env.MODEL_ROUTES) {
+    try {
+      const configured = JSON.parse(process.env.MODEL_ROUTES)
+      for (const [model, route] of Object.entries(configured)) {
+        routes[model] = Array.isArray(route) ? route : [route as ModelRoute]
+      }
+    } catch (error) {
+      console.error("Invalid MODEL_ROUTES configuration:", error)
+    }
+  }
+
+  return routes
+}
+
+export const MODEL_ROUTES = loadModelRoutes()
+
+/**
+ * Lists the deployments that can serve a public model name, in configured
+ * order. Routes whose provider is not configured are left out.
+ */
+export function resolveModel(model: string): UpstreamTarget[] {
+  const targets: UpstreamTarget[] = []
+  for (const route of MODEL_ROUTES[model] || []) {
+    const provider = getProvider(route.provider)
+    if (provider) targets.push({ provider, upstreamModel: route.upstreamModel, weight: route.weight })
+  }
+  return targets
+}
+
+export function getModelKind(model: string): ModelKind {
+  return MODEL_ROUTES[model]?.[0]?.kind ?? "chat"
+}
+
+export function supportsVision(model: string): boolean {
+  return VISION_MODELS.includes(model) || !!MODEL_ROUTES[model]?.[0]?.vision
+}
+
+// Static metadata reported by /v1/models
+const MODEL_INFO: Record<string, { created: number; contextWindow?: number; ownedBy: string }> = {
+  'gpt-3.5-turbo': { created: 1677610602, contextWindow: 16385, ownedBy: "openai" },
+  'gpt-4': { created: 1687882411, contextWindow: 8192, ownedBy: "openai" },
+  'gpt-4o': { created: 1715367049, contextWindow: 128000, ownedBy: "openai" },
+  'gpt-4o-mini': { created: 1721172741, contextWindow: 128000, ownedBy: "openai" },
+  'text-embedding-3-small': { created: 1705948997, contextWindow: 8191, ownedBy: "openai" },
+  'text-embedding-3-large': { created: 1705953180, contextWindow: 8191, ownedBy: "openai" },
+  'text-embedding-ada-002': { created: 1671217299, contextWindow: 8191, ownedBy: "openai" },
+  'dall-e-3': { created: 1698785189, ownedBy: "openai" },
+  'whisper-1': { created: 1677532384, ownedBy: "openai" },
+  'tts-1': { created: 1681940951, ownedBy: "openai" },
+  'tts-1-hd': { created: 1699046015, ownedBy: "openai" },
+}
+
+export interface ModelListing {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+  context_window: number | null;
+  pricing: {
+    input_per_1k: number;
+    output_per_1k: number;
+    cached_input_per_1k: number | null;
+    // Per-unit prices, e.g. per image by "quality:size"
+    unit_prices?: Record<string, number>;
+  };
+}
+
+/**
+ * Lists the models that are both routed and priced, in the OpenAI
+ * `/v1/models` format with our pricing attached
+ */
+export async function listAvailableModels(): Promise<ModelListing[]> {
+  const pricing = await getCurrentPricing()
+
+  return pricing
+    .filter(entry => !entry.disabled && resolveModel(entry.model).length)
+    .map(entry => {
+      const info = MODEL_INFO[entry.model]
+      return {
+        id: entry.model,
+        object: "model" as const,
+        created: info?.created ?? Math.floor(entry.effectiveFrom.getTime() / 1000),
+        owned_by: info?.ownedBy ?? "chargeai",
+        context_window: info?.contextWindow ?? null,
+        pricing: {
+          input_per_1k: entry.inputPer1K,
+          output_per_1k: entry.outputPer1K,
+          cached_input_per_1k: entry.cachedInputPer1K ?? null,
+          ...(entry.unitPrices && { unit_prices: entry.unitPrices })
+        }
+      }
+    })
+    .sort((a, b) => a.id.localeCompare(b.id))
+}
@@ -1,5 +1,7 @@
-import { MongoClient } from "mongodb"
+import { MongoClient, ClientSession } from "mongodb"
 import { ObjectId, WithId, Document } from 'mongodb'
+import type { CostBreakdown } from "./pricing"
+import type { AutoRechargeSettings } from "./auto-recharge"
 
 if (!process.env.MONGODB_URI) {
   throw new Error("Please add your Mongo URI to .env.local")
@@ -28,32 +30,158 @@ export async function connectToDatabase() {
   return db
 }
 
+/**
+ * Runs writes that must land together, such as a balance change and its
+ * ledger entry, in one transaction. The callback may be retried on transient
+ * errors, so it must only write through the session. Transactions need a
+ * replica set (Atlas, or a local single-node replica set in development).
+ */
+export async function withTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  const client = await clientPromise
+  const session = client.startSession()
+  try {
+    let result: T
+    await session.withTransaction(async () => {
+      result = await fn(session)
+    })
+    return result!
+  } finally {
+    await session.endSession()
+  }
+}
 
-interface WalletDocument {
+export interface WalletDocument {
   _id?: ObjectId;
   userId: string;
   balance: number;
+  reserved?: number;
+  // Rate limit tier, see lib/rate-limit.ts. Unset means the default tier.
+  plan?: string;
+  autoRecharge?: AutoRechargeSettings;
+  // Set by an admin; a suspended account's API keys stop working
+  suspendedAt?: Date | null;
+  suspendedReason?: string | null;
+}
+
+export type TransactionType =
+  | "charge"
+  | "topup"
+  | "refund"
+  | "reversal"
+  | "signup_grant"
+  | "adjustment"
+  // Written once per wallet by scripts/backfill-opening-balances.ts for the
+  // balance it held before every change was recorded in the ledger
+  | "opening_balance"
+
+export interface TransactionDetails {
+  model?: string;
+  tokens?: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+  requestId?: string;
+  apiKeyId?: string;
+  // Payments: the provider, its id for the money movement (PayPal capture,
+  // Stripe payment intent) and the checkout it came from
+  provider?: string;
+  externalId?: string;
+  orderId?: string;
+  currency?: string;
+  refundId?: string;
+  description?: string;
+  // The admin who made a manual adjustment
+  adminId?: string;
+  // The batch a Batch API request belonged to
+  batchId?: string;
+  // Itemized charge and the pricing entry it was computed from
+  breakdown?: CostBreakdown;
 }
 
-export async function createWallet(userId: string) {
+export interface TransactionDocument extends TransactionDetails {
+  _id?: ObjectId;
+  userId: string;
+  type: TransactionType;
+  // Signed: credits are positive, debits negative
+  amount: number;
+  balanceAfter: number;
+  createdAt: Date;
+}
+
+const SIGNUP_GRANT = 0.2
+
+export interface WalletBalanceChange {
+  userId: string;
+  type: TransactionType;
+  // Signed, as in the ledger
+  amount: number;
+  balance: number;
+  details: TransactionDetails;
+}
+
+type WalletBalanceHandler = (change: WalletBalanceChange) => void | Promise<void>
+
+const walletBalanceHandlers: WalletBalanceHandler[] = []
+
+/**
+ * Registers a callback run after every ledger-recorded balance change.
+ * Handlers run in the background; their failures are only logged.
+ */
+export function onWalletBalanceChange(handler: WalletBalanceHandler) {
+  walletBalanceHandlers.push(handler)
+}
+
+function notifyWalletBalanceChange(change: WalletBalanceChange) {
+  for (const handler of walletBalanceHandlers) {
+    Promise.resolve()
+      .then(() => handler(change))
+      .catch(error => console.error("Wallet balance handler failed:", error))
+  }
+}
+
+// The ledger is append-only: entries are never updated or deleted. Every
+// entry is written in the same transaction as the balance change it records,
+// so the sum of a user's entries equals their wallet balance (wallets older
+// than the ledger get an opening_balance entry from the backfill script).
+async function recordTransaction(
+  session: ClientSession,
+  userId: string,
+  type: TransactionType,
+  amount: number,
+  balanceAfter: number,
+  details: TransactionDetails = {}
+) {
   const db = await connectToDatabase()
-  const wallets = db.collection<WalletDocument>("wallets")
-  const wallet: WalletDocument = {
+  const transactions = db.collection<TransactionDocument>("transactions")
+  const transaction: TransactionDocument = {
     userId,
-    balance: 0.2
+    type,
+    amount,
+    balanceAfter,
+    ...details,
+    createdAt: new Date()
   }
-  const result = await wallets.insertOne(wallet)
-  return { ...wallet, _id: result.insertedId }
+  const result = await transactions.insertOne(transaction, { session })
+  return { ...transaction, _id: result.insertedId }
 }
 
-export async function getWalletByApiKey(apiKey: string) {
+export async function createWallet(userId: string, options: { signupGrant?: boolean } = {}) {
   const db = await connectToDatabase()
-  const apiKeys = db.collection("apiKeys")
-  const key = await apiKeys.findOne({ key: apiKey })
-  if (!key) return null
-
-  const wallets = db.collection("wallets")
-  return await wallets.findOne({ userId: key.userId })
+  const wallets = db.collection<WalletDocument>("wallets")
+  const grant = options.signupGrant === false ? 0 : SIGNUP_GRANT
+  const wallet: WalletDocument = {
+    userId,
+    balance: grant
+  }
+  const insertedId = await withTransaction(async session => {
+    const result = await wallets.insertOne(wallet, { session })
+    if (grant) {
+      await recordTransaction(session, userId, "signup_grant", grant, grant)
+    }
+    return result.insertedId
+  })
+  return { ...wallet, _id: insertedId }
 }
 
 export async function getWallet(userId: string) {
@@ -62,16 +190,335 @@ export async function getWallet(userId: string) {
   return await wallets.findOne({ userId })
 }
 
-// lib/mongodb.ts - Update the function signature
-export async function updateWalletBalance(userId: string, amount: number) {
+// Extra writes committed in the same transaction as an update, given the
+// updated document
+export type UpdateWriter<T> = (session: ClientSession, updated: T) => Promise<void>
+
+/**
+ * Adds `amount` to the wallet and records it in the ledger. `onUpdate` runs in
+ * the same transaction, so a record that must only exist alongside the
+ * balance change (e.g. the credited payment) commits or aborts with it.
+ */
+export async function updateWalletBalance(
+  userId: string,
+  amount: number,
+  type: TransactionType,
+  details: TransactionDetails = {},
+  options: { onUpdate?: UpdateWriter<WalletDocument> } = {}
+) {
+  const db = await connectToDatabase()
+  const wallets = db.collection<WalletDocument>("wallets")
+  const wallet = await withTransaction(async session => {
+    const result = await wallets.findOneAndUpdate(
+      { userId },
+      {
+        $inc: { balance: amount }
+      },
+      { returnDocument: "after", session }
+    )
+    if (result.value) {
+      await recordTransaction(session, userId, type, amount, result.value.balance, details)
+      await options.onUpdate?.(session, result.value)
+    }
+    return result.value
+  })
+  if (wallet) {
+    notifyWalletBalanceChange({ userId, type, amount, balance: wallet.balance, details })
+  }
+  return wallet
+}
+
+/**
+ * Lists a user's ledger entries, newest first
+ * @param {string} cursor - The id of the last entry of the previous page
+ */
+export async function getTransactions(
+  userId: string,
+  options: {
+    cursor?: string;
+    limit: number;
+    types?: TransactionType[];
+    from?: Date;
+    to?: Date;
+  }
+) {
+  const db = await connectToDatabase()
+  const transactions = db.collection<TransactionDocument>("transactions")
+
+  const filter: Record<string, any> = { userId }
+  if (options.cursor) filter._id = { $lt: new ObjectId(options.cursor) }
+  if (options.types?.length) filter.type = { $in: options.types }
+  if (options.from || options.to) {
+    filter.createdAt = {}
+    if (options.from) filter.createdAt.$gte = options.from
+    if (options.to) filter.createdAt.$lt = options.to
+  }
+
+  // Fetch one extra entry to know whether another page exists
+  const entries = await transactions
+    .find(filter)
+    .sort({ _id: -1 })
+    .limit(options.limit + 1)
+    .toArray()
+
+  const hasMore = entries.length > options.limit
+  const data = entries.slice(0, options.limit)
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? data[data.length - 1]._id.toString() : null
+  }
+}
+
+/**
+ * Recomputes a balance from the ledger alone
+ */
+export async function getLedgerBalance(userId: string): Promise<number> {
+  const db = await connectToDatabase()
+  const transactions = db.collection<TransactionDocument>("transactions")
+  const [result] = await transactions
+    .aggregate([
+      { $match: { userId } },
+      { $group: { _id: null, balance: { $sum: "$amount" } } }
+    ])
+    .toArray()
+  return result?.balance ?? 0
+}
+
+// Holds older than this are considered abandoned (crashed process, lost
+// socket) and are released the next time the wallet is reserved against
+export const WALLET_HOLD_TTL = 10 * 60 // 10 minutes
+
+interface WalletHoldDocument {
+  _id?: ObjectId;
+  userId: string;
+  amount: number;
+  status: "pending" | "settled" | "released";
+  apiKeyId?: string;
+  model?: string;
+  // The part of the hold also reserved against the key's hard spend limits
+  // (lib/spend-limits.ts), given back as the hold is charged or released
+  apiKeyReserved?: number;
+  createdAt: Date;
+  expiresAt: Date;
+  settledAt?: Date;
+  cost?: number;
+}
+
+// Extra writes committed in the same transaction as a charge, such as the
+// key's spend totals
+type ChargeWriter = (session: ClientSession) => Promise<void>
+
+async function releaseApiKeyReservation(session: ClientSession, apiKeyId: string | undefined, amount: number) {
+  if (!apiKeyId || amount <= 0) return
   const db = await connectToDatabase()
-  const wallets = db.collection("wallets")
-  const result = await wallets.findOneAndUpdate(
-    { userId },
-    {
-      $inc: { balance: amount }
-    },
-    { returnDocument: "after" }
+  await db.collection("apiKeys").updateOne(
+    { _id: new ObjectId(apiKeyId) },
+    { $inc: { reservedSpend: -amount } },
+    { session }
   )
-  return result.value
+}
+
+/**
+ * Releases the user's holds that outlived their TTL. Each release is its own
+ * transaction, so this must not run inside another one.
+ */
+export async function releaseExpiredHolds(userId: string) {
+  const db = await connectToDatabase()
+  const holds = db.collection<WalletHoldDocument>("walletHolds")
+  const expired = await holds
+    .find({ userId, status: "pending", expiresAt: { $lte: new Date() } })
+    .toArray()
+
+  for (const hold of expired) {
+    await releaseWalletHold(hold._id!.toString())
+  }
+}
+
+/**
+ * Atomically places a hold on the wallet if the available balance
+ * (balance minus outstanding holds) covers the amount
+ * @param {number} ttl - Seconds until the hold is considered abandoned
+ * @param {ClientSession} session - A transaction to place the hold in, when
+ * the caller reserves other things with it. The caller must then release
+ * expired holds before starting it.
+ * @returns {Promise<string | null>} The hold id, or null if funds are insufficient
+ */
+export async function reserveWalletFunds(
+  userId: string,
+  amount: number,
+  meta: { apiKeyId?: string; model?: string; apiKeyReserved?: number } = {},
+  ttl: number = WALLET_HOLD_TTL,
+  session?: ClientSession
+): Promise<string | null> {
+  if (!session) await releaseExpiredHolds(userId)
+
+  const db = await connectToDatabase()
+  const wallets = db.collection<WalletDocument>("wallets")
+  const holds = db.collection<WalletHoldDocument>("walletHolds")
+
+  const now = new Date()
+  const hold: WalletHoldDocument = {
+    userId,
+    amount,
+    status: "pending",
+    ...meta,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ttl * 1000)
+  }
+
+  const place = async (session: ClientSession) => {
+    const result = await wallets.findOneAndUpdate(
+      {
+        userId,
+        $expr: {
+          $gte: [{ $subtract: ["$balance", { $ifNull: ["$reserved", 0] }] }, amount]
+        }
+      },
+      { $inc: { reserved: amount } },
+      { session }
+    )
+    if (!result.value) return null
+
+    const inserted = await holds.insertOne({ ...hold }, { session })
+    return inserted.insertedId.toString()
+  }
+  return session ? place(session) : withTransaction(place)
+}
+
+/**
+ * Converts a pending hold into a charge of the actual cost and records it in
+ * the ledger. Settling an already settled or released hold is a no-op and
+ * returns null, unless `allowReleased` is set: the outbox replays charges for
+ * holds that expired while Mongo was unreachable. `onCharge` runs in the
+ * same transaction as the charge.
+ */
+export async function settleWalletHold(
+  holdId: string,
+  cost: number,
+  details: TransactionDetails = {},
+  options: { allowReleased?: boolean; onCharge?: ChargeWriter } = {}
+) {
+  const db = await connectToDatabase()
+  const holds = db.collection<WalletHoldDocument>("walletHolds")
+  const wallets = db.collection<WalletDocument>("wallets")
+
+  const claimable = options.allowReleased ? ["pending", "released"] : ["pending"]
+  const settled = await withTransaction(async session => {
+    const claimed = await holds.findOneAndUpdate(
+      { _id: new ObjectId(holdId), status: { $in: claimable as WalletHoldDocument["status"][] } },
+      { $set: { status: "settled", settledAt: new Date(), cost } },
+      { session }
+    )
+    const hold = claimed.value
+    if (!hold) return null
+
+    // A released hold no longer counts towards the reserved amounts
+    const pending = hold.status === "pending"
+    const result = await wallets.findOneAndUpdate(
+      { userId: hold.userId },
+      { $inc: { balance: -cost, reserved: pending ? -hold.amount : 0 } },
+      { returnDocument: "after", session }
+    )
+    if (!result.value) return null
+
+    const charge: TransactionDetails = { apiKeyId: hold.apiKeyId, model: hold.model, ...details }
+    await recordTransaction(session, hold.userId, "charge", -cost, result.value.balance, charge)
+    await releaseApiKeyReservation(session, hold.apiKeyId, pending ? hold.apiKeyReserved ?? 0 : 0)
+    await options.onCharge?.(session)
+    return { wallet: result.value, charge }
+  })
+  if (!settled) return null
+
+  notifyWalletBalanceChange({
+    userId: settled.wallet.userId,
+    type: "charge",
+    amount: -cost,
+    balance: settled.wallet.balance,
+    details: settled.charge
+  })
+  return settled.wallet
+}
+
+/**
+ * Charges part of a hold that covers many requests, such as a batch. The
+ * hold shrinks by the amount charged and stays pending until it is released.
+ * A hold that is no longer pending is still charged, against the balance alone.
+ * `onCharge` runs in the same transaction as the charge.
+ */
+export async function chargeWalletHold(
+  holdId: string,
+  userId: string,
+  cost: number,
+  details: TransactionDetails = {},
+  options: { onCharge?: ChargeWriter } = {}
+) {
+  const db = await connectToDatabase()
+  const holds = db.collection<WalletHoldDocument>("walletHolds")
+  const wallets = db.collection<WalletDocument>("wallets")
+
+  const wallet = await withTransaction(async session => {
+    const claimed = await holds.findOneAndUpdate(
+      { _id: new ObjectId(holdId), status: "pending" },
+      [{
+        $set: {
+          amount: { $max: [0, { $subtract: ["$amount", cost] }] },
+          apiKeyReserved: { $max: [0, { $subtract: [{ $ifNull: ["$apiKeyReserved", 0] }, cost] }] },
+          cost: { $add: [{ $ifNull: ["$cost", 0] }, cost] }
+        }
+      }],
+      { session }
+    )
+    const hold = claimed.value
+    const reservedAmount = hold ? Math.min(cost, hold.amount) : 0
+
+    const result = await wallets.findOneAndUpdate(
+      { userId },
+      { $inc: { balance: -cost, reserved: -reservedAmount } },
+      { returnDocument: "after", session }
+    )
+    if (result.value) {
+      await recordTransaction(session, userId, "charge", -cost, result.value.balance, details)
+      await releaseApiKeyReservation(session, hold?.apiKeyId, Math.min(cost, hold?.apiKeyReserved ?? 0))
+      await options.onCharge?.(session)
+    }
+    return result.value
+  })
+  if (wallet) {
+    notifyWalletBalanceChange({
+      userId,
+      type: "charge",
+      amount: -cost,
+      balance: wallet.balance,
+      details
+    })
+  }
+  return wallet
+}
+
+/**
+ * Drops a pending hold without charging anything
+ */
+export async function releaseWalletHold(holdId: string) {
+  const db = await connectToDatabase()
+  const holds = db.collection<WalletHoldDocument>("walletHolds")
+  const wallets = db.collection<WalletDocument>("wallets")
+
+  return withTransaction(async session => {
+    const claimed = await holds.findOneAndUpdate(
+      { _id: new ObjectId(holdId), status: "pending" },
+      { $set: { status: "released", settledAt: new Date() } },
+      { session }
+    )
+    const hold = claimed.value
+    if (!hold) return null
+
+    const result = await wallets.findOneAndUpdate(
+      { userId: hold.userId },
+      { $inc: { reserved: -hold.amount } },
+      { returnDocument: "after", session }
+    )
+    await releaseApiKeyReservation(session, hold.apiKeyId, hold.apiKeyReserved ?? 0)
+    return result.value
+  })
 }
@@ -0,0 +1,359 @@
+import crypto from "crypto"
+import { ObjectId } from "mongodb"
+import { connectToDatabase, createWallet } from "./mongodb"
+import { ApiKeyDocument, invalidateApiKeyCache } from "./api-keys"
+
+// Organizations share one wallet between their members. Everything that is
+// owned by a wallet (the wallet itself, API keys, the ledger, usage, alerts)
+// is keyed by an account id: a Firebase uid for personal accounts, and
+// `org:<organization id>` for organizations. uids never contain a colon, so
+// the two cannot collide.
+export type OrgRole = "owner" | "admin" | "billing" | "member"
+
+export const ORG_ROLES: OrgRole[] = ["owner", "admin", "billing", "member"]
+
+export type Permission =
+  // See the balance
+  | "wallet:read"
+  // See transactions, usage, auto-recharge and alert settings
+  | "billing:read"
+  // Top up, and change auto-recharge and alert settings
+  | "billing:manage"
+  // Create keys, and manage the keys you created
+  | "keys:create"
+  // Manage every key of the account
+  | "keys:manage"
+  | "members:manage"
+  | "org:manage"
+
+const ROLE_PERMISSIONS: Record<OrgRole, Permission[]> = {
+  owner: ["wallet:read", "billing:read", "billing:manage", "keys:create", "keys:manage", "members:manage", "org:manage"],
+  admin: ["wallet:read", "billing:read", "keys:create", "keys:manage", "members:manage"],
+  billing: ["wallet:read", "billing:read", "billing:manage"],
+  member: ["wallet:read", "keys:create"]
+}
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 // 7 days
+
+export interface OrganizationDocument {
+  _id?: ObjectId;
+  name: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface MembershipDocument {
+  _id?: ObjectId;
+  orgId: string;
+  userId: string;
+  role: OrgRole;
+  invitedBy?: string;
+  createdAt: Date;
+}
+
+export interface InvitationDocument {
+  _id?: ObjectId;
+  orgId: string;
+  email: string;
+  role: OrgRole;
+  tokenHash: string;
+  invitedBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+}
+
+// Who a dashboard request acts for
+export interface AccountContext {
+  // The account id that owns the wallet and keys
+  id: string;
+  type: "personal" | "organization";
+  // The signed-in user
+  uid: string;
+  orgId?: string;
+  role?: OrgRole;
+}
+
+export const orgAccountId = (orgId: string) => `org:${orgId}`
+
+export function personalContext(uid: string): AccountContext {
+  return { id: uid, type: "personal", uid }
+}
+
+export function hasPermission(account: AccountContext, permission: Permission): boolean {
+  // Personal accounts can do everything with their own wallet
+  if (account.type === "personal") return true
+  return ROLE_PERMISSIONS[account.role!].includes(permission)
+}
+
+/**
+ * Filter for the API keys the caller may manage: every key of the account,
+ * or only the ones they created if they may not manage others' keys
+ */
+export function apiKeyFilter(account: AccountContext): { userId: string; createdBy?: string } {
+  return hasPermission(account, "keys:manage")
+    ? { userId: account.id }
+    : { userId: account.id, createdBy: account.uid }
+}
+
+let indexesCreated = false
+
+async function getCollections() {
+  const db = await connectToDatabase()
+  const organizations = db.collection<OrganizationDocument>("organizations")
+  const memberships = db.collection<MembershipDocument>("memberships")
+  const invitations = db.collection<InvitationDocument>("invitations")
+
+  if (!indexesCreated) {
+    await Promise.all([
+      memberships.createIndex({ orgId: 1, userId: 1 }, { unique: true }),
+      memberships.createIndex({ userId: 1 }),
+      invitations.createIndex({ tokenHash: 1 }, { unique: true }),
+      invitations.createIndex({ orgId: 1, email: 1 }),
+      invitations.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    ])
+    indexesCreated = true
+  }
+  return { organizations, memberships, invitations }
+}
+
+/**
+ * Resolves the organization a dashboard request is made for
+ * @returns {Promise<AccountContext | null>} null if the user is not a member
+ */
+export async function getOrgContext(uid: string, orgId: string): Promise<AccountContext | null> {
+  if (!ObjectId.isValid(orgId)) return null
+
+  const { memberships } = await getCollections()
+  const membership = await memberships.findOne({ orgId, userId: uid })
+  if (!membership) return null
+
+  return { id: orgAccountId(orgId), type: "organization", uid, orgId, role: membership.role }
+}
+
+/**
+ * Creates an organization with the creator as its owner, and its wallet.
+ * Organization wallets start empty; only personal accounts get the signup grant.
+ */
+export async function createOrganization(uid: string, name: string) {
+  const { organizations, memberships } = await getCollections()
+  const now = new Date()
+
+  const org: OrganizationDocument = { name, createdBy: uid, createdAt: now }
+  const { insertedId } = await organizations.insertOne(org)
+  const orgId = insertedId.toString()
+
+  await memberships.insertOne({ orgId, userId: uid, role: "owner", createdAt: now })
+  await createWallet(orgAccountId(orgId), { signupGrant: false })
+  return { ...org, _id: insertedId }
+}
+
+/**
+ * The organizations a user belongs to, with their role in each
+ */
+export async function listOrganizations(uid: string) {
+  const { organizations, memberships } = await getCollections()
+  const owned = await memberships.find({ userId: uid }).toArray()
+  const orgs = await organizations
+    .find({ _id: { $in: owned.map(membership => new ObjectId(membership.orgId)) } })
+    .toArray()
+
+  const roles = new Map(owned.map(membership => [membership.orgId, membership.role]))
+  return orgs.map(org => ({
+    id: org._id.toString(),
+    name: org.name,
+    role: roles.get(org._id.toString())!,
+    createdAt: org.createdAt
+  }))
+}
+
+export async function getOrganization(orgId: string) {
+  const { organizations, memberships } = await getCollections()
+  const org = await organizations.findOne({ _id: new ObjectId(orgId) })
+  if (!org) return null
+
+  const members = await memberships.find({ orgId }).sort({ createdAt: 1 }).toArray()
+  return {
+    id: orgId,
+    name: org.name,
+    createdBy: org.createdBy,
+    createdAt: org.createdAt,
+    members: members.map(member => ({
+      userId: member.userId,
+      role: member.role,
+      invitedBy: member.invitedBy ?? null,
+      createdAt: member.createdAt
+    }))
+  }
+}
+
+export async function renameOrganization(orgId: string, name: string) {
+  const { organizations } = await getCollections()
+  await organizations.updateOne({ _id: new ObjectId(orgId) }, { $set: { name } })
+}
+
+const hashInvitationToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex")
+
+/**
+ * Invites an email address to the organization
+ * @returns The invitation and its token, which is only ever returned here
+ */
+export async function createInvitation(orgId: string, email: string, role: OrgRole, invitedBy: string) {
+  const { invitations } = await getCollections()
+  const token = crypto.randomBytes(24).toString("base64url")
+  const now = new Date()
+
+  const invitation: InvitationDocument = {
+    orgId,
+    email: email.toLowerCase(),
+    role,
+    tokenHash: hashInvitationToken(token),
+    invitedBy,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + INVITATION_TTL * 1000)
+  }
+  const { insertedId } = await invitations.insertOne(invitation)
+  return { invitation: { ...invitation, _id: insertedId }, token }
+}
+
+export function serializeInvitation(invitation: InvitationDocument & { _id: ObjectId }) {
+  return {
+    id: invitation._id.toString(),
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt
+  }
+}
+
+export async function listInvitations(orgId: string) {
+  const { invitations } = await getCollections()
+  const pending = await invitations
+    .find({ orgId, acceptedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+    .sort({ createdAt: -1 })
+    .toArray()
+  return pending.map(serializeInvitation)
+}
+
+export async function revokeInvitation(orgId: string, invitationId: string) {
+  const { invitations } = await getCollections()
+  const result = await invitations.deleteOne({
+    _id: new ObjectId(invitationId),
+    orgId,
+    acceptedAt: { $exists: false }
+  })
+  return result.deletedCount > 0
+}
+
+/**
+ * Joins the organization an invitation is for. The invitation must be
+ * addressed to the signed-in user's email, and that email verified.
+ * @returns {Promise<{ orgId: string, role: OrgRole } | { error: string }>}
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { uid: string; email?: string; emailVerified?: boolean }
+): Promise<{ orgId: string; role: OrgRole } | { error: string }> {
+  const { invitations, memberships } = await getCollections()
+  const invitation = await invitations.findOne({ tokenHash: hashInvitationToken(token) })
+
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+    return { error: "Invitation not found or expired" }
+  }
+  if (!user.email || user.email.toLowerCase() !== invitation.email) {
+    return { error: "This invitation was sent to a different email address" }
+  }
+  // Anyone can sign up with an unverified address they do not own
+  if (!user.emailVerified) {
+    return { error: "Verify your email address to accept this invitation" }
+  }
+
+  // Claim the invitation so it cannot be used twice
+  const claimed = await invitations.updateOne(
+    { _id: invitation._id, acceptedAt: { $exists: false } },
+    { $set: { acceptedAt: new Date(), acceptedBy: user.uid } }
+  )
+  if (!claimed.modifiedCount) return { error: "Invitation not found or expired" }
+
+  // Existing members keep their role
+  await memberships.updateOne(
+    { orgId: invitation.orgId, userId: user.uid },
+    {
+      $setOnInsert: {
+        role: invitation.role,
+        invitedBy: invitation.invitedBy,
+        createdAt: new Date()
+      }
+    },
+    { upsert: true }
+  )
+  const membership = await memberships.findOne({ orgId: invitation.orgId, userId: user.uid })
+  return { orgId: invitation.orgId, role: membership!.role }
+}
+
+async function countOwners(orgId: string) {
+  const { memberships } = await getCollections()
+  return memberships.countDocuments({ orgId, role: "owner" })
+}
+
+/**
+ * Changes a member's role. Only owners may grant or take away the owner
+ * role, and the last owner cannot be demoted.
+ */
+export async function updateMemberRole(
+  account: AccountContext,
+  userId: string,
+  role: OrgRole
+): Promise<{ error: string; status: number } | null> {
+  const { memberships } = await getCollections()
+  const member = await memberships.findOne({ orgId: account.orgId!, userId })
+  if (!member) return { error: "Member not found", status: 404 }
+
+  if ((role === "owner" || member.role === "owner") && account.role !== "owner") {
+    return { error: "Only owners can change the owner role", status: 403 }
+  }
+  if (member.role === "owner" && role !== "owner" && (await countOwners(account.orgId!)) <= 1) {
+    return { error: "An organization needs at least one owner", status: 400 }
+  }
+
+  await memberships.updateOne({ _id: member._id }, { $set: { role } })
+  return null
+}
+
+/**
+ * Removes a member, or lets a member leave. The last owner cannot leave.
+ * Keys the member created for the organization are deleted with them, so
+ * they cannot keep spending from its wallet.
+ */
+export async function removeMember(
+  account: AccountContext,
+  userId: string
+): Promise<{ error: string; status: number } | null> {
+  const { memberships } = await getCollections()
+  const member = await memberships.findOne({ orgId: account.orgId!, userId })
+  if (!member) return { error: "Member not found", status: 404 }
+
+  const leaving = userId === account.uid
+  if (!leaving && !hasPermission(account, "members:manage")) {
+    return { error: "Your role in this organization does not allow this", status: 403 }
+  }
+  if (!leaving && member.role === "owner" && account.role !== "owner") {
+    return { error: "Only owners can remove an owner", status: 403 }
+  }
+  if (member.role === "owner" && (await countOwners(account.orgId!)) <= 1) {
+    return { error: "An organization needs at least one owner", status: 400 }
+  }
+
+  await memberships.deleteOne({ _id: member._id })
+
+  const db = await connectToDatabase()
+  const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+  const keys = await apiKeys.find({ userId: account.id, createdBy: userId }).toArray()
+  if (keys.length) {
+    await apiKeys.deleteMany({ _id: { $in: keys.map(key => key._id) } })
+    await Promise.all(keys.map(key => invalidateApiKeyCache(key.keyHash)))
+  }
+  return null
+}
@@ -0,0 +1,113 @@
+import crypto from "crypto"
+import { WithId } from "mongodb"
+import { redis } from "./redis"
+import { settleWalletHold, TransactionDetails } from "./mongodb"
+import { afterApiKeySpend, recordApiKeySpend } from "./spend-limits"
+import { ApiKeyDocument } from "./api-keys"
+
+// Wallet writes that failed against Mongo are parked in Redis and replayed by
+// the reconciler. Entries move to the processing list while being applied so
+// a crash mid-replay does not lose them.
+const OUTBOX_KEY = "outbox:wallet"
+const PROCESSING_KEY = "outbox:wallet:processing"
+const DEAD_LETTER_KEY = "outbox:wallet:dead"
+const MAX_ATTEMPTS = 10
+
+export interface OutboxEntry {
+  id: string;
+  op: "settle";
+  holdId: string;
+  userId: string;
+  cost: number;
+  details: TransactionDetails;
+  attempts: number;
+  createdAt: string;
+  lastError?: string;
+}
+
+export async function enqueueWalletSettlement(
+  holdId: string,
+  userId: string,
+  cost: number,
+  details: TransactionDetails
+) {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    op: "settle",
+    holdId,
+    userId,
+    cost,
+    details,
+    attempts: 0,
+    createdAt: new Date().toISOString()
+  }
+  await redis.lpush(OUTBOX_KEY, JSON.stringify(entry))
+  return entry
+}
+
+/**
+ * Replays queued wallet writes against Mongo
+ * @returns {Promise<{ applied: OutboxEntry[], failed: OutboxEntry[], deadLettered: OutboxEntry[] }>}
+ */
+export async function drainOutbox(maxEntries = 500) {
+  const applied: OutboxEntry[] = []
+  const failed: OutboxEntry[] = []
+  const deadLettered: OutboxEntry[] = []
+
+  // Entries left behind by a replay that crashed go back to the queue first
+  while (await redis.rpoplpush(PROCESSING_KEY, OUTBOX_KEY)) {}
+
+  const requeue: { raw: string; retry: OutboxEntry }[] = []
+
+  for (let i = 0; i < maxEntries; i++) {
+    const raw = await redis.rpoplpush(OUTBOX_KEY, PROCESSING_KEY)
+    if (!raw) break
+
+    const entry: OutboxEntry = JSON.parse(raw)
+    try {
+      // The hold may have expired while Mongo was down, so released holds
+      // are charged as well. Already settled holds are skipped.
+      // Spend is counted against the key only once the charge lands
+      const apiKeyId = entry.details.apiKeyId
+      const recorded: { key: WithId<ApiKeyDocument> | null } = { key: null }
+      await settleWalletHold(entry.holdId, entry.cost, entry.details, {
+        allowReleased: true,
+        onCharge: async session => {
+          if (apiKeyId) recorded.key = await recordApiKeySpend(apiKeyId, entry.cost, session)
+        }
+      })
+      applied.push(entry)
+      await redis.lrem(PROCESSING_KEY, 1, raw)
+
+      if (recorded.key) {
+        await afterApiKeySpend(recorded.key, entry.cost).catch(error => {
+          console.error("Failed to process API key spend:", error)
+        })
+      }
+    } catch (error) {
+      requeue.push({
+        raw,
+        retry: {
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error)
+        }
+      })
+    }
+  }
+
+  // Failed entries are re-queued only after the pass so one run never
+  // retries the same entry twice
+  for (const { raw, retry } of requeue) {
+    if (retry.attempts >= MAX_ATTEMPTS) {
+      await redis.lpush(DEAD_LETTER_KEY, JSON.stringify(retry))
+      deadLettered.push(retry)
+    } else {
+      await redis.lpush(OUTBOX_KEY, JSON.stringify(retry))
+      failed.push(retry)
+    }
+    await redis.lrem(PROCESSING_KEY, 1, raw)
+  }
+
+  return { applied, failed, deadLettered }
+}
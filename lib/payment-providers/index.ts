@@ -0,0 +1,46 @@
+import { PaymentProvider } from "./types"
+import { createPayPalProvider } from "./paypal"
+import { createStripeProvider } from "./stripe"
+import { createTestProvider } from "./test"
+
+export type { PaymentProvider, PaymentEvent, PendingCharge, CheckoutSession } from "./types"
+export { PaymentDeclinedError } from "./types"
+
+// Providers are registered only when their credentials are configured
+const providers: Record<string, PaymentProvider> = {}
+
+function register(provider: PaymentProvider) {
+  providers[provider.name] = provider
+}
+
+if (process.env.PAYPAL_CLIENT_ID && process.env.PAYPAL_SECRET) {
+  register(createPayPalProvider("paypal", {
+    apiUrl: process.env.PAYPAL_API_URL || "https://api-m.paypal.com",
+    clientId: process.env.PAYPAL_CLIENT_ID,
+    secret: process.env.PAYPAL_SECRET,
+    webhookId: process.env.PAYPAL_WEBHOOK_ID,
+  }))
+}
+
+if (process.env.STRIPE_SECRET_KEY) {
+  register(createStripeProvider("stripe", {
+    secretKey: process.env.STRIPE_SECRET_KEY,
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+  }))
+}
+
+// Credits wallets without real money, so it can never run in production
+if (process.env.PAYMENTS_TEST_MODE === "true" && process.env.NODE_ENV !== "production") {
+  register(createTestProvider("test", {
+    baseUrl: process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}`,
+    webhookSecret: process.env.TEST_PAYMENTS_WEBHOOK_SECRET || "test_webhook_secret",
+  }))
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return providers[name]
+}
+
+export function listPaymentProviders(): string[] {
+  return Object.keys(providers)
+}
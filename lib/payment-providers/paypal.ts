@@ -0,0 +1,230 @@
+import { PaymentProvider, PaymentEvent, PaymentDeclinedError } from "./types"
+
+// Verification against PayPal can be replaced by a stub for local testing,
+// where PayPal cannot reach the webhook. Never honoured in production.
+const VERIFICATION_STUB =
+  process.env.PAYPAL_WEBHOOK_VERIFICATION === "stub" && process.env.NODE_ENV !== "production"
+
+interface PayPalConfig {
+  apiUrl: string;
+  clientId: string;
+  secret: string;
+  webhookId?: string;
+}
+
+/**
+ * The capture a refund or reversal belongs to, from its "up" link
+ */
+function getRelatedCaptureId(resource: any): string | null {
+  const up = (resource?.links || []).find((link: any) => link.rel === 'up')
+  const match = up?.href?.match(/\/captures\/([^/]+)$/)
+  return match ? match[1] : null
+}
+
+export function createPayPalProvider(name: string, config: PayPalConfig): PaymentProvider {
+  async function getAccessToken(): Promise<string> {
+    const auth = Buffer.from(`${config.clientId}:${config.secret}`).toString('base64')
+
+    const response = await fetch(`${config.apiUrl}/v1/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: 'grant_type=client_credentials',
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to get PayPal access token')
+    }
+
+    const data = await response.json()
+    return data.access_token
+  }
+
+  async function request(method: string, path: string, body?: any, requestId?: string) {
+    const accessToken = await getAccessToken()
+    const response = await fetch(`${config.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...(requestId ? { 'PayPal-Request-Id': requestId } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    if (!response.ok) {
+      const error = new Error(`PayPal ${method} ${path} failed: ${response.status} ${await response.text()}`)
+      throw Object.assign(error, { status: response.status })
+    }
+    return response.json()
+  }
+
+  return {
+    name,
+
+    async createCheckout(userId, amount, currency, urls) {
+      const order = await request('POST', '/v2/checkout/orders', {
+        intent: 'CAPTURE',
+        purchase_units: [{
+          amount: { currency_code: currency, value: amount.toFixed(2) },
+          custom_id: userId,
+        }],
+        application_context: {
+          return_url: urls.successUrl,
+          cancel_url: urls.cancelUrl,
+        },
+      })
+      const approve = (order.links || []).find((link: any) => link.rel === 'approve')
+      return { id: order.id, url: approve?.href || null }
+    },
+
+    async confirmCheckout(orderId) {
+      const order = await request('GET', `/v2/checkout/orders/${orderId}`)
+      if (order.status !== 'COMPLETED') return null
+
+      const purchaseUnit = order.purchase_units[0]
+      return {
+        type: "completed",
+        userId: purchaseUnit.custom_id || "",
+        amount: Number(purchaseUnit.amount.value),
+        currency: purchaseUnit.amount.currency_code,
+        // The order id still deduplicates against the webhook if there is no capture
+        externalId: purchaseUnit.payments?.captures?.[0]?.id || orderId,
+        orderId,
+      }
+    },
+
+    async verifyWebhook(headers, rawBody, event) {
+      if (VERIFICATION_STUB) {
+        console.warn("PayPal webhook signature verification is stubbed")
+        return { id: event.id, type: event.event_type, payload: event }
+      }
+
+      if (!config.webhookId) {
+        console.error("PAYPAL_WEBHOOK_ID is not set, rejecting webhook")
+        return null
+      }
+
+      const transmission = {
+        auth_algo: headers['paypal-auth-algo'],
+        cert_url: headers['paypal-cert-url'],
+        transmission_id: headers['paypal-transmission-id'],
+        transmission_sig: headers['paypal-transmission-sig'],
+        transmission_time: headers['paypal-transmission-time'],
+      }
+      if (Object.values(transmission).some(value => !value)) return null
+
+      const result = await request('POST', '/v1/notifications/verify-webhook-signature', {
+        ...transmission,
+        webhook_id: config.webhookId,
+        webhook_event: event,
+      })
+      if (result.verification_status !== 'SUCCESS') return null
+
+      return { id: event.id, type: event.event_type, payload: event }
+    },
+
+    parseWebhook(event) {
+      const resource = event.resource
+
+      switch (event.event_type) {
+        case 'PAYMENT.CAPTURE.COMPLETED': {
+          const userId = resource.custom_id // You'll need to pass this in your frontend
+          if (!userId) throw new Error(`Capture ${resource.id} has no custom_id`)
+
+          return [{
+            type: "completed",
+            userId,
+            amount: Number(resource.amount.value),
+            currency: resource.amount.currency_code,
+            externalId: resource.id,
+            orderId: resource.supplementary_data?.related_ids?.order_id,
+          }]
+        }
+
+        // Only matters if the capture was credited before it was denied
+        case 'PAYMENT.CAPTURE.DENIED':
+          return [{ type: "adjusted", externalId: resource.id, adjustment: { id: resource.id, type: "denial" } }]
+
+        // The resource is the refund; the user comes from the credited
+        // capture, never from the event itself
+        case 'PAYMENT.CAPTURE.REFUNDED':
+        case 'PAYMENT.CAPTURE.REVERSED': {
+          const captureId = getRelatedCaptureId(resource)
+          if (!captureId) throw new Error(`Refund ${resource.id} has no related capture`)
+
+          return [{
+            type: "adjusted",
+            externalId: captureId,
+            adjustment: {
+              id: resource.id,
+              type: event.event_type === 'PAYMENT.CAPTURE.REFUNDED' ? "refund" : "reversal",
+              amount: Number(resource.amount.value),
+            },
+          }] as PaymentEvent[]
+        }
+
+        default:
+          return []
+      }
+    },
+
+    async refund(captureId, amount, currency) {
+      const refund = await request('POST', `/v2/payments/captures/${captureId}/refund`, {
+        amount: { currency_code: currency, value: amount.toFixed(2) },
+      })
+      return { id: refund.id, amount }
+    },
+
+    // Vault tokens are created by the PayPal JS SDK's save flow, which must
+    // set the customer's merchant_customer_id to our user id
+    async verifyPaymentMethod(userId, vaultId) {
+      try {
+        const token = await request('GET', `/v3/vault/payment-tokens/${vaultId}`)
+        return token.customer?.merchant_customer_id === userId
+      } catch (error) {
+        console.error('PayPal vault token lookup failed:', error)
+        return false
+      }
+    },
+
+    async chargeSavedMethod(userId, vaultId, amount, currency, idempotencyKey) {
+      let order
+      try {
+        order = await request('POST', '/v2/checkout/orders', {
+          intent: 'CAPTURE',
+          purchase_units: [{
+            amount: { currency_code: currency, value: amount.toFixed(2) },
+            custom_id: userId,
+          }],
+          payment_source: { paypal: { vault_id: vaultId } },
+        }, idempotencyKey)
+      } catch (error: any) {
+        // PayPal refuses declined instruments with a 422
+        if (error.status === 422) throw new PaymentDeclinedError(error.message)
+        throw error
+      }
+
+      const capture = order.purchase_units?.[0]?.payments?.captures?.[0]
+      if (capture?.status === 'COMPLETED') {
+        return {
+          type: "completed",
+          userId,
+          amount: Number(capture.amount.value),
+          currency: capture.amount.currency_code,
+          externalId: capture.id,
+          orderId: order.id,
+        }
+      }
+      // Pending captures are credited by PAYMENT.CAPTURE.COMPLETED later
+      if (capture?.status === 'PENDING') return { type: "pending", externalId: capture.id }
+
+      if (capture?.status === 'DECLINED' || capture?.status === 'FAILED') {
+        throw new PaymentDeclinedError(`PayPal charge was not completed: ${capture.status}`)
+      }
+      throw new Error(`PayPal charge was not completed: ${capture?.status || order.status}`)
+    },
+  }
+}
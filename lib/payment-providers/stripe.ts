@@ -0,0 +1,228 @@
+import crypto from "crypto"
+import axios from "axios"
+import { PaymentProvider, PaymentEvent, PaymentDeclinedError } from "./types"
+
+// Talks to the Stripe REST API directly. Requests are form-encoded and
+// amounts are in the currency's minor unit.
+const STRIPE_API_URL = "https://api.stripe.com/v1"
+// Deliveries signed longer ago than this are rejected as replays
+const SIGNATURE_TOLERANCE = 300 // seconds
+
+interface StripeConfig {
+  secretKey: string;
+  webhookSecret?: string;
+}
+
+// Currencies whose minor unit is not the cent, as Stripe counts them
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "BIF", "CLP", "DJF", "GNF", "JPY", "KMF", "KRW", "MGA", "PYG", "RWF", "UGX", "VND", "VUV", "XAF", "XOF", "XPF",
+])
+const THREE_DECIMAL_CURRENCIES = new Set(["BHD", "JOD", "KWD", "OMR", "TND"])
+
+function minorUnitsPerMajor(currency: string) {
+  const code = String(currency).toUpperCase()
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) return 1
+  if (THREE_DECIMAL_CURRENCIES.has(code)) return 1000
+  return 100
+}
+
+const toMinorUnits = (amount: number, currency: string) => Math.round(amount * minorUnitsPerMajor(currency))
+const fromMinorUnits = (amount: number, currency: string) => amount / minorUnitsPerMajor(currency)
+
+/**
+ * Checks a `Stripe-Signature` header (`t=...,v1=...`) against the raw body
+ */
+function verifySignature(header: string | undefined, rawBody: Buffer, secret: string): boolean {
+  if (!header) return false
+
+  const parts = header.split(",").map(part => part.split("="))
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1])
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value)
+  if (!timestamp || !signatures.length) return false
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE) return false
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody.toString("utf8")}`)
+    .digest("hex")
+
+  return signatures.some(signature =>
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  )
+}
+
+export function createStripeProvider(name: string, config: StripeConfig): PaymentProvider {
+  async function request(method: "GET" | "POST", path: string, params?: Record<string, string>, idempotencyKey?: string) {
+    const response = await axios.request({
+      method,
+      url: `${STRIPE_API_URL}${path}`,
+      headers: {
+        Authorization: `Bearer ${config.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+      },
+      data: params ? new URLSearchParams(params).toString() : undefined,
+    })
+    return response.data
+  }
+
+  function completedEvent(session: any): PaymentEvent {
+    const userId = session.metadata?.userId || session.client_reference_id
+    if (!userId) throw new Error(`Checkout session ${session.id} has no user`)
+
+    return {
+      type: "completed",
+      userId,
+      amount: fromMinorUnits(session.amount_total, session.currency),
+      currency: String(session.currency).toUpperCase(),
+      externalId: session.payment_intent,
+      orderId: session.id,
+    }
+  }
+
+  return {
+    name,
+
+    async createCheckout(userId, amount, currency, urls) {
+      const session = await request("POST", "/checkout/sessions", {
+        "mode": "payment",
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": currency.toLowerCase(),
+        "line_items[0][price_data][unit_amount]": String(toMinorUnits(amount, currency)),
+        "line_items[0][price_data][product_data][name]": "Wallet top-up",
+        "success_url": urls.successUrl,
+        "cancel_url": urls.cancelUrl,
+        "client_reference_id": userId,
+        "metadata[userId]": userId,
+        "payment_intent_data[metadata][userId]": userId,
+      })
+      return { id: session.id, url: session.url }
+    },
+
+    async confirmCheckout(sessionId) {
+      const session = await request("GET", `/checkout/sessions/${sessionId}`)
+      if (session.payment_status !== "paid") return null
+      return completedEvent(session)
+    },
+
+    async verifyWebhook(headers, rawBody, event) {
+      if (!config.webhookSecret) {
+        console.error("STRIPE_WEBHOOK_SECRET is not set, rejecting webhook")
+        return null
+      }
+      if (!rawBody || !verifySignature(headers["stripe-signature"], rawBody, config.webhookSecret)) {
+        return null
+      }
+      return { id: event.id, type: event.type, payload: event }
+    },
+
+    parseWebhook(event) {
+      const object = event.data?.object
+
+      switch (event.type) {
+        // Delayed payment methods complete with the async event instead
+        case "checkout.session.completed":
+        case "checkout.session.async_payment_succeeded":
+          return object.payment_status === "paid" ? [completedEvent(object)] : []
+
+        // Off-session charges that were still processing when they were made
+        case "payment_intent.succeeded":
+          if (object.metadata?.offSession !== "true") return []
+          return [{
+            type: "completed",
+            userId: object.metadata.userId,
+            amount: fromMinorUnits(object.amount_received, object.currency),
+            currency: String(object.currency).toUpperCase(),
+            externalId: object.id,
+          }]
+
+        // A processing off-session charge that failed after all
+        case "payment_intent.payment_failed":
+          if (object.metadata?.offSession !== "true") return []
+          return [{ type: "adjusted", externalId: object.id, adjustment: { id: object.id, type: "denial" } }]
+
+        case "charge.refunded":
+          return (object.refunds?.data || []).map((refund: any): PaymentEvent => ({
+            type: "adjusted",
+            externalId: object.payment_intent,
+            adjustment: { id: refund.id, type: "refund", amount: fromMinorUnits(refund.amount, refund.currency) },
+          }))
+
+        case "refund.created":
+          return [{
+            type: "adjusted",
+            externalId: object.payment_intent,
+            adjustment: { id: object.id, type: "refund", amount: fromMinorUnits(object.amount, object.currency) },
+          }]
+
+        // A lost or pending dispute takes the money back
+        case "charge.dispute.funds_withdrawn":
+          return [{
+            type: "adjusted",
+            externalId: object.payment_intent,
+            adjustment: { id: object.id, type: "reversal", amount: fromMinorUnits(object.amount, object.currency) },
+          }]
+
+        default:
+          return []
+      }
+    },
+
+    async refund(paymentIntentId, amount, currency) {
+      const refund = await request("POST", "/refunds", {
+        payment_intent: paymentIntentId,
+        amount: String(toMinorUnits(amount, currency)),
+      })
+      return { id: refund.id, amount: fromMinorUnits(refund.amount, refund.currency) }
+    },
+
+    // The payment method must be attached to a customer created for the user
+    async verifyPaymentMethod(userId, paymentMethodId) {
+      try {
+        const method = await request("GET", `/payment_methods/${paymentMethodId}?expand[]=customer`)
+        return method.customer?.metadata?.userId === userId
+      } catch (error) {
+        console.error("Stripe payment method lookup failed:", error)
+        return false
+      }
+    },
+
+    async chargeSavedMethod(userId, paymentMethodId, amount, currency, idempotencyKey) {
+      const method = await request("GET", `/payment_methods/${paymentMethodId}`)
+      let intent
+      try {
+        intent = await request("POST", "/payment_intents", {
+          amount: String(toMinorUnits(amount, currency)),
+          currency: currency.toLowerCase(),
+          customer: method.customer,
+          payment_method: paymentMethodId,
+          off_session: "true",
+          confirm: "true",
+          "metadata[userId]": userId,
+          "metadata[offSession]": "true",
+        }, idempotencyKey)
+      } catch (error) {
+        // Card errors come back as 402; anything else may have charged
+        if (axios.isAxiosError(error) && error.response?.status === 402) {
+          const cardError = error.response.data?.error
+          throw new PaymentDeclinedError(`Stripe charge was declined: ${cardError?.decline_code || cardError?.code}`)
+        }
+        throw error
+      }
+
+      if (intent.status === "succeeded") {
+        return {
+          type: "completed",
+          userId,
+          amount: fromMinorUnits(intent.amount_received, intent.currency),
+          currency: String(intent.currency).toUpperCase(),
+          externalId: intent.id,
+        }
+      }
+      if (intent.status === "processing") return { type: "pending", externalId: intent.id }
+
+      throw new PaymentDeclinedError(`Stripe charge was not completed: ${intent.status}`)
+    },
+  }
+}
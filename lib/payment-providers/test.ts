@@ -0,0 +1,112 @@
+import crypto from "crypto"
+import { redis } from "../redis"
+import { PaymentProvider, PaymentEvent, PaymentDeclinedError } from "./types"
+
+// A provider that never leaves the machine, for local development and
+// end-to-end tests. Checkouts live in Redis and are "paid" by visiting their
+// URL; webhooks are signed with a shared secret like Stripe's.
+const CHECKOUT_TTL = 3600 // 1 hour
+
+interface TestCheckout {
+  id: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  successUrl: string;
+  paid: boolean;
+}
+
+interface TestConfig {
+  baseUrl: string;
+  webhookSecret: string;
+}
+
+const checkoutKey = (id: string) => `test_checkout:${id}`
+
+/**
+ * Marks a test checkout as paid
+ * @returns {Promise<string | null>} The success URL to send the user to, or null if unknown
+ */
+export async function completeTestCheckout(id: string): Promise<string | null> {
+  const raw = await redis.get(checkoutKey(id))
+  if (!raw) return null
+
+  const checkout: TestCheckout = JSON.parse(raw)
+  await redis.setex(checkoutKey(id), CHECKOUT_TTL, JSON.stringify({ ...checkout, paid: true }))
+  return checkout.successUrl
+}
+
+export function signTestWebhook(body: string, secret: string) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex")
+}
+
+export function createTestProvider(name: string, config: TestConfig): PaymentProvider {
+  return {
+    name,
+
+    async createCheckout(userId, amount, currency, urls) {
+      const id = `test_cs_${crypto.randomUUID()}`
+      const checkout: TestCheckout = { id, userId, amount, currency, successUrl: urls.successUrl, paid: false }
+      await redis.setex(checkoutKey(id), CHECKOUT_TTL, JSON.stringify(checkout))
+      return { id, url: `${config.baseUrl}/api/payments/test/${id}/pay` }
+    },
+
+    async confirmCheckout(id) {
+      const raw = await redis.get(checkoutKey(id))
+      if (!raw) return null
+
+      const checkout: TestCheckout = JSON.parse(raw)
+      if (!checkout.paid) return null
+      return {
+        type: "completed",
+        userId: checkout.userId,
+        amount: checkout.amount,
+        currency: checkout.currency,
+        externalId: `test_pi_${id.slice("test_cs_".length)}`,
+        orderId: id,
+      }
+    },
+
+    async verifyWebhook(headers, rawBody, event) {
+      const signature = headers["x-test-signature"]
+      if (!rawBody || typeof signature !== "string") return null
+
+      const expected = signTestWebhook(rawBody.toString("utf8"), config.webhookSecret)
+      if (signature.length !== expected.length ||
+          !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        return null
+      }
+      return { id: event.id, type: event.type, payload: event }
+    },
+
+    // Payloads are the normalized events themselves:
+    // {"id": "evt_1", "type": "payment", "data": {"type": "completed", ...}}
+    parseWebhook(event) {
+      return event.data ? [event.data as PaymentEvent] : []
+    },
+
+    async refund(externalId, amount) {
+      return { id: `test_re_${crypto.randomUUID()}`, amount }
+    },
+
+    // Saved methods are any id starting with test_pm_; ids containing
+    // "decline" are declined and ids containing "pending" settle later, when a
+    // webhook reports the completed payment, to exercise those paths
+    async verifyPaymentMethod(userId, methodId) {
+      return methodId.startsWith("test_pm_")
+    },
+
+    async chargeSavedMethod(userId, methodId, amount, currency, idempotencyKey) {
+      if (methodId.includes("decline")) throw new PaymentDeclinedError("Test card declined")
+      const externalId = `test_pi_${crypto.createHash("sha256").update(idempotencyKey).digest("hex").slice(0, 24)}`
+      if (methodId.includes("pending")) return { type: "pending", externalId }
+      return {
+        type: "completed",
+        userId,
+        amount,
+        currency,
+        externalId,
+      }
+    },
+  }
+}
@@ -0,0 +1,110 @@
+// Every payment provider is reduced to the same few operations. Amounts are
+// always in major currency units (dollars, not cents) and currencies are
+// upper-case ISO codes; providers convert at their boundary.
+
+export interface CheckoutSession {
+  id: string;
+  // Where to send the user to pay
+  url: string | null;
+}
+
+export type PaymentAdjustmentType = "refund" | "reversal" | "denial"
+
+// What a provider reports about a payment, from a webhook or a checkout lookup
+export type PaymentEvent =
+  | {
+      type: "completed";
+      userId: string;
+      amount: number;
+      currency: string;
+      // The provider's id of the money movement (PayPal capture, Stripe payment intent)
+      externalId: string;
+      // The checkout it came from (PayPal order, Stripe checkout session)
+      orderId?: string;
+    }
+  | {
+      type: "adjusted";
+      externalId: string;
+      adjustment: {
+        id: string;
+        type: PaymentAdjustmentType;
+        // Defaults to the full payment
+        amount?: number;
+      };
+    }
+
+// An off-session charge the provider accepted but settles later, reporting
+// it through its webhook as a completed payment with the same externalId
+export interface PendingCharge {
+  type: "pending";
+  externalId: string;
+}
+
+// The provider refused a charge. It is final: retrying with the same
+// idempotency key gets the same refusal back.
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentDeclinedError"
+  }
+}
+
+export interface WebhookDelivery {
+  id: string;
+  type: string;
+  payload: any;
+}
+
+export interface PaymentProvider {
+  name: string;
+
+  createCheckout(
+    userId: string,
+    amount: number,
+    currency: string,
+    urls: { successUrl: string; cancelUrl: string }
+  ): Promise<CheckoutSession>;
+
+  /**
+   * Looks up a checkout the client reports as paid
+   * @returns {Promise<PaymentEvent | null>} The completed payment, or null if it is not paid
+   */
+  confirmCheckout(checkoutId: string): Promise<PaymentEvent | null>;
+
+  /**
+   * Authenticates a webhook delivery
+   * @param {Buffer} rawBody - The unparsed body, for providers that sign it
+   * @returns {Promise<WebhookDelivery | null>} null if the signature is invalid
+   */
+  verifyWebhook(headers: Record<string, any>, rawBody: Buffer | undefined, body: any): Promise<WebhookDelivery | null>;
+
+  /**
+   * Translates a verified webhook payload; events that don't move money yield nothing
+   */
+  parseWebhook(payload: any): PaymentEvent[];
+
+  refund(externalId: string, amount: number, currency: string): Promise<{ id: string; amount: number }>;
+
+  /**
+   * Checks that a saved payment method (PayPal vault token, Stripe payment
+   * method) belongs to the user. Only providers that support merchant-initiated
+   * charges implement this and chargeSavedMethod.
+   */
+  verifyPaymentMethod?(userId: string, methodId: string): Promise<boolean>;
+
+  /**
+   * Charges a saved payment method without the user present. Throws a
+   * PaymentDeclinedError if the charge is declined; any other error leaves
+   * its outcome unknown.
+   * @param {string} idempotencyKey - Retries with the same key never charge twice
+   * @returns {Promise<PaymentEvent | PendingCharge>} The completed payment, or
+   * the pending charge if the provider settles it later through its webhook
+   */
+  chargeSavedMethod?(
+    userId: string,
+    methodId: string,
+    amount: number,
+    currency: string,
+    idempotencyKey: string
+  ): Promise<PaymentEvent | PendingCharge>;
+}
@@ -0,0 +1,253 @@
+import { ObjectId } from "mongodb"
+import { connectToDatabase, updateWalletBalance } from "./mongodb"
+import { invalidateCachedWallet } from "./wallet-cache"
+import { getPaymentProvider, PaymentEvent } from "./payment-providers"
+import type { PaymentAdjustmentType } from "./payment-providers/types"
+
+// Every provider credits wallets through this module. Each payment is
+// recorded here in the same transaction that credits the wallet; the unique
+// indexes on the external and order ids make crediting idempotent, so a
+// webhook and the client-side confirmation can both report the same payment,
+// and redelivered webhooks are harmless.
+
+// Wallet balances are kept in a single currency
+export const WALLET_CURRENCY = (process.env.PAYMENTS_CURRENCY || "USD").toUpperCase()
+
+export interface PaymentAdjustment {
+  // The provider's id of the refund or reversal, or of the denied payment
+  id: string;
+  type: PaymentAdjustmentType;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface PaymentDocument {
+  _id?: ObjectId;
+  provider: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  externalId: string;
+  orderId?: string;
+  // Only claims left by the earlier, non-transactional crediting are pending
+  status: "pending" | "completed";
+  adjustments: PaymentAdjustment[];
+  createdAt: Date;
+  creditedAt?: Date;
+}
+
+let indexesCreated = false
+
+async function getPayments() {
+  const db = await connectToDatabase()
+  const payments = db.collection<PaymentDocument>("payments")
+
+  if (!indexesCreated) {
+    await Promise.all([
+      payments.createIndex({ provider: 1, externalId: 1 }, { unique: true }),
+      payments.createIndex(
+        { provider: 1, orderId: 1 },
+        { unique: true, partialFilterExpression: { orderId: { $type: "string" } } }
+      )
+    ])
+    indexesCreated = true
+  }
+  return payments
+}
+
+const isDuplicateKeyError = (error: any) => error?.code === 11000
+
+// Returns whether it had anything to do with the payment
+type PaymentDeniedHandler = (provider: string, externalId: string) => Promise<boolean>
+
+const paymentDeniedHandlers: PaymentDeniedHandler[] = []
+
+/**
+ * Registers a callback run when a provider denies a payment that was never
+ * credited, e.g. a charge that was still settling. Handlers run before the
+ * webhook is acknowledged, so a failure gets the event delivered again.
+ */
+export function onPaymentDenied(handler: PaymentDeniedHandler) {
+  paymentDeniedHandlers.push(handler)
+}
+
+/**
+ * Credits a completed payment to the user's wallet exactly once
+ * @returns {Promise<{ wallet: any, duplicate: boolean }>} duplicate is true
+ * when the payment was already credited, in which case the wallet is untouched
+ */
+export async function creditPayment(payment: {
+  provider: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  externalId: string;
+  orderId?: string;
+}) {
+  if (payment.currency.toUpperCase() !== WALLET_CURRENCY) {
+    throw new Error(`Cannot credit a ${payment.currency} payment to a ${WALLET_CURRENCY} wallet`)
+  }
+
+  const payments = await getPayments()
+  const currency = payment.currency.toUpperCase()
+
+  // The payment is recorded in the transaction that credits it; a second
+  // credit fails on the unique indexes and rolls back, and a failed credit
+  // leaves no record behind to block a retry
+  let wallet
+  try {
+    wallet = await updateWalletBalance(
+      payment.userId,
+      payment.amount,
+      "topup",
+      { provider: payment.provider, externalId: payment.externalId, orderId: payment.orderId, currency },
+      {
+        onUpdate: async session => {
+          const now = new Date()
+          await payments.insertOne(
+            { ...payment, currency, status: "completed", adjustments: [], createdAt: now, creditedAt: now },
+            { session }
+          )
+        }
+      }
+    )
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error
+
+    // Claims left pending by the earlier, non-transactional crediting may
+    // never have been credited; fail so the provider retries the delivery
+    const existing = await payments.findOne({
+      provider: payment.provider,
+      $or: payment.orderId
+        ? [{ externalId: payment.externalId }, { orderId: payment.orderId }]
+        : [{ externalId: payment.externalId }]
+    })
+    if (existing?.status === "pending") {
+      throw new Error(`Payment ${payment.externalId} has an unfinished claim`)
+    }
+    return { wallet: null, duplicate: true }
+  }
+  if (!wallet) throw new Error("Wallet not found")
+
+  // Cached copies still hold the pre-payment balance
+  await invalidateCachedWallet(payment.userId)
+  return { wallet, duplicate: false }
+}
+
+/**
+ * Whether a payment has been credited to a wallet
+ */
+export async function isPaymentCredited(provider: string, externalId: string) {
+  const payments = await getPayments()
+  return !!(await payments.findOne({ provider, externalId, status: "completed" }))
+}
+
+const ADJUSTMENT_DESCRIPTIONS: Record<PaymentAdjustmentType, string> = {
+  refund: "Payment refunded",
+  reversal: "Payment reversed",
+  denial: "Payment denied"
+}
+
+/**
+ * Debits a refund, reversal or denial of a credited payment, once per
+ * adjustment id. The amount defaults to the full payment.
+ * @returns {Promise<any | null>} The wallet after the debit, or null if the
+ * payment was never credited or the adjustment was already applied
+ */
+export async function adjustPayment(
+  provider: string,
+  externalId: string,
+  adjustment: { id: string; type: PaymentAdjustmentType; amount?: number }
+) {
+  const payments = await getPayments()
+
+  const existing = await payments.findOne({ provider, externalId, status: "completed" })
+  if (!existing) return null
+
+  const entry: PaymentAdjustment = {
+    id: adjustment.id,
+    type: adjustment.type,
+    amount: adjustment.amount ?? existing.amount,
+    createdAt: new Date()
+  }
+
+  // Pushing the adjustment is the idempotency claim
+  const claimed = await payments.updateOne(
+    { _id: existing._id, "adjustments.id": { $ne: entry.id } },
+    { $push: { adjustments: entry } }
+  )
+  if (!claimed.modifiedCount) return null
+
+  try {
+    const wallet = await updateWalletBalance(
+      existing.userId,
+      -entry.amount,
+      entry.type === "refund" ? "refund" : "reversal",
+      {
+        provider,
+        externalId,
+        orderId: existing.orderId,
+        currency: existing.currency,
+        refundId: entry.type === "denial" ? undefined : entry.id,
+        description: ADJUSTMENT_DESCRIPTIONS[entry.type]
+      }
+    )
+    await invalidateCachedWallet(existing.userId)
+    return wallet
+  } catch (error) {
+    await payments.updateOne({ _id: existing._id }, { $pull: { adjustments: { id: entry.id } } })
+    throw error
+  }
+}
+
+/**
+ * Applies what a provider reported in a webhook
+ * @returns {Promise<"processed" | "ignored">} ignored if nothing changed
+ */
+export async function applyPaymentEvents(provider: string, events: PaymentEvent[]): Promise<"processed" | "ignored"> {
+  let changed = false
+  for (const event of events) {
+    if (event.type === "completed") {
+      const { type, ...payment } = event
+      const { duplicate } = await creditPayment({ provider, ...payment })
+      changed = changed || !duplicate
+    } else {
+      const wallet = await adjustPayment(provider, event.externalId, event.adjustment)
+      changed = changed || !!wallet
+      if (event.adjustment.type === "denial" && !(await isPaymentCredited(provider, event.externalId))) {
+        for (const handler of paymentDeniedHandlers) {
+          changed = (await handler(provider, event.externalId)) || changed
+        }
+      }
+    }
+  }
+  return changed ? "processed" : "ignored"
+}
+
+/**
+ * Refunds a credited payment through its provider and debits the wallet.
+ * The provider's refund webhook arrives later and is deduplicated by refund id.
+ * @param {number} amount - Defaults to what is left of the payment
+ */
+export async function refundPayment(paymentId: string, amount?: number) {
+  const payments = await getPayments()
+  const payment = await payments.findOne({ _id: new ObjectId(paymentId), status: "completed" })
+  if (!payment) throw new Error("Payment not found")
+
+  const provider = getPaymentProvider(payment.provider)
+  if (!provider) throw new Error(`Payment provider ${payment.provider} is not configured`)
+
+  const refundable = payment.amount - payment.adjustments.reduce((sum, entry) => sum + entry.amount, 0)
+  const refundAmount = amount ?? refundable
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw new Error(`Refund amount must be between 0 and ${refundable}`)
+  }
+
+  const refund = await provider.refund(payment.externalId, refundAmount, payment.currency)
+  const wallet = await adjustPayment(payment.provider, payment.externalId, {
+    id: refund.id,
+    type: "refund",
+    amount: refund.amount
+  })
+  return { refundId: refund.id, amount: refund.amount, wallet }
+}
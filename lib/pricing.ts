@@ -1,21 +1,336 @@
-type ModelPricing = {
-  [key: string]: number
+import { ObjectId } from "mongodb"
+import { connectToDatabase, UpdateWriter, withTransaction } from "./mongodb"
+
+// Prices are in USD per 1000 tokens, or per unit for models billed by the
+// unit (e.g. per image), and live in the `modelPricing` collection. Each model can have several entries; the one with the latest
+// `effectiveFrom` that is not in the future applies, so old charges can
+// always be explained by the entry that was active at the time.
+export interface ModelPricingDocument {
+  _id?: ObjectId;
+  model: string;
+  inputPer1K: number;
+  outputPer1K: number;
+  // Prompt tokens served from the upstream prompt cache, where supported
+  cachedInputPer1K?: number;
+  // Price per unit for each variant of a unit-priced model, e.g. per image
+  // by "quality:size" for image generation, or per "minute" of audio
+  unitPrices?: Record<string, number>;
+  // Disabled models are rejected even though they are priced
+  disabled?: boolean;
+  effectiveFrom: Date;
+  createdAt: Date;
+}
+
+export interface CostBreakdown {
+  model: string;
+  pricingId: string;
+  promptTokens: number;
+  cachedTokens: number;
+  completionTokens: number;
+  input: number;
+  cachedInput: number;
+  output: number;
+  total: number;
+  // Set when the response was served from the response cache
+  cacheHit?: boolean;
+  // Set for requests run through the Batch API
+  batch?: boolean;
+  // Set for unit-priced requests; the unit cost is included in the total
+  units?: {
+    unit: string;
+    variant: string;
+    quantity: number;
+    unitPrice: number;
+  };
+}
+
+type PricingFields = "inputPer1K" | "outputPer1K" | "cachedInputPer1K" | "unitPrices" | "disabled"
+
+type PriceList = Record<string, Pick<ModelPricingDocument, Exclude<PricingFields, "disabled">>>
+
+// Seeded into an empty collection: upstream list prices less our 25% discount
+const DISCOUNT = 0.75
+const DEFAULT_PRICING: PriceList = {
+  "gpt-3.5-turbo": { inputPer1K: 0.0005 * DISCOUNT, outputPer1K: 0.0015 * DISCOUNT },
+  "gpt-4": { inputPer1K: 0.03 * DISCOUNT, outputPer1K: 0.06 * DISCOUNT },
+  "gpt-4o-mini": {
+    inputPer1K: 0.00015 * DISCOUNT,
+    outputPer1K: 0.0006 * DISCOUNT,
+    cachedInputPer1K: 0.000075 * DISCOUNT
+  },
+  "gpt-4o": {
+    inputPer1K: 0.0025 * DISCOUNT,
+    outputPer1K: 0.01 * DISCOUNT,
+    cachedInputPer1K: 0.00125 * DISCOUNT
+  },
+  // Embeddings only have input tokens
+  "text-embedding-3-small": { inputPer1K: 0.00002 * DISCOUNT, outputPer1K: 0 },
+  "text-embedding-3-large": { inputPer1K: 0.00013 * DISCOUNT, outputPer1K: 0 },
+  "text-embedding-ada-002": { inputPer1K: 0.0001 * DISCOUNT, outputPer1K: 0 },
+  "dall-e-3": {
+    inputPer1K: 0,
+    outputPer1K: 0,
+    unitPrices: {
+      "standard:1024x1024": 0.04 * DISCOUNT,
+      "standard:1024x1792": 0.08 * DISCOUNT,
+      "standard:1792x1024": 0.08 * DISCOUNT,
+      "hd:1024x1024": 0.08 * DISCOUNT,
+      "hd:1024x1792": 0.12 * DISCOUNT,
+      "hd:1792x1024": 0.12 * DISCOUNT,
+    }
+  },
+  // Transcription is billed per audio minute, speech per input character
+  "whisper-1": { inputPer1K: 0, outputPer1K: 0, unitPrices: { minute: 0.006 * DISCOUNT } },
+  "tts-1": { inputPer1K: 0, outputPer1K: 0, unitPrices: { character: 0.000015 * DISCOUNT } },
+  "tts-1-hd": { inputPer1K: 0, outputPer1K: 0, unitPrices: { character: 0.00003 * DISCOUNT } },
+}
+
+// Pricing is read on every request, so entries are kept in memory briefly
+const PRICING_CACHE_TTL = 60 * 1000 // 1 minute
+let pricingCache: { entries: ModelPricingDocument[]; loadedAt: number } | null = null
+
+let indexesCreated = false
+
+async function getPricingCollection() {
+  const db = await connectToDatabase()
+  const collection = db.collection<ModelPricingDocument>("modelPricing")
+
+  if (!indexesCreated) {
+    // At most one entry per model takes effect at a given time, which also
+    // keeps instances seeding on cold start from inserting the defaults twice.
+    // Databases seeded twice before the index existed must be deduplicated
+    // first; pricing still loads meanwhile.
+    try {
+      await collection.createIndex({ model: 1, effectiveFrom: 1 }, { unique: true })
+    } catch (error) {
+      console.error("Failed to create the modelPricing index:", error)
+    }
+    indexesCreated = true
+  }
+  return collection
+}
+
+async function loadPricing(): Promise<ModelPricingDocument[]> {
+  if (pricingCache && Date.now() - pricingCache.loadedAt < PRICING_CACHE_TTL) {
+    return pricingCache.entries
+  }
+
+  const collection = await getPricingCollection()
+  let entries: ModelPricingDocument[] = await collection.find().sort({ effectiveFrom: -1 }).toArray()
+
+  if (!entries.length) {
+    const now = new Date()
+    await collection.bulkWrite(
+      Object.entries(DEFAULT_PRICING).map(([model, prices]) => ({
+        updateOne: {
+          filter: { model, effectiveFrom: new Date(0) },
+          update: { $setOnInsert: { model, ...prices, effectiveFrom: new Date(0), createdAt: now } },
+          upsert: true
+        }
+      }))
+    )
+    entries = await collection.find().sort({ effectiveFrom: -1 }).toArray()
+  }
+
+  pricingCache = { entries, loadedAt: Date.now() }
+  return entries
+}
+
+/**
+ * Returns the pricing entry in effect for a model at the given time
+ * @returns {Promise<ModelPricingDocument | null>} null if the model is not priced
+ */
+export async function getModelPricing(model: string, at: Date = new Date()) {
+  const entries = await loadPricing()
+  // Entries are sorted newest first
+  return entries.find(entry => entry.model === model && entry.effectiveFrom <= at) || null
+}
+
+/**
+ * Lists the pricing currently in effect for every priced model
+ */
+export async function getCurrentPricing(): Promise<ModelPricingDocument[]> {
+  const entries = await loadPricing()
+  const now = new Date()
+  const current = new Map<string, ModelPricingDocument>()
+  for (const entry of entries) {
+    if (entry.effectiveFrom <= now && !current.has(entry.model)) {
+      current.set(entry.model, entry)
+    }
+  }
+  return [...current.values()]
+}
+
+/**
+ * Schedules a new price for a model. Existing entries are never modified.
+ * `onUpdate` runs in the same transaction as the insert.
+ * @throws a duplicate key error if the model already has an entry taking
+ * effect at exactly that time
+ */
+export async function setModelPricing(
+  model: string,
+  prices: Pick<ModelPricingDocument, PricingFields>,
+  effectiveFrom: Date = new Date(),
+  options: { onUpdate?: UpdateWriter<ModelPricingDocument> } = {}
+) {
+  const collection = await getPricingCollection()
+  const entry: ModelPricingDocument = {
+    model,
+    ...prices,
+    effectiveFrom,
+    createdAt: new Date()
+  }
+  const inserted = await withTransaction(async session => {
+    const result = await collection.insertOne(entry, { session })
+    const saved = { ...entry, _id: result.insertedId }
+    await options.onUpdate?.(session, saved)
+    return saved
+  })
+  pricingCache = null
+  return inserted
+}
+
+/**
+ * Enables or disables a model from now on by adding an entry that copies its
+ * current prices
+ * @returns {Promise<ModelPricingDocument | null>} null if the model is not priced
+ */
+export async function setModelAvailability(
+  model: string,
+  enabled: boolean,
+  options: { onUpdate?: UpdateWriter<ModelPricingDocument> } = {}
+) {
+  const current = await getModelPricing(model)
+  if (!current) return null
+
+  const { inputPer1K, outputPer1K, cachedInputPer1K, unitPrices } = current
+  return setModelPricing(model, {
+    inputPer1K,
+    outputPer1K,
+    ...(cachedInputPer1K !== undefined && { cachedInputPer1K }),
+    ...(unitPrices && { unitPrices }),
+    disabled: !enabled
+  }, new Date(), options)
+}
+
+/**
+ * Itemizes the cost of a chat completion or embeddings request from its `usage` object
+ * @throws if the model has no pricing
+ */
+export async function calculateCost(model: string, usage: any): Promise<CostBreakdown> {
+  const pricing = await getModelPricing(model)
+  if (!pricing) throw new Error(`No pricing configured for model ${model}`)
+
+  const promptTokens = usage?.prompt_tokens || 0
+  const completionTokens = usage?.completion_tokens || 0
+  const cachedTokens = Math.min(usage?.prompt_tokens_details?.cached_tokens || 0, promptTokens)
+
+  const cachedRate = pricing.cachedInputPer1K ?? pricing.inputPer1K
+  const input = ((promptTokens - cachedTokens) * pricing.inputPer1K) / 1000
+  const cachedInput = (cachedTokens * cachedRate) / 1000
+  const output = (completionTokens * pricing.outputPer1K) / 1000
+
+  return {
+    model,
+    pricingId: pricing._id!.toString(),
+    promptTokens,
+    cachedTokens,
+    completionTokens,
+    input,
+    cachedInput,
+    output,
+    total: input + cachedInput + output
+  }
+}
+
+/**
+ * Prices a unit-billed request, e.g. a number of generated images
+ * @param {string} variant - The unitPrices key, e.g. "hd:1024x1792"
+ * @returns {Promise<CostBreakdown | null>} null if the model has no price for the variant
+ * @throws if the model has no pricing
+ */
+export async function calculateUnitCost(
+  model: string,
+  unit: string,
+  variant: string,
+  quantity: number
+): Promise<CostBreakdown | null> {
+  const pricing = await getModelPricing(model)
+  if (!pricing) throw new Error(`No pricing configured for model ${model}`)
+
+  const unitPrice = pricing.unitPrices?.[variant]
+  if (unitPrice === undefined) return null
+
+  return {
+    model,
+    pricingId: pricing._id!.toString(),
+    promptTokens: 0,
+    cachedTokens: 0,
+    completionTokens: 0,
+    input: 0,
+    cachedInput: 0,
+    output: 0,
+    total: unitPrice * quantity,
+    units: { unit, variant, quantity, unitPrice }
+  }
 }
 
-const originalPricing: ModelPricing = {
-  "gpt-3.5-turbo": 0.002,
-  "gpt-4": 0.03,
-  "gpt-4o-mini": 0.00060,
-  "gpt-4o": 0.015,
+// Fraction of the normal price charged for a response served from cache
+export const CACHE_HIT_PRICE_MULTIPLIER = Number(process.env.CACHE_HIT_PRICE_MULTIPLIER ?? 0.5)
+
+export function applyCacheHitPricing(breakdown: CostBreakdown): CostBreakdown {
+  return {
+    ...breakdown,
+    input: breakdown.input * CACHE_HIT_PRICE_MULTIPLIER,
+    cachedInput: breakdown.cachedInput * CACHE_HIT_PRICE_MULTIPLIER,
+    output: breakdown.output * CACHE_HIT_PRICE_MULTIPLIER,
+    total: breakdown.total * CACHE_HIT_PRICE_MULTIPLIER,
+    cacheHit: true
+  }
 }
 
-export const discountedPricing: ModelPricing = Object.entries(originalPricing).reduce((acc, [model, price]) => {
-  acc[model] = price * 0.75 // 25% discount
-  return acc
-}, {} as ModelPricing)
+// Batch requests run asynchronously within a day, off peak, at a discount
+export const BATCH_PRICE_MULTIPLIER = Number(process.env.BATCH_PRICE_MULTIPLIER ?? 0.5)
 
-export function calculateCost(model: string, tokens: number): number {
-  const pricePerToken = discountedPricing[model] || discountedPricing["gpt-4o"]
-  return (pricePerToken * tokens) / 1000 // Price is per 1000 tokens
+export function applyBatchPricing(breakdown: CostBreakdown): CostBreakdown {
+  return {
+    ...breakdown,
+    input: breakdown.input * BATCH_PRICE_MULTIPLIER,
+    cachedInput: breakdown.cachedInput * BATCH_PRICE_MULTIPLIER,
+    output: breakdown.output * BATCH_PRICE_MULTIPLIER,
+    total: breakdown.total * BATCH_PRICE_MULTIPLIER,
+    batch: true
+  }
 }
 
+// Completion budget held for, and sent upstream as max_tokens, when the
+// client does not set one
+export const DEFAULT_MAX_TOKENS = 4096
+
+/**
+ * Caps the completion of a chat-completions body that sets no limit, so the
+ * upstream cannot generate more than the hold placed for it covers
+ */
+export function capCompletionTokens(body: Record<string, any>): Record<string, any> {
+  if (body.max_tokens || body.max_completion_tokens) return body
+  return { ...body, max_tokens: DEFAULT_MAX_TOKENS }
+}
+
+/**
+ * Upper bound on what a chat completion can cost, used to place a wallet hold
+ * before the request is forwarded upstream. With `n` choices every choice can
+ * use the full completion budget.
+ */
+export async function estimateMaxCost(
+  model: string,
+  promptTokens: number,
+  maxTokens?: number,
+  choices: number = 1
+): Promise<number> {
+  const completionTokens = maxTokens && maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS
+  const breakdown = await calculateCost(model, {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens * choices
+  })
+  return breakdown.total
+}
@@ -0,0 +1,308 @@
+import { PassThrough, Readable } from "stream"
+import { ChatProvider } from "./types"
+import { axiosInstance } from "./http"
+import { createSSEParser } from "../sse"
+import { DEFAULT_MAX_TOKENS } from "../pricing"
+import { invalidRequest, InvalidRequestError } from "../chat-schema"
+
+export interface AnthropicConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+}
+
+function textOf(content: any): string {
+  if (typeof content === "string") return content
+  if (Array.isArray(content)) {
+    return content.map(part => (part?.type === "text" ? part.text : "")).join("")
+  }
+  return ""
+}
+
+function toContentBlocks(content: any): any[] {
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : []
+  if (!Array.isArray(content)) return []
+
+  return content.map(part => {
+    if (part?.type !== "image_url") return { type: "text", text: part?.text ?? "" }
+
+    const url: string = typeof part.image_url === "string" ? part.image_url : part.image_url?.url
+    const dataUrl = /^data:([^;]+);base64,(.*)$/.exec(url || "")
+    return dataUrl
+      ? { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } }
+      : { type: "image", source: { type: "url", url } }
+  })
+}
+
+function parseArguments(args: string) {
+  try {
+    return JSON.parse(args || "{}")
+  } catch {
+    return {}
+  }
+}
+
+// Chat-completions parameters the Messages API has no equivalent for, and
+// whether a value is the default that can be dropped without changing the
+// response
+const UNSUPPORTED_PARAMETERS: Record<string, (value: any) => boolean> = {
+  n: value => value === 1,
+  response_format: value => value?.type === "text",
+  seed: () => false,
+}
+
+// Translates a chat-completions body into a Messages API body
+function toAnthropicRequest(model: string, body: Record<string, any>) {
+  for (const [name, isDefault] of Object.entries(UNSUPPORTED_PARAMETERS)) {
+    if (body[name] === undefined || body[name] === null || isDefault(body[name])) continue
+    throw new InvalidRequestError(
+      invalidRequest(`'${name}' is not supported by the model '${model}'.`, name, "unsupported_parameter")
+    )
+  }
+
+  const system: string[] = []
+  const messages: { role: "user" | "assistant"; content: any[] }[] = []
+
+  // The Messages API requires alternating roles, so consecutive messages
+  // from the same side are merged
+  const append = (role: "user" | "assistant", blocks: any[]) => {
+    const last = messages[messages.length - 1]
+    if (last?.role === role) last.content.push(...blocks)
+    else messages.push({ role, content: blocks })
+  }
+
+  for (const message of body.messages || []) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(textOf(message.content))
+        break
+      case "tool":
+        append("user", [{
+          type: "tool_result",
+          tool_use_id: message.tool_call_id,
+          content: textOf(message.content)
+        }])
+        break
+      case "assistant":
+        append("assistant", [
+          ...toContentBlocks(message.content),
+          ...(message.tool_calls || []).map((call: any) => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.function?.name,
+            input: parseArguments(call.function?.arguments)
+          }))
+        ])
+        break
+      default:
+        append("user", toContentBlocks(message.content))
+    }
+  }
+
+  const request: Record<string, any> = {
+    model,
+    messages,
+    max_tokens: body.max_tokens ?? body.max_completion_tokens ?? DEFAULT_MAX_TOKENS,
+  }
+  if (system.length) request.system = system.join("\n\n")
+  if (body.temperature !== undefined) request.temperature = body.temperature
+  if (body.top_p !== undefined) request.top_p = body.top_p
+  if (body.stop) request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop]
+  if (body.user) request.metadata = { user_id: body.user }
+
+  if (body.tools?.length && body.tool_choice !== "none") {
+    request.tools = body.tools.map((tool: any) => ({
+      name: tool.function?.name,
+      description: tool.function?.description,
+      input_schema: tool.function?.parameters || { type: "object", properties: {} }
+    }))
+
+    if (body.tool_choice === "required") request.tool_choice = { type: "any" }
+    else if (body.tool_choice?.type === "function") {
+      request.tool_choice = { type: "tool", name: body.tool_choice.function?.name }
+    }
+  }
+
+  return request
+}
+
+function toOpenAIUsage(usage: any = {}, outputTokens?: number) {
+  const cached = usage.cache_read_input_tokens || 0
+  // input_tokens excludes tokens read from or written to the prompt cache
+  const prompt = (usage.input_tokens || 0) + cached + (usage.cache_creation_input_tokens || 0)
+  const completion = outputTokens ?? usage.output_tokens ?? 0
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion,
+    prompt_tokens_details: { cached_tokens: cached }
+  }
+}
+
+function fromAnthropicResponse(data: any) {
+  const blocks: any[] = data.content || []
+  const toolCalls = blocks
+    .filter(block => block.type === "tool_use")
+    .map(block => ({
+      id: block.id,
+      type: "function",
+      function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+    }))
+  const text = blocks.filter(block => block.type === "text").map(block => block.text).join("")
+
+  return {
+    id: data.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: FINISH_REASONS[data.stop_reason] || "stop"
+    }],
+    usage: toOpenAIUsage(data.usage)
+  }
+}
+
+// Re-emits a Messages API event stream as chat.completion.chunk events
+function translateStream(upstream: Readable): Readable {
+  const output = new PassThrough()
+  const created = Math.floor(Date.now() / 1000)
+  const toolIndexes = new Map<number, number>()
+  let id = ""
+  let model = ""
+  let inputUsage: any = {}
+  let outputTokens = 0
+  let finished = false
+
+  const write = (payload: any) => output.write(`data: ${JSON.stringify(payload)}\n\n`)
+  const chunk = (delta: any, finishReason: string | null = null) => write({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  })
+  const finish = () => {
+    if (finished) return
+    finished = true
+    output.end("data: [DONE]\n\n")
+  }
+
+  const parser = createSSEParser(({ data }) => {
+    let event: any
+    try {
+      event = JSON.parse(data)
+    } catch {
+      return
+    }
+
+    switch (event.type) {
+      case "message_start":
+        id = event.message.id
+        model = event.message.model
+        inputUsage = event.message.usage || {}
+        chunk({ role: "assistant", content: "" })
+        break
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use") {
+          const index = toolIndexes.size
+          toolIndexes.set(event.index, index)
+          chunk({
+            tool_calls: [{
+              index,
+              id: event.content_block.id,
+              type: "function",
+              function: { name: event.content_block.name, arguments: "" }
+            }]
+          })
+        }
+        break
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta") {
+          chunk({ content: event.delta.text })
+        } else if (event.delta?.type === "input_json_delta") {
+          chunk({
+            tool_calls: [{
+              index: toolIndexes.get(event.index) ?? 0,
+              function: { arguments: event.delta.partial_json }
+            }]
+          })
+        }
+        break
+      case "message_delta":
+        outputTokens = event.usage?.output_tokens ?? outputTokens
+        chunk({}, FINISH_REASONS[event.delta?.stop_reason] || "stop")
+        break
+      case "message_stop":
+        // Same shape as OpenAI's stream_options.include_usage chunk
+        write({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [],
+          usage: toOpenAIUsage(inputUsage, outputTokens)
+        })
+        finish()
+        break
+      case "error":
+        write({ error: event.error })
+        finish()
+        break
+    }
+  })
+
+  upstream.on("data", (data: Buffer) => parser.push(data))
+  upstream.on("end", () => {
+    parser.flush()
+    finish()
+  })
+  upstream.on("error", (error) => output.destroy(error))
+  output.on("close", () => upstream.destroy())
+
+  return output
+}
+
+// Anthropic Messages API, translated to and from chat-completions
+export function createAnthropicProvider(name: string, config: AnthropicConfig): ChatProvider {
+  const url = `${(config.baseUrl || "https://api.anthropic.com").replace(/\/+$/, "")}/v1/messages`
+  const headers = {
+    "x-api-key": config.apiKey,
+    "anthropic-version": ANTHROPIC_VERSION
+  }
+
+  return {
+    name,
+
+    async complete(model, body, signal) {
+      const response = await axiosInstance.post(url, toAnthropicRequest(model, body), {
+        headers,
+        signal
+      })
+      return fromAnthropicResponse(response.data)
+    },
+
+    async stream(model, body, signal) {
+      const response = await axiosInstance.post(url, { ...toAnthropicRequest(model, body), stream: true }, {
+        headers,
+        responseType: 'stream',
+        signal
+      })
+      return translateStream(response.data)
+    }
+  }
+}
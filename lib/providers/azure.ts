@@ -0,0 +1,93 @@
+import { ChatProvider } from "./types"
+import { axiosInstance, AUDIO_TIMEOUT, IMAGE_TIMEOUT, MULTIPART_HEADERS, toMultipart } from "./http"
+
+export interface AzureConfig {
+  endpoint: string;
+  apiKey: string;
+  apiVersion: string;
+}
+
+// Azure OpenAI addresses models by deployment; the body is plain chat-completions
+export function createAzureProvider(name: string, config: AzureConfig): ChatProvider {
+  const url = (deployment: string) =>
+    `${config.endpoint}/openai/deployments/${deployment}/chat/completions`
+
+  return {
+    name,
+
+    async complete(deployment, body, signal) {
+      const response = await axiosInstance.post(url(deployment), { ...body, stream: false }, {
+        params: { 'api-version': config.apiVersion },
+        headers: { "api-key": config.apiKey },
+        signal
+      })
+      return response.data
+    },
+
+    async stream(deployment, body, signal) {
+      const response = await axiosInstance.post(url(deployment), { ...body, stream: true }, {
+        params: { 'api-version': config.apiVersion },
+        headers: { "api-key": config.apiKey },
+        responseType: 'stream',
+        signal
+      })
+      return response.data
+    },
+
+    async embed(deployment, body, signal) {
+      const response = await axiosInstance.post(
+        `${config.endpoint}/openai/deployments/${deployment}/embeddings`,
+        body,
+        {
+          params: { 'api-version': config.apiVersion },
+          headers: { "api-key": config.apiKey },
+          signal
+        }
+      )
+      return response.data
+    },
+
+    async generateImage(deployment, body, signal) {
+      const response = await axiosInstance.post(
+        `${config.endpoint}/openai/deployments/${deployment}/images/generations`,
+        body,
+        {
+          params: { 'api-version': config.apiVersion },
+          headers: { "api-key": config.apiKey },
+          // Image generation is much slower than chat
+          timeout: IMAGE_TIMEOUT,
+          signal
+        }
+      )
+      return response.data
+    },
+
+    async transcribe(deployment, audio, fields, signal) {
+      const response = await axiosInstance.post(
+        `${config.endpoint}/openai/deployments/${deployment}/audio/transcriptions`,
+        toMultipart(audio, fields),
+        {
+          params: { 'api-version': config.apiVersion },
+          headers: { "api-key": config.apiKey, ...MULTIPART_HEADERS },
+          timeout: AUDIO_TIMEOUT,
+          signal
+        }
+      )
+      return response.data
+    },
+
+    async speak(deployment, body, signal) {
+      const response = await axiosInstance.post(
+        `${config.endpoint}/openai/deployments/${deployment}/audio/speech`,
+        body,
+        {
+          params: { 'api-version': config.apiVersion },
+          headers: { "api-key": config.apiKey },
+          responseType: 'stream',
+          signal
+        }
+      )
+      return response.data
+    }
+  }
+}
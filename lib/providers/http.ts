@@ -0,0 +1,40 @@
+import axios, { AxiosInstance } from "axios"
+import http from "http"
+import https from "https"
+import { AudioUpload } from "./types"
+
+// Create optimized axios instance
+export const axiosInstance: AxiosInstance = axios.create({
+  timeout: 30000,
+  headers: { "Content-Type": "application/json" },
+  httpAgent: new http.Agent({ keepAlive: true }),
+  httpsAgent: new https.Agent({ keepAlive: true }),
+  maxRedirects: 5,
+  maxContentLength: Infinity,
+  maxBodyLength: Infinity,
+})
+
+// Image generation and transcription of long recordings can take well over
+// the default timeout
+export const IMAGE_TIMEOUT = 120000
+export const AUDIO_TIMEOUT = 300000
+
+/**
+ * Builds a multipart body for upstream file uploads. Axios would serialize
+ * it as JSON under the instance's default Content-Type, so requests sending
+ * it must set MULTIPART_HEADERS.
+ */
+export function toMultipart(audio: AudioUpload, fields: Record<string, any>): FormData {
+  const form = new FormData()
+  form.append("file", new Blob([audio.buffer], { type: audio.mimetype }), audio.filename)
+  for (const [name, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      for (const item of value) form.append(`${name}[]`, String(item))
+    } else {
+      form.append(name, String(value))
+    }
+  }
+  return form
+}
+
+export const MULTIPART_HEADERS = { "Content-Type": "multipart/form-data" }
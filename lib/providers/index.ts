@@ -0,0 +1,88 @@
+import { ChatProvider } from "./types"
+import { createAzureProvider } from "./azure"
+import { createOpenAICompatibleProvider } from "./openai"
+import { createAnthropicProvider } from "./anthropic"
+
+export type { ChatProvider } from "./types"
+
+// Providers are registered only when their credentials are configured, so a
+// model routed to a missing provider is reported as unavailable
+const providers: Record<string, ChatProvider> = {}
+
+// stream_options.include_usage needs 2024-10-21 or later
+const AZURE_API_VERSION = process.env.AZURE_OPENAI_API_VERSION || "2024-10-21"
+
+function register(provider: ChatProvider) {
+  providers[provider.name] = provider
+}
+
+if (process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY) {
+  register(createAzureProvider("azure", {
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    apiVersion: AZURE_API_VERSION,
+  }))
+}
+
+// gpt-4o lives on a separate Azure resource
+if (process.env.AZURE_GPT4O_ENDPOINT && process.env.AZURE_GPT4O_API_KEY) {
+  register(createAzureProvider("azure-gpt4o", {
+    endpoint: process.env.AZURE_GPT4O_ENDPOINT,
+    apiKey: process.env.AZURE_GPT4O_API_KEY,
+    apiVersion: AZURE_API_VERSION,
+  }))
+}
+
+if (process.env.OPENAI_API_KEY) {
+  register(createOpenAICompatibleProvider("openai", {
+    baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    apiKey: process.env.OPENAI_API_KEY,
+  }))
+}
+
+if (process.env.ANTHROPIC_API_KEY) {
+  register(createAnthropicProvider("anthropic", {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    baseUrl: process.env.ANTHROPIC_BASE_URL,
+  }))
+}
+
+// Any OpenAI-compatible server, e.g. vLLM, Ollama or a mock upstream for tests
+if (process.env.LOCAL_OPENAI_BASE_URL) {
+  register(createOpenAICompatibleProvider("local", {
+    baseUrl: process.env.LOCAL_OPENAI_BASE_URL,
+    apiKey: process.env.LOCAL_OPENAI_API_KEY,
+  }))
+}
+
+// Additional deployments, typically other Azure regions to fail over to, e.g.
+// [{"name": "azure-eastus2", "type": "azure", "endpoint": "https://...", "apiKey": "...", "apiVersion": "2024-10-21"}]
+if (process.env.UPSTREAM_PROVIDERS) {
+  try {
+    for (const config of JSON.parse(process.env.UPSTREAM_PROVIDERS)) {
+      switch (config.type) {
+        case "azure":
+          register(createAzureProvider(config.name, {
+            endpoint: config.endpoint,
+            apiKey: config.apiKey,
+            apiVersion: config.apiVersion || AZURE_API_VERSION,
+          }))
+          break
+        case "openai":
+          register(createOpenAICompatibleProvider(config.name, config))
+          break
+        case "anthropic":
+          register(createAnthropicProvider(config.name, config))
+          break
+        default:
+          console.error(`Unknown provider type "${config.type}" for ${config.name}`)
+      }
+    }
+  } catch (error) {
+    console.error("Invalid UPSTREAM_PROVIDERS configuration:", error)
+  }
+}
+
+export function getProvider(name: string): ChatProvider | undefined {
+  return providers[name]
+}
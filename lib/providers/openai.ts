@@ -0,0 +1,71 @@
+import { ChatProvider } from "./types"
+import { axiosInstance, AUDIO_TIMEOUT, IMAGE_TIMEOUT, MULTIPART_HEADERS, toMultipart } from "./http"
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  // Local servers such as vLLM or Ollama usually run without a key
+  apiKey?: string;
+}
+
+// OpenAI itself and any server exposing the same `/chat/completions` API
+export function createOpenAICompatibleProvider(name: string, config: OpenAICompatibleConfig): ChatProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "")
+  const url = `${baseUrl}/chat/completions`
+  const headers = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+
+  return {
+    name,
+
+    async complete(model, body, signal) {
+      const response = await axiosInstance.post(url, { ...body, model, stream: false }, {
+        headers,
+        signal
+      })
+      return response.data
+    },
+
+    async stream(model, body, signal) {
+      const response = await axiosInstance.post(url, { ...body, model, stream: true }, {
+        headers,
+        responseType: 'stream',
+        signal
+      })
+      return response.data
+    },
+
+    async embed(model, body, signal) {
+      const response = await axiosInstance.post(`${baseUrl}/embeddings`, { ...body, model }, {
+        headers,
+        signal
+      })
+      return response.data
+    },
+
+    async generateImage(model, body, signal) {
+      const response = await axiosInstance.post(`${baseUrl}/images/generations`, { ...body, model }, {
+        headers,
+        timeout: IMAGE_TIMEOUT,
+        signal
+      })
+      return response.data
+    },
+
+    async transcribe(model, audio, fields, signal) {
+      const response = await axiosInstance.post(`${baseUrl}/audio/transcriptions`, toMultipart(audio, { ...fields, model }), {
+        headers: { ...headers, ...MULTIPART_HEADERS },
+        timeout: AUDIO_TIMEOUT,
+        signal
+      })
+      return response.data
+    },
+
+    async speak(model, body, signal) {
+      const response = await axiosInstance.post(`${baseUrl}/audio/speech`, { ...body, model }, {
+        headers,
+        responseType: 'stream',
+        signal
+      })
+      return response.data
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Readable } from "stream"
+
+// Every provider speaks the OpenAI chat-completions format to the routes:
+// requests come in as chat-completions bodies, responses go out as
+// `chat.completion` objects or a stream of `chat.completion.chunk` SSE events.
+export interface ChatProvider {
+  name: string;
+
+  /**
+   * @param {string} upstreamModel - The provider's model or deployment name
+   * @returns {Promise<any>} A chat.completion object
+   */
+  complete(upstreamModel: string, body: Record<string, any>, signal: AbortSignal): Promise<any>;
+
+  /**
+   * @returns {Promise<Readable>} Raw OpenAI-format SSE bytes, ending with `data: [DONE]`
+   */
+  stream(upstreamModel: string, body: Record<string, any>, signal: AbortSignal): Promise<Readable>;
+
+  /**
+   * Only providers with an embeddings API implement this
+   * @returns {Promise<any>} An OpenAI-format embeddings list
+   */
+  embed?(upstreamModel: string, body: Record<string, any>, signal: AbortSignal): Promise<any>;
+
+  /**
+   * Only providers with an image generation API implement this
+   * @returns {Promise<any>} An OpenAI-format images response
+   */
+  generateImage?(upstreamModel: string, body: Record<string, any>, signal: AbortSignal): Promise<any>;
+
+  /**
+   * Only providers with an audio transcription API implement this
+   * @param {Record<string, any>} fields - The other multipart form fields
+   * @returns {Promise<any>} The upstream response in the requested response_format
+   */
+  transcribe?(upstreamModel: string, audio: AudioUpload, fields: Record<string, any>, signal: AbortSignal): Promise<any>;
+
+  /**
+   * Only providers with a text-to-speech API implement this
+   * @returns {Promise<Readable>} The encoded audio
+   */
+  speak?(upstreamModel: string, body: Record<string, any>, signal: AbortSignal): Promise<Readable>;
+}
+
+export interface AudioUpload {
+  buffer: Buffer;
+  filename: string;
+  mimetype: string;
+}
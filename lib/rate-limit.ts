@@ -1,92 +1,263 @@
-import Redis from 'ioredis'
+import { redis } from './redis'
 
-// Initialize Redis client
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379')
+// Requests and tokens per minute. Either may be left out to leave it unlimited.
+export interface RateLimitConfig {
+  rpm?: number;
+  tpm?: number;
+}
+
+// A tier can set tighter limits for individual models
+export interface RateLimitTier extends RateLimitConfig {
+  models?: Record<string, RateLimitConfig>;
+}
 
-// Simple rate limit configuration
-const RATE_LIMIT = {
-  requests: 60,    // 60 requests
-  window: 60      // per minute (in seconds)
+const WINDOW = 60 // seconds
+
+const DEFAULT_TIERS: Record<string, RateLimitTier> = {
+  free: { rpm: 60, tpm: 40000 },
+  pro: { rpm: 600, tpm: 400000 },
+  enterprise: { rpm: 3000, tpm: 2000000 }
+}
+
+// RATE_LIMIT_TIERS overrides or adds tiers, e.g.
+// {"pro":{"rpm":1000,"tpm":500000,"models":{"gpt-4":{"rpm":100}}}}
+function loadTiers(): Record<string, RateLimitTier> {
+  if (!process.env.RATE_LIMIT_TIERS) return DEFAULT_TIERS
+  try {
+    return { ...DEFAULT_TIERS, ...JSON.parse(process.env.RATE_LIMIT_TIERS) }
+  } catch (error) {
+    console.error('Invalid RATE_LIMIT_TIERS, using defaults:', error)
+    return DEFAULT_TIERS
+  }
+}
+
+const TIERS = loadTiers()
+export const DEFAULT_TIER = 'free'
+
+// The plans an account can be put on, see setAccountPlan in lib/admin.ts
+export const isRateLimitPlan = (plan: string) => Object.prototype.hasOwnProperty.call(TIERS, plan)
+export const RATE_LIMIT_PLANS = Object.keys(TIERS)
+
+// What to do when Redis is unavailable: let requests through ("open", the
+// default) or reject them ("closed")
+const FAILURE_POLICY = process.env.RATE_LIMIT_FAILURE_POLICY === 'closed' ? 'closed' : 'open'
+
+// One set of counters. A request is checked against every bucket that
+// applies to it: the user's tier, the tier's model limit, and any overrides
+// on the API key.
+export interface RateLimitBucket {
+  key: string;
+  rpm?: number;
+  tpm?: number;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  // Which limit rejected the request, or "unavailable" when failing closed
+  reason?: 'requests' | 'tokens' | 'unavailable';
+  // Seconds until the request could succeed
+  retryAfter: number;
+  headers: Record<string, string>;
+  // Passed back to recordTokenUsage once the real usage is known
+  buckets: RateLimitBucket[];
 }
 
 /**
- * Rate limits requests based on user ID
- * @param {string} userId - The user's ID
- * @returns {Promise<{ success: boolean, remaining: number, reset: number }>}
+ * Works out the buckets a request counts against
+ * @param {string} userId - The wallet owner
+ * @param {string} plan - The user's tier, falls back to the default tier
+ * @param {{ id: string, rateLimits?: RateLimitTier }} apiKey - The key, with its own overrides if any
+ * @param {string} model - The requested model
  */
-export async function rateLimit(userId: string) {
+export function resolveRateLimits(
+  userId: string,
+  plan: string | undefined,
+  apiKey: { id: string; rateLimits?: RateLimitTier },
+  model: string
+): RateLimitBucket[] {
+  const tier = TIERS[plan || DEFAULT_TIER] || TIERS[DEFAULT_TIER]
+  const buckets: RateLimitBucket[] = [{ key: `rate_limit:${userId}`, rpm: tier.rpm, tpm: tier.tpm }]
+
+  if (tier.models?.[model]) {
+    buckets.push({ key: `rate_limit:${userId}:${model}`, ...tier.models[model] })
+  }
+
+  const overrides = apiKey.rateLimits
+  if (overrides?.rpm || overrides?.tpm) {
+    buckets.push({ key: `rate_limit:key:${apiKey.id}`, rpm: overrides.rpm, tpm: overrides.tpm })
+  }
+  if (overrides?.models?.[model]) {
+    buckets.push({ key: `rate_limit:key:${apiKey.id}:${model}`, ...overrides.models[model] })
+  }
+
+  return buckets.filter(bucket => bucket.rpm || bucket.tpm)
+}
+
+// Tokens are counted in fixed one-minute windows
+const tokenWindow = (now: number) => Math.floor(now / (WINDOW * 1000))
+const tokensKey = (bucket: RateLimitBucket, now: number) => `${bucket.key}:tokens:${tokenWindow(now)}`
+const requestsKey = (bucket: RateLimitBucket) => `${bucket.key}:requests`
+
+// Durations in the format OpenAI uses for its reset headers, e.g. "1m30s"
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds % 60
+  return minutes ? `${minutes}m${rest}s` : `${rest}s`
+}
+
+interface Remaining {
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+// The bucket closest to its limit is the one reported in the headers
+function tightest(current: Remaining | null, next: Remaining) {
+  return !current || next.remaining < current.remaining ? next : current
+}
+
+function buildHeaders(requests: Remaining | null, tokens: Remaining | null) {
+  const headers: Record<string, string> = {}
+  if (requests) {
+    headers['x-ratelimit-limit-requests'] = String(requests.limit)
+    headers['x-ratelimit-remaining-requests'] = String(Math.max(0, requests.remaining))
+    headers['x-ratelimit-reset-requests'] = formatDuration(requests.reset)
+  }
+  if (tokens) {
+    headers['x-ratelimit-limit-tokens'] = String(tokens.limit)
+    headers['x-ratelimit-remaining-tokens'] = String(Math.max(0, tokens.remaining))
+    headers['x-ratelimit-reset-tokens'] = formatDuration(tokens.reset)
+  }
+  return headers
+}
+
+// Checks every bucket and, only if all of them allow the request, counts it,
+// in one step so concurrent requests cannot all pass the same last slot.
+// KEYS: the requests and tokens key of each bucket, in pairs
+// ARGV: now (ms), window (ms), estimated tokens, a unique member for the
+//   request, then the rpm and tpm of each bucket (0 when unlimited)
+// Returns per bucket: requests in the window before this one, the score of
+// the oldest ('' if none) and tokens used this minute
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local estimated = tonumber(ARGV[3])
+local buckets = #KEYS / 2
+local results = {}
+local allowed = true
+
+for i = 1, buckets do
+  local requests = KEYS[i * 2 - 1]
+  local rpm = tonumber(ARGV[3 + i * 2])
+  local tpm = tonumber(ARGV[4 + i * 2])
+
+  redis.call('ZREMRANGEBYSCORE', requests, 0, now - window)
+  local count = redis.call('ZCARD', requests)
+  local oldest = redis.call('ZRANGE', requests, 0, 0, 'WITHSCORES')
+  local tokens = tonumber(redis.call('GET', KEYS[i * 2]) or '0')
+
+  if rpm > 0 and count >= rpm then allowed = false end
+  if tpm > 0 and tokens > 0 and tokens + estimated > tpm then allowed = false end
+  results[i] = { count, oldest[2] or '', tokens }
+end
+
+if allowed then
+  for i = 1, buckets do
+    if tonumber(ARGV[3 + i * 2]) > 0 then
+      redis.call('ZADD', KEYS[i * 2 - 1], now, ARGV[4])
+      redis.call('EXPIRE', KEYS[i * 2 - 1], window / 1000)
+    end
+  end
+end
+
+return results
+`
+
+/**
+ * Checks a request against its buckets and counts it if it is allowed.
+ * Requests use a sliding one-minute window; tokens are checked against what
+ * was already used this minute plus the request's estimated prompt.
+ * @param {RateLimitBucket[]} buckets - From resolveRateLimits
+ * @param {number} estimatedTokens - Estimated prompt tokens of the request
+ * @returns {Promise<RateLimitResult>}
+ */
+export async function rateLimit(buckets: RateLimitBucket[], estimatedTokens = 0): Promise<RateLimitResult> {
+  if (!buckets.length) return { success: true, retryAfter: 0, headers: {}, buckets }
+
   try {
-    const now = Math.floor(Date.now() / 1000)
-    const key = `rate_limit:${userId}`
+    const now = Date.now()
 
-    // Use Redis pipeline for atomic operations
-    const pipeline = redis.pipeline()
-    
-    // Clean up old requests
-    pipeline.zremrangebyscore(key, 0, now - RATE_LIMIT.window)
-    
-    // Count requests in current window
-    pipeline.zcard(key)
-    
-    // Add current request timestamp
-    pipeline.zadd(key, now, `${now}-${Math.random()}`)
-    
-    // Set expiry on the sorted set
-    pipeline.expire(key, RATE_LIMIT.window)
-
-    const results = await pipeline.exec()
-    // Need to handle the case where results might be null
+    const keys = buckets.flatMap(bucket => [requestsKey(bucket), tokensKey(bucket, now)])
+    const args = [now, WINDOW * 1000, estimatedTokens, `${now}-${Math.random()}`]
+    for (const bucket of buckets) args.push(bucket.rpm || 0, bucket.tpm || 0)
+
+    const results = await redis.eval(RATE_LIMIT_SCRIPT, keys.length, ...keys, ...args) as [number, string, number][]
     if (!results) {
-      throw new Error('Failed to execute Redis pipeline')
+      throw new Error('Failed to run the rate limit script')
     }
-    
-    // Parse the request count as a number
-    const requestCount = results[1][1] as number
-
-    // Calculate time until reset
-    const oldestRequest = await redis.zrange(key, 0, 0, 'WITHSCORES')
-    const resetTime = oldestRequest.length ? parseInt(oldestRequest[1]) + RATE_LIMIT.window : now + RATE_LIMIT.window
-
-    if (requestCount >= RATE_LIMIT.requests) {
-      return {
-        success: false,
-        remaining: 0,
-        reset: resetTime,
-        limit: RATE_LIMIT.requests
+
+    let requests: Remaining | null = null
+    let tokens: Remaining | null = null
+    let reason: RateLimitResult['reason']
+    let retryAfter = 0
+    const tokenReset = Math.ceil(((tokenWindow(now) + 1) * WINDOW * 1000 - now) / 1000)
+
+    buckets.forEach((bucket, i) => {
+      const [requestCount, oldest, tokenCount] = results[i]
+
+      if (bucket.rpm) {
+        const reset = oldest
+          ? Math.max(1, Math.ceil((Number(oldest) + WINDOW * 1000 - now) / 1000))
+          : WINDOW
+        requests = tightest(requests, { limit: bucket.rpm, remaining: bucket.rpm - requestCount - 1, reset })
+        if (requestCount >= bucket.rpm) {
+          reason = reason || 'requests'
+          retryAfter = Math.max(retryAfter, reset)
+        }
       }
-    }
 
-    return {
-      success: true,
-      remaining: RATE_LIMIT.requests - Math.floor(requestCount),
-      reset: resetTime,
-      limit: RATE_LIMIT.requests
+      if (bucket.tpm) {
+        tokens = tightest(tokens, { limit: bucket.tpm, remaining: bucket.tpm - tokenCount, reset: tokenReset })
+        if (tokenCount > 0 && tokenCount + estimatedTokens > bucket.tpm) {
+          reason = reason || 'tokens'
+          retryAfter = Math.max(retryAfter, tokenReset)
+        }
+      }
+    })
+
+    const headers = buildHeaders(requests, tokens)
+    if (reason) {
+      return { success: false, reason, retryAfter, headers, buckets }
     }
+    return { success: true, retryAfter: 0, headers, buckets }
   } catch (error) {
     console.error('Rate limiting error:', error)
-    
-    // Fail open if rate limiting is broken
-    return {
-      success: true,
-      remaining: 1,
-      reset: Math.floor(Date.now() / 1000) + 3600,
-      limit: RATE_LIMIT.requests,
-      error: 'Rate limiting temporarily unavailable'
+
+    if (FAILURE_POLICY === 'closed') {
+      return { success: false, reason: 'unavailable', retryAfter: 1, headers: {}, buckets }
     }
+    // Fail open if rate limiting is broken
+    return { success: true, retryAfter: 0, headers: {}, buckets }
   }
 }
 
 /**
- * Utility function to format rate limit headers
+ * Debits the tokens a request actually used once the upstream has reported
+ * them. Best effort: a failure only loosens the limit.
  */
-export function getRateLimitHeaders(rateLimitInfo: {
-  limit: number;
-  remaining: number;
-  reset: number;
-}) {
-  return {
-    'X-RateLimit-Limit': rateLimitInfo.limit.toString(),
-    'X-RateLimit-Remaining': rateLimitInfo.remaining.toString(),
-    'X-RateLimit-Reset': rateLimitInfo.reset.toString(),
+export async function recordTokenUsage(buckets: RateLimitBucket[], usedTokens: number) {
+  const tokenBuckets = buckets.filter(bucket => bucket.tpm)
+  if (!tokenBuckets.length || !usedTokens) return
+
+  try {
+    const now = Date.now()
+    const pipeline = redis.pipeline()
+    for (const bucket of tokenBuckets) {
+      pipeline.incrby(tokensKey(bucket, now), usedTokens)
+      pipeline.expire(tokensKey(bucket, now), WINDOW * 2)
+    }
+    await pipeline.exec()
+  } catch (error) {
+    console.error('Failed to record token usage:', error)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,144 @@
+import crypto from "crypto"
+import { redis } from "./redis"
+import { connectToDatabase } from "./mongodb"
+import { drainOutbox } from "./outbox"
+
+const LOCK_KEY = "lock:reconcile"
+const LOCK_TTL = 300 // 5 minutes
+const SCAN_BATCH = 500
+// Balances are floats; differences below this are rounding noise
+const BALANCE_EPSILON = 1e-9
+
+// Deletes the lock only if it still holds this run's token. A run that
+// outlasts LOCK_TTL has lost the lock to the next run and must not free it.
+// KEYS: the lock; ARGV: the token the run locked it with
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+export interface WalletCorrection {
+  userId: string;
+  cachedBalance: number | null;
+  actualBalance: number | null;
+  action: "updated" | "deleted";
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  outbox: {
+    applied: number;
+    failed: number;
+    deadLettered: number;
+  };
+  cacheEntriesChecked: number;
+  corrections: WalletCorrection[];
+}
+
+async function* scanWalletKeys() {
+  let cursor = "0"
+  do {
+    const [next, keys] = await redis.scan(cursor, "MATCH", "wallet:*", "COUNT", SCAN_BATCH)
+    cursor = next
+    if (keys.length) yield keys
+  } while (cursor !== "0")
+}
+
+/**
+ * Replays the wallet outbox, then compares every cached `wallet:*` entry
+ * against Mongo and repairs the ones that drifted
+ * @returns {Promise<ReconciliationReport | null>} null if another run holds the lock
+ */
+export async function reconcileWallets(): Promise<ReconciliationReport | null> {
+  const token = crypto.randomUUID()
+  const locked = await redis.set(LOCK_KEY, token, "EX", LOCK_TTL, "NX")
+  if (!locked) return null
+
+  try {
+    const startedAt = new Date()
+    const outbox = await drainOutbox()
+
+    // Users with writes still queued legitimately differ from Mongo
+    const pendingUsers = new Set(outbox.failed.map(entry => entry.userId))
+
+    const db = await connectToDatabase()
+    const wallets = db.collection("wallets")
+
+    const corrections: WalletCorrection[] = []
+    let cacheEntriesChecked = 0
+
+    for await (const cacheKeys of scanWalletKeys()) {
+      const cached = await redis.mget(...cacheKeys)
+      const entries = cacheKeys.map((cacheKey, i) => ({
+        cacheKey,
+        userId: cacheKey.slice("wallet:".length),
+        wallet: cached[i] ? JSON.parse(cached[i]!) : null
+      }))
+      cacheEntriesChecked += entries.length
+
+      const userIds = entries.map(e => e.userId)
+      const walletDocs = await wallets.find({ userId: { $in: userIds } }).toArray()
+      const walletByUser = new Map(walletDocs.map(doc => [doc.userId as string, doc]))
+
+      const pipeline = redis.pipeline()
+      for (const entry of entries) {
+        if (!entry.wallet) continue
+
+        const actual = walletByUser.get(entry.userId)
+
+        // The wallet no longer exists, or the entry predates per-user
+        // caching and is keyed by an API key
+        if (!actual) {
+          pipeline.del(entry.cacheKey)
+          corrections.push({
+            userId: entry.wallet.userId ?? entry.userId,
+            cachedBalance: entry.wallet.balance ?? null,
+            actualBalance: null,
+            action: "deleted"
+          })
+          continue
+        }
+
+        if (pendingUsers.has(actual.userId)) continue
+
+        if (Math.abs((entry.wallet.balance ?? 0) - actual.balance) > BALANCE_EPSILON) {
+          pipeline.set(entry.cacheKey, JSON.stringify(actual))
+          corrections.push({
+            userId: actual.userId,
+            cachedBalance: entry.wallet.balance ?? null,
+            actualBalance: actual.balance,
+            action: "updated"
+          })
+        }
+      }
+      await pipeline.exec()
+    }
+
+    const report: ReconciliationReport = {
+      startedAt,
+      finishedAt: new Date(),
+      outbox: {
+        applied: outbox.applied.length,
+        failed: outbox.failed.length,
+        deadLettered: outbox.deadLettered.length
+      },
+      cacheEntriesChecked,
+      corrections
+    }
+
+    await db.collection("reconciliationReports").insertOne({ ...report })
+    // Clean runs are only kept in reconciliationReports
+    if (corrections.length || outbox.failed.length || outbox.deadLettered.length) {
+      console.warn("Wallet reconciliation found drift:", JSON.stringify({
+        ...report,
+        corrections: report.corrections.length
+      }))
+    }
+    return report
+  } finally {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, token)
+  }
+}
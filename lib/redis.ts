@@ -0,0 +1,8 @@
+import { Redis } from "ioredis"
+
+// Shared Redis connection for the API routes and background jobs
+export const redis = new Redis(process.env.REDIS_URL || "redis://localhost:6379", {
+  retryStrategy: (times) => Math.min(times * 50, 2000),
+  enableReadyCheck: true,
+  maxRetriesPerRequest: 3
+})
@@ -0,0 +1,172 @@
+import express from "express"
+import axios from "axios"
+import { WithId } from "mongodb"
+import { ApiKeyDocument, isModelAllowed } from "./api-keys"
+import { getModelPricing } from "./pricing"
+import { getModelKind, ModelKind } from "./models"
+import { SpendLimitViolation } from "./spend-limits"
+import { rateLimit, resolveRateLimits, RateLimitResult } from "./rate-limit"
+import { notifyRateLimited } from "./alerts"
+import { reserveRequestFunds } from "./billing"
+import { invalidRequest, InvalidRequestError, OpenAIError } from "./chat-schema"
+
+// Checks every billed API route runs before going upstream, and the
+// OpenAI-style error responses they send
+
+/**
+ * Checks that a model is priced, enabled, serves this kind of request and is
+ * allowed for the key
+ * @returns {Promise<{ status: number, error: OpenAIError } | null>} null if the model may be used
+ */
+export async function checkModelAccess(
+  apiKey: ApiKeyDocument,
+  model: string,
+  kind: ModelKind
+): Promise<{ status: number; error: OpenAIError } | null> {
+  // Unpriced models are rejected rather than billed at another model's rate
+  const pricing = await getModelPricing(model)
+  if (!pricing) {
+    return { status: 400, error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found") }
+  }
+  if (pricing.disabled) {
+    return {
+      status: 400,
+      error: invalidRequest(`The model '${model}' is currently unavailable`, "model", "model_unavailable")
+    }
+  }
+  if (getModelKind(model) !== kind) {
+    return {
+      status: 400,
+      error: invalidRequest(`The model '${model}' does not support this endpoint`, "model", "model_not_supported")
+    }
+  }
+  if (!isModelAllowed(apiKey, model)) {
+    return {
+      status: 403,
+      error: invalidRequest(`This API key is not allowed to use the model '${model}'`, "model", "model_not_allowed")
+    }
+  }
+  return null
+}
+
+// Lifetime budgets never reset, so they are reported like an empty wallet;
+// daily and monthly limits are retryable once the period rolls over
+export function sendSpendLimitError(res: express.Response, violation: SpendLimitViolation) {
+  const message = `This API key has reached its ${violation.period} spending limit of ${violation.limit}`
+  if (!violation.resetsAt) {
+    return res.status(402).json({
+      error: { message, type: "insufficient_quota", param: null, code: "api_key_budget_exhausted" }
+    })
+  }
+
+  res.setHeader('Retry-After', String(Math.ceil((violation.resetsAt.getTime() - Date.now()) / 1000)))
+  return res.status(429).json({
+    error: { message, type: "insufficient_quota", param: null, code: "api_key_spend_limit_exceeded" }
+  })
+}
+
+function sendRateLimitError(res: express.Response, result: RateLimitResult) {
+  res.setHeader('Retry-After', String(result.retryAfter))
+
+  // Raised only when the failure policy is closed and Redis is down
+  if (result.reason === "unavailable") {
+    return res.status(503).json({
+      error: {
+        message: "Rate limiting is temporarily unavailable, please retry shortly",
+        type: "server_error",
+        param: null,
+        code: "rate_limit_unavailable"
+      }
+    })
+  }
+
+  return res.status(429).json({
+    error: {
+      message: `Rate limit reached for ${result.reason} per minute. Please try again in ${result.retryAfter}s.`,
+      type: result.reason,
+      param: null,
+      code: "rate_limit_exceeded"
+    }
+  })
+}
+
+/**
+ * Counts the request against the account's and key's rate limits and sets
+ * the rate limit headers. Tokens are checked against the estimate here and
+ * debited with recordTokenUsage once the upstream reports real usage.
+ * @returns {Promise<RateLimitResult | null>} null if the request was rejected and the response sent
+ */
+export async function enforceRateLimit(
+  res: express.Response,
+  apiKey: WithId<ApiKeyDocument>,
+  wallet: { userId: string; plan?: string },
+  model: string,
+  estimatedTokens: number
+): Promise<RateLimitResult | null> {
+  const apiKeyId = apiKey._id.toString()
+  const result = await rateLimit(
+    resolveRateLimits(wallet.userId, wallet.plan, { id: apiKeyId, rateLimits: apiKey.rateLimits }, model),
+    estimatedTokens
+  )
+  for (const [header, value] of Object.entries(result.headers)) {
+    res.setHeader(header, value)
+  }
+  if (!result.success) {
+    if (result.reason === "requests" || result.reason === "tokens") {
+      notifyRateLimited(apiKey, {
+        type: result.reason,
+        limit: Number(result.headers[`x-ratelimit-limit-${result.reason}`])
+      })
+    }
+    sendRateLimitError(res, result)
+    return null
+  }
+  return result
+}
+
+/**
+ * Places the hold for a request's worst-case cost, so concurrent requests
+ * can neither spend the same balance nor overshoot the key's hard limits
+ * @param {number} ttl - Seconds until the hold is considered abandoned
+ * @returns {Promise<string | null>} The hold id, or null if the request was rejected and the response sent
+ */
+export async function placeRequestHold(
+  res: express.Response,
+  apiKey: WithId<ApiKeyDocument>,
+  userId: string,
+  amount: number,
+  meta: { model?: string } = {},
+  ttl?: number
+): Promise<string | null> {
+  const hold = await reserveRequestFunds(apiKey, userId, amount, meta, ttl)
+  if (hold.violation) {
+    sendSpendLimitError(res, hold.violation)
+    return null
+  }
+  if (!hold.holdId) {
+    res.status(402).json({ error: "Insufficient funds" })
+    return null
+  }
+  return hold.holdId
+}
+
+/**
+ * Reports a failed request, passing upstream errors through with their status
+ */
+export function sendRequestError(res: express.Response, error: any, message: string) {
+  // Mid-stream failures are reported to the client as SSE events
+  if (res.headersSent) return res.end()
+
+  if (error instanceof InvalidRequestError) {
+    return res.status(error.status).json({ error: error.error })
+  }
+
+  if (axios.isAxiosError(error)) {
+    console.error("Axios error details:", error.response?.data)
+    return res.status(error.response?.status || 500).json({
+      error: (error.response?.data as any)?.error || message
+    })
+  }
+
+  res.status(error.status || 500).json({ error: error.message || "An internal error occurred" })
+}
@@ -0,0 +1,226 @@
+import crypto from "crypto"
+import { redis } from "./redis"
+import { resolveModel } from "./models"
+import { withFailover } from "./failover"
+
+// Responses are cached per scope (the user, or later an organization), so
+// one customer's prompts are never served to another
+const DEFAULT_TTL = 3600 // 1 hour
+const MAX_TTL = 24 * 3600 // 1 day
+
+// Near-duplicate matching is opt-in: it costs an embeddings call per miss
+const SEMANTIC_MODEL = process.env.SEMANTIC_CACHE_EMBEDDING_MODEL
+const SEMANTIC_THRESHOLD = Number(process.env.SEMANTIC_CACHE_THRESHOLD) || 0.97
+const SEMANTIC_INDEX_SIZE = 100
+
+export type CacheOutcome = "hit" | "semantic_hit" | "miss" | "bypass"
+
+export interface CacheOptions {
+  lookup: boolean;
+  store: boolean;
+  ttl: number;
+  // Oldest cached entry the client accepts, in seconds
+  maxAge?: number;
+}
+
+interface CachedEntry {
+  response: any;
+  storedAt: number;
+}
+
+/**
+ * Derives the cache policy for a request from its body and its
+ * `Cache-Control` header:
+ * - `no-store` disables the cache entirely
+ * - `no-cache` skips the lookup but still stores the fresh response
+ * - `max-age=N` stores for N seconds and only serves entries at most N
+ *   seconds old. It also opts in requests that are not cached by default.
+ * Sampled requests (temperature above 0, or unset since it defaults to 1)
+ * are not cached by default because a cached answer changes their semantics.
+ */
+export function parseCacheOptions(cacheControl: string | undefined, body: Record<string, any>): CacheOptions {
+  const directives = (cacheControl || "")
+    .toLowerCase()
+    .split(",")
+    .map(directive => directive.trim())
+
+  const maxAgeDirective = directives.find(directive => directive.startsWith("max-age="))
+  const maxAge = maxAgeDirective ? Number(maxAgeDirective.slice("max-age=".length)) : undefined
+  const hasMaxAge = maxAge !== undefined && Number.isInteger(maxAge) && maxAge >= 0
+
+  const deterministic = body.temperature === 0 && (body.n ?? 1) === 1
+  const enabled = !body.stream && !directives.includes("no-store") && (deterministic || hasMaxAge)
+
+  return {
+    lookup: enabled && !directives.includes("no-cache"),
+    store: enabled && maxAge !== 0,
+    ttl: hasMaxAge ? Math.min(maxAge!, MAX_TTL) : DEFAULT_TTL,
+    maxAge: hasMaxAge ? maxAge : undefined
+  }
+}
+
+// Serializes with sorted keys so logically equal bodies hash the same
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+function hash(value: any) {
+  return crypto.createHash("sha256").update(canonicalJson(value)).digest("hex")
+}
+
+// Every request parameter except the transport flags is part of the key
+function cacheableParams(body: Record<string, any>) {
+  const { stream, stream_options, ...params } = body
+  return params
+}
+
+export function generateCacheKey(scope: string, body: Record<string, any>): string {
+  return `cache:${scope}:${hash(cacheableParams(body))}`
+}
+
+export async function getCachedResponse(cacheKey: string, options: CacheOptions) {
+  const raw = await redis.get(cacheKey)
+  if (!raw) return null
+
+  const entry: CachedEntry = JSON.parse(raw)
+  if (options.maxAge !== undefined && Date.now() - entry.storedAt > options.maxAge * 1000) {
+    return null
+  }
+  return entry.response
+}
+
+export async function storeCachedResponse(cacheKey: string, response: any, options: CacheOptions) {
+  const entry: CachedEntry = { response, storedAt: Date.now() }
+  await redis.setex(cacheKey, options.ttl, JSON.stringify(entry))
+}
+
+function messagesText(messages: any[]): string {
+  return (messages || [])
+    .map(message => {
+      const content = typeof message.content === "string"
+        ? message.content
+        : JSON.stringify(message.content ?? "")
+      return `${message.role}: ${content}`
+    })
+    .join("\n")
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB) || 1)
+}
+
+// Near-duplicates must match on every parameter except the messages
+const semanticIndexKey = (scope: string, body: Record<string, any>) => {
+  const { messages, ...params } = cacheableParams(body)
+  return `semcache:${scope}:${hash(params)}`
+}
+
+async function embedMessages(messages: any[], signal: AbortSignal): Promise<number[] | null> {
+  if (!SEMANTIC_MODEL) return null
+
+  const targets = resolveModel(SEMANTIC_MODEL).filter(target => target.provider.embed)
+  if (!targets.length) return null
+
+  const result = await withFailover(SEMANTIC_MODEL, targets, signal, (provider, upstreamModel) =>
+    provider.embed!(upstreamModel, { input: messagesText(messages) }, signal)
+  )
+  return result?.data?.[0]?.embedding || null
+}
+
+/**
+ * Looks for a cached response to a near-identical prompt. Returns the
+ * embedding as well so the caller can index the response it is about to store.
+ */
+export async function findSimilarResponse(
+  scope: string,
+  body: Record<string, any>,
+  options: CacheOptions,
+  signal: AbortSignal
+): Promise<{ response: any | null; embedding: number[] | null }> {
+  try {
+    const embedding = await embedMessages(body.messages, signal)
+    if (!embedding) return { response: null, embedding: null }
+
+    const candidates = await redis.lrange(semanticIndexKey(scope, body), 0, -1)
+    let best: { cacheKey: string; score: number } | null = null
+    for (const raw of candidates) {
+      const candidate = JSON.parse(raw)
+      const score = cosineSimilarity(embedding, candidate.embedding)
+      if (score >= SEMANTIC_THRESHOLD && (!best || score > best.score)) {
+        best = { cacheKey: candidate.cacheKey, score }
+      }
+    }
+
+    const response = best ? await getCachedResponse(best.cacheKey, options) : null
+    return { response, embedding }
+  } catch (error) {
+    // The semantic layer is best effort; a failure is just a miss
+    console.error("Semantic cache lookup failed:", error)
+    return { response: null, embedding: null }
+  }
+}
+
+export async function indexSimilarResponse(
+  scope: string,
+  body: Record<string, any>,
+  cacheKey: string,
+  embedding: number[],
+  options: CacheOptions
+) {
+  const indexKey = semanticIndexKey(scope, body)
+  await redis
+    .multi()
+    .lpush(indexKey, JSON.stringify({ cacheKey, embedding }))
+    .ltrim(indexKey, 0, SEMANTIC_INDEX_SIZE - 1)
+    .expire(indexKey, options.ttl)
+    .exec()
+}
+
+const statsKey = (apiKeyId: string) => `cache_stats:${apiKeyId}`
+
+export async function recordCacheOutcome(apiKeyId: string, outcome: CacheOutcome) {
+  try {
+    await redis.hincrby(statsKey(apiKeyId), outcome, 1)
+  } catch (error) {
+    console.error("Failed to record cache outcome:", error)
+  }
+}
+
+/**
+ * Hit/miss counters for each of the given keys
+ */
+export async function getCacheStats(apiKeyIds: string[]): Promise<Record<string, Record<CacheOutcome, number>>> {
+  if (!apiKeyIds.length) return {}
+
+  const pipeline = redis.pipeline()
+  for (const apiKeyId of apiKeyIds) pipeline.hgetall(statsKey(apiKeyId))
+  const results = (await pipeline.exec()) || []
+
+  const stats: Record<string, Record<CacheOutcome, number>> = {}
+  apiKeyIds.forEach((apiKeyId, i) => {
+    const counters = (results[i]?.[1] || {}) as Record<string, string>
+    stats[apiKeyId] = {
+      hit: Number(counters.hit || 0),
+      semantic_hit: Number(counters.semantic_hit || 0),
+      miss: Number(counters.miss || 0),
+      bypass: Number(counters.bypass || 0)
+    }
+  })
+  return stats
+}
@@ -0,0 +1,483 @@
+import crypto from "crypto"
+import { Response } from "express"
+import { invalidRequest, OpenAIError, validateChatRequest } from "./chat-schema"
+import { StreamWriter } from "./stream-proxy"
+
+// The Responses API, served by the chat upstream. Input items become chat
+// messages, and the completion's message and tool calls become output items.
+// Nothing is stored, so stateful features (previous_response_id, retrieving
+// a response later, background mode) are rejected rather than faked.
+
+const MESSAGE_ROLES = ["user", "assistant", "system", "developer"]
+
+// Chat-completions names of the translated parameters, for error messages
+const CHAT_NAMES: Record<string, string> = {
+  messages: "input",
+  max_completion_tokens: "max_output_tokens",
+  response_format: "text",
+}
+
+// Passed to the chat upstream under the same name
+const PASSTHROUGH_PARAMETERS = ["model", "temperature", "top_p", "parallel_tool_calls", "stream", "user"]
+
+// Parameters that would need stored state or upstream features chat lacks
+const UNSUPPORTED_PARAMETERS = ["previous_response_id", "conversation", "background", "prompt", "include", "reasoning"]
+
+type Translated<T> = { value: T; error?: undefined } | { error: string; value?: undefined }
+
+const id = (prefix: string) => `${prefix}_${crypto.randomBytes(24).toString("hex")}`
+
+function toContentPart(part: any, role: string): Translated<any> {
+  switch (part?.type) {
+    case "input_text":
+    case "output_text":
+      return typeof part.text === "string" ? { value: { type: "text", text: part.text } } : { error: "text must be a string" }
+    case "refusal":
+      return { value: { type: "text", text: String(part.refusal ?? "") } }
+    case "input_image":
+      if (role !== "user") return { error: "images are only allowed in user messages" }
+      if (typeof part.image_url !== "string") return { error: "image_url is required; file_id is not supported" }
+      return { value: { type: "image_url", image_url: { url: part.image_url, detail: part.detail ?? "auto" } } }
+    default:
+      return { error: `content type '${part?.type}' is not supported` }
+  }
+}
+
+function toMessages(input: any, instructions?: string): Translated<any[]> {
+  const messages: any[] = []
+  if (instructions) messages.push({ role: "system", content: instructions })
+
+  if (typeof input === "string") {
+    messages.push({ role: "user", content: input })
+    return { value: messages }
+  }
+  if (!Array.isArray(input) || !input.length) return { error: "must be a string or a non-empty array of items" }
+
+  for (const [i, item] of input.entries()) {
+    const type = item?.type ?? (item?.role ? "message" : undefined)
+    const previous = messages[messages.length - 1]
+
+    if (type === "message") {
+      if (!MESSAGE_ROLES.includes(item.role)) return { error: `item ${i}: role must be one of: ${MESSAGE_ROLES.join(", ")}` }
+      if (typeof item.content === "string") {
+        messages.push({ role: item.role, content: item.content })
+        continue
+      }
+      if (!Array.isArray(item.content)) return { error: `item ${i}: content must be a string or an array of content parts` }
+
+      const parts: any[] = []
+      for (const part of item.content) {
+        const converted = toContentPart(part, item.role)
+        if (converted.error) return { error: `item ${i}: ${converted.error}` }
+        parts.push(converted.value)
+      }
+      messages.push({ role: item.role, content: parts })
+    } else if (type === "function_call") {
+      if (typeof item.call_id !== "string" || typeof item.name !== "string") {
+        return { error: `item ${i}: call_id and name are required for function calls` }
+      }
+      const call = { id: item.call_id, type: "function", function: { name: item.name, arguments: item.arguments ?? "" } }
+      // Calls made in the same turn belong to one assistant message
+      if (previous?.role === "assistant") {
+        previous.tool_calls = [...(previous.tool_calls || []), call]
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [call] })
+      }
+    } else if (type === "function_call_output") {
+      if (typeof item.call_id !== "string") return { error: `item ${i}: call_id is required for function call outputs` }
+      const output = typeof item.output === "string" ? item.output : JSON.stringify(item.output ?? "")
+      messages.push({ role: "tool", tool_call_id: item.call_id, content: output })
+    } else if (type === "reasoning") {
+      // Replayed from an earlier output; chat upstreams take no reasoning input
+      continue
+    } else {
+      return { error: `item ${i}: type '${type}' is not supported` }
+    }
+  }
+  return { value: messages }
+}
+
+function toTools(tools: any): Translated<any[]> {
+  if (!Array.isArray(tools)) return { error: "must be an array" }
+
+  const converted: any[] = []
+  for (const [i, tool] of tools.entries()) {
+    if (tool?.type !== "function") return { error: `item ${i}: tool type '${tool?.type}' is not supported` }
+    if (typeof tool.name !== "string") return { error: `item ${i}: name is required` }
+
+    const { type, ...definition } = tool
+    converted.push({ type, function: definition })
+  }
+  return { value: converted }
+}
+
+function toToolChoice(choice: any): Translated<any> {
+  if (["none", "auto", "required"].includes(choice)) return { value: choice }
+  if (choice?.type === "function" && typeof choice.name === "string") {
+    return { value: { type: "function", function: { name: choice.name } } }
+  }
+  return { error: "must be 'none', 'auto', 'required' or a function selection" }
+}
+
+function toResponseFormat(text: any): Translated<any> {
+  const format = text?.format
+  if (!format || format.type === "text") return { value: undefined }
+  if (format.type === "json_object") return { value: { type: "json_object" } }
+  if (format.type === "json_schema") {
+    const { type, ...jsonSchema } = format
+    return { value: { type, json_schema: jsonSchema } }
+  }
+  return { error: "format.type must be one of: text, json_object, json_schema" }
+}
+
+/**
+ * Validates a Responses API body and translates it to a chat-completions body
+ * @returns {{ params: Record<string, any>, response: Record<string, any> } | { error: OpenAIError }}
+ *   response holds the request settings echoed back on the response object
+ */
+export function validateResponseRequest(
+  body: any
+):
+  | { params: Record<string, any>; response: Record<string, any>; error?: undefined }
+  | { error: OpenAIError; params?: undefined; response?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: invalidRequest("Request body must be a JSON object") }
+  }
+  for (const name of ["model", "input"]) {
+    if (body[name] === undefined || body[name] === null) {
+      return { error: invalidRequest(`Missing required parameter: '${name}'.`, name, "missing_required_parameter") }
+    }
+  }
+
+  const chatBody: Record<string, any> = {}
+  const invalid = (name: string, problem: string) => ({
+    error: invalidRequest(`Invalid '${name}': ${problem}.`, name, "invalid_value")
+  })
+
+  for (const [name, value] of Object.entries(body)) {
+    if (value === null) continue
+
+    if (UNSUPPORTED_PARAMETERS.includes(name)) {
+      return { error: invalidRequest(`'${name}' is not supported on this endpoint.`, name, "unsupported_parameter") }
+    }
+    if (PASSTHROUGH_PARAMETERS.includes(name)) {
+      chatBody[name] = value
+      continue
+    }
+
+    switch (name) {
+      // Both become chat messages once the loop is done
+      case "input":
+        break
+      case "instructions":
+        if (typeof value !== "string") return invalid(name, "must be a string")
+        break
+      case "max_output_tokens":
+        chatBody.max_completion_tokens = value
+        break
+      case "tools": {
+        const tools = toTools(value)
+        if (tools.error) return invalid(name, tools.error)
+        if (tools.value.length) chatBody.tools = tools.value
+        break
+      }
+      case "tool_choice": {
+        const choice = toToolChoice(value)
+        if (choice.error) return invalid(name, choice.error)
+        chatBody.tool_choice = choice.value
+        break
+      }
+      case "text": {
+        const format = toResponseFormat(value)
+        if (format.error) return invalid(name, format.error)
+        if (format.value) chatBody.response_format = format.value
+        break
+      }
+      case "metadata":
+        if (typeof value !== "object" || Array.isArray(value)) return invalid(name, "must be an object")
+        break
+      case "truncation":
+        if (value !== "disabled") return invalid(name, "only 'disabled' is supported")
+        break
+      // Responses are never stored, whatever the client asks for
+      case "store":
+        if (typeof value !== "boolean") return invalid(name, "must be a boolean")
+        break
+      default:
+        return { error: invalidRequest(`Unrecognized request argument supplied: ${name}`, name, "unknown_parameter") }
+    }
+  }
+
+  const messages = toMessages(body.input, body.instructions ?? undefined)
+  if (messages.error) return invalid("input", messages.error)
+  chatBody.messages = messages.value
+
+  const validation = validateChatRequest(chatBody)
+  if (validation.error) {
+    const param = validation.error.param && (CHAT_NAMES[validation.error.param] ?? validation.error.param)
+    const message = validation.error.param
+      ? validation.error.message.replace(`'${validation.error.param}'`, `'${param}'`)
+      : validation.error.message
+    return { error: { ...validation.error, message, param } }
+  }
+
+  return {
+    params: validation.params,
+    response: {
+      model: body.model,
+      instructions: body.instructions ?? null,
+      max_output_tokens: body.max_output_tokens ?? null,
+      metadata: body.metadata ?? {},
+      parallel_tool_calls: body.parallel_tool_calls ?? true,
+      previous_response_id: null,
+      store: false,
+      temperature: body.temperature ?? 1,
+      text: body.text ?? { format: { type: "text" } },
+      tool_choice: body.tool_choice ?? "auto",
+      tools: body.tools ?? [],
+      top_p: body.top_p ?? 1,
+      truncation: "disabled",
+      user: body.user ?? null
+    }
+  }
+}
+
+function toResponseUsage(usage: any) {
+  if (!usage) return null
+  return {
+    input_tokens: usage.prompt_tokens ?? 0,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0 },
+    output_tokens: usage.completion_tokens ?? 0,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+    total_tokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0)
+  }
+}
+
+// Chat finish reasons that leave a response incomplete
+const INCOMPLETE_REASONS: Record<string, string> = {
+  length: "max_output_tokens",
+  content_filter: "content_filter",
+}
+
+function responseObject(
+  responseId: string,
+  createdAt: number,
+  settings: Record<string, any>,
+  state: { status: string; output: any[]; usage?: any; finishReason?: string | null; error?: any }
+) {
+  const incompleteReason = state.finishReason ? INCOMPLETE_REASONS[state.finishReason] : undefined
+  const status = state.status === "completed" && incompleteReason ? "incomplete" : state.status
+
+  return {
+    id: responseId,
+    object: "response",
+    created_at: createdAt,
+    status,
+    error: state.error ?? null,
+    incomplete_details: status === "incomplete" ? { reason: incompleteReason } : null,
+    ...settings,
+    output: state.output,
+    usage: toResponseUsage(state.usage)
+  }
+}
+
+function outputText(parts: any[]) {
+  return parts.filter(part => part.type === "output_text").map(part => part.text).join("")
+}
+
+/**
+ * Converts a chat completion to a Responses API response object
+ */
+export function toResponse(completion: any, settings: Record<string, any>) {
+  const choice = completion.choices?.[0] || {}
+  const message = choice.message || {}
+  const itemStatus = INCOMPLETE_REASONS[choice.finish_reason] ? "incomplete" : "completed"
+  const output: any[] = []
+
+  const content: any[] = []
+  if (message.content) content.push({ type: "output_text", text: message.content, annotations: [] })
+  if (message.refusal) content.push({ type: "refusal", refusal: message.refusal })
+  if (content.length) {
+    output.push({ type: "message", id: id("msg"), status: itemStatus, role: "assistant", content })
+  }
+
+  for (const call of message.tool_calls || []) {
+    output.push({
+      type: "function_call",
+      id: id("fc"),
+      call_id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments ?? "",
+      status: itemStatus
+    })
+  }
+
+  return {
+    ...responseObject(id("resp"), completion.created ?? Math.floor(Date.now() / 1000), settings, {
+      status: "completed",
+      output,
+      usage: completion.usage,
+      finishReason: choice.finish_reason
+    }),
+    output_text: outputText(content)
+  }
+}
+
+/**
+ * Relays chat.completion.chunk events as Responses API stream events
+ */
+export function createResponseStreamWriter(res: Response, settings: Record<string, any>): StreamWriter {
+  const responseId = id("resp")
+  const createdAt = Math.floor(Date.now() / 1000)
+  const output: any[] = []
+  let sequence = 0
+  let usage: any = null
+  let finishReason: string | null = null
+  let failure: any = null
+
+  // The open message item, and the open function call items by tool call index
+  let message: { item: any; index: number; text: string; refusal: string } | null = null
+  const calls = new Map<number, { item: any; index: number }>()
+
+  const send = (type: string, data: Record<string, any>) => {
+    if (res.writableEnded) return
+    res.write(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequence++, ...data })}\n\n`)
+  }
+  const snapshot = (status: string) =>
+    responseObject(responseId, createdAt, settings, { status, output, usage, finishReason, error: failure })
+
+  send("response.created", { response: snapshot("in_progress") })
+  send("response.in_progress", { response: snapshot("in_progress") })
+
+  const addItem = (item: any) => {
+    output.push(item)
+    send("response.output_item.added", { output_index: output.length - 1, item })
+    return output.length - 1
+  }
+
+  const openMessage = () => {
+    if (message) return message
+    const item = { type: "message", id: id("msg"), status: "in_progress", role: "assistant", content: [] }
+    message = { item, index: addItem(item), text: "", refusal: "" }
+    return message
+  }
+
+  // Each kind of content gets its own part, opened when it first appears
+  const appendContent = (kind: "output_text" | "refusal", delta: string) => {
+    const open = openMessage()
+    let contentIndex = open.item.content.findIndex((part: any) => part.type === kind)
+    if (contentIndex === -1) {
+      const part = kind === "output_text" ? { type: kind, text: "", annotations: [] } : { type: kind, refusal: "" }
+      open.item.content.push(part)
+      contentIndex = open.item.content.length - 1
+      send("response.content_part.added", { item_id: open.item.id, output_index: open.index, content_index: contentIndex, part })
+    }
+
+    const location = { item_id: open.item.id, output_index: open.index, content_index: contentIndex }
+    if (kind === "output_text") {
+      open.text += delta
+      send("response.output_text.delta", { ...location, delta, logprobs: [] })
+    } else {
+      open.refusal += delta
+      send("response.refusal.delta", { ...location, delta })
+    }
+  }
+
+  const closeMessage = (itemStatus: string) => {
+    if (message) {
+      const { item, index, text, refusal } = message
+      item.content = item.content.map((part: any, contentIndex: number) => {
+        const location = { item_id: item.id, output_index: index, content_index: contentIndex }
+        if (part.type === "output_text") {
+          send("response.output_text.done", { ...location, text, logprobs: [] })
+          part = { ...part, text }
+        } else {
+          send("response.refusal.done", { ...location, refusal })
+          part = { ...part, refusal }
+        }
+        send("response.content_part.done", { ...location, part })
+        return part
+      })
+      output[index] = { ...item, status: itemStatus }
+      send("response.output_item.done", { output_index: index, item: output[index] })
+      message = null
+    }
+  }
+
+  const closeItems = (itemStatus: string) => {
+    closeMessage(itemStatus)
+    for (const { item, index } of calls.values()) {
+      send("response.function_call_arguments.done", { item_id: item.id, output_index: index, arguments: item.arguments })
+      output[index] = { ...item, status: itemStatus }
+      send("response.output_item.done", { output_index: index, item: output[index] })
+    }
+    calls.clear()
+  }
+
+  return {
+    write(chunk) {
+      if (chunk.error) {
+        failure = { code: chunk.error.code ?? "server_error", message: chunk.error.message ?? "Upstream error" }
+        send("error", { code: failure.code, message: failure.message, param: chunk.error.param ?? null })
+        return
+      }
+      if (chunk.usage) usage = chunk.usage
+
+      // The Responses API has a single output, so only the first choice is used
+      const choice = (chunk.choices || []).find((c: any) => (c.index ?? 0) === 0)
+      if (!choice) return
+      const delta = choice.delta || {}
+
+      if (delta.content) appendContent("output_text", delta.content)
+      if (delta.refusal) appendContent("refusal", delta.refusal)
+
+      for (const toolCall of delta.tool_calls || []) {
+        const callIndex = toolCall.index ?? 0
+        let call = calls.get(callIndex)
+        if (!call) {
+          // Output items are sent one after another, never interleaved
+          closeMessage("completed")
+          const item = {
+            type: "function_call",
+            id: id("fc"),
+            call_id: toolCall.id,
+            name: toolCall.function?.name,
+            arguments: "",
+            status: "in_progress"
+          }
+          call = { item, index: addItem(item) }
+          calls.set(callIndex, call)
+        }
+
+        const argumentsDelta = toolCall.function?.arguments
+        if (argumentsDelta) {
+          call.item.arguments += argumentsDelta
+          send("response.function_call_arguments.delta", {
+            item_id: call.item.id,
+            output_index: call.index,
+            delta: argumentsDelta
+          })
+        }
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason
+    },
+
+    end(status) {
+      if (res.writableEnded) return
+
+      const failed = status === "upstream_error" || failure
+      const incomplete = !failed && finishReason && INCOMPLETE_REASONS[finishReason]
+      closeItems(failed || incomplete ? "incomplete" : "completed")
+
+      if (failed) {
+        failure = failure ?? { code: "server_error", message: "The upstream connection failed mid-stream" }
+        send("response.failed", { response: snapshot("failed") })
+      } else {
+        const response = snapshot("completed")
+        send(response.status === "incomplete" ? "response.incomplete" : "response.completed", { response })
+      }
+      res.end()
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import axios from "axios"
+import { ClientSession, ObjectId, WithId } from "mongodb"
+import { connectToDatabase } from "./mongodb"
+import { ApiKeyDocument, cacheApiKey } from "./api-keys"
+
+// Per-key spending caps on top of the shared user wallet. A hard limit
+// rejects requests that could take the key over it, counting the worst-case
+// cost of requests still in flight; a soft limit only fires the notification
+// hook, once, when spend first crosses it.
+export type SpendPeriod = "daily" | "monthly" | "lifetime"
+
+export const SPEND_PERIODS: SpendPeriod[] = ["daily", "monthly", "lifetime"]
+
+export interface SpendLimit {
+  hard?: number | null;
+  soft?: number | null;
+}
+
+export type SpendLimits = Partial<Record<SpendPeriod, SpendLimit>>
+
+// Running totals on the key document. Daily and monthly totals carry the
+// UTC period they belong to and restart from zero when it changes.
+export interface SpendTotals {
+  total: number;
+  day: string;
+  daily: number;
+  month: string;
+  monthly: number;
+}
+
+export interface SoftLimitEvent {
+  apiKeyId: string;
+  userId: string;
+  keyName: string;
+  keyPrefix: string;
+  period: SpendPeriod;
+  limit: number;
+  spent: number;
+}
+
+type SoftLimitHandler = (event: SoftLimitEvent) => void | Promise<void>
+
+const softLimitHandlers: SoftLimitHandler[] = []
+
+const SPEND_LIMIT_WEBHOOK_URL = process.env.SPEND_LIMIT_WEBHOOK_URL
+
+/**
+ * Registers a callback run when a key crosses one of its soft limits
+ */
+export function onSoftLimitReached(handler: SoftLimitHandler) {
+  softLimitHandlers.push(handler)
+}
+
+onSoftLimitReached(event => {
+  console.warn("API key soft spending limit reached:", JSON.stringify(event))
+})
+
+if (SPEND_LIMIT_WEBHOOK_URL) {
+  onSoftLimitReached(async event => {
+    await axios.post(SPEND_LIMIT_WEBHOOK_URL, { type: "api_key.soft_limit_reached", data: event })
+  })
+}
+
+const currentDay = (now = new Date()) => now.toISOString().slice(0, 10)
+const currentMonth = (now = new Date()) => now.toISOString().slice(0, 7)
+
+function periodResetsAt(period: SpendPeriod, now = new Date()): Date | null {
+  if (period === "daily") {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+  }
+  if (period === "monthly") {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  }
+  return null
+}
+
+/**
+ * What the key has spent in each period so far
+ */
+export function getPeriodSpend(key: ApiKeyDocument): Record<SpendPeriod, number> {
+  const spend = key.spend
+  return {
+    daily: spend?.day === currentDay() ? spend.daily : 0,
+    monthly: spend?.month === currentMonth() ? spend.monthly : 0,
+    lifetime: spend?.total ?? 0
+  }
+}
+
+export interface SpendLimitViolation {
+  period: SpendPeriod;
+  limit: number;
+  spent: number;
+  // When the period restarts; null for the lifetime limit
+  resetsAt: Date | null;
+}
+
+/**
+ * Checks whether spending `amount` more, on top of what requests in flight
+ * have reserved, would take the key over a hard limit
+ * @returns {SpendLimitViolation | null} The first limit that would be exceeded
+ */
+function checkSpendLimits(key: ApiKeyDocument, amount: number): SpendLimitViolation | null {
+  if (!key.limits) return null
+
+  const spent = getPeriodSpend(key)
+  const reserved = key.reservedSpend ?? 0
+  for (const period of SPEND_PERIODS) {
+    const hard = key.limits[period]?.hard
+    if (hard !== undefined && hard !== null && spent[period] + reserved + amount > hard) {
+      return { period, limit: hard, spent: spent[period], resetsAt: periodResetsAt(period) }
+    }
+  }
+  return null
+}
+
+// getPeriodSpend, as an aggregation expression over the key document
+function periodSpendExpression(period: SpendPeriod) {
+  if (period === "daily") return { $cond: [{ $eq: ["$spend.day", currentDay()] }, "$spend.daily", 0] }
+  if (period === "monthly") return { $cond: [{ $eq: ["$spend.month", currentMonth()] }, "$spend.monthly", 0] }
+  return { $ifNull: ["$spend.total", 0] }
+}
+
+/**
+ * Reserves `amount` against the key's hard limits for a request in flight,
+ * in the transaction that places the request's wallet hold. The hold records
+ * the reservation, which is given back when the hold is charged or released.
+ * @returns The amount reserved (0 for a key without hard limits) or the first
+ * limit that would be exceeded, in which case nothing is reserved
+ */
+export async function reserveApiKeySpend(
+  key: WithId<ApiKeyDocument>,
+  amount: number,
+  session: ClientSession
+): Promise<{ reserved: number; violation: SpendLimitViolation | null }> {
+  const hasHardLimit = SPEND_PERIODS.some(period => typeof key.limits?.[period]?.hard === "number")
+  if (!hasHardLimit) return { reserved: 0, violation: null }
+
+  const db = await connectToDatabase()
+  const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+
+  // The guard and the increment are one write, so concurrent requests cannot
+  // both fit under the same headroom
+  const result = await apiKeys.findOneAndUpdate(
+    {
+      _id: key._id,
+      $expr: {
+        $and: SPEND_PERIODS.map(period => {
+          const hard = { $ifNull: [`$limits.${period}.hard`, null] }
+          const total = { $add: [periodSpendExpression(period), { $ifNull: ["$reservedSpend", 0] }, amount] }
+          return { $or: [{ $eq: [hard, null] }, { $lte: [total, hard] }] }
+        })
+      }
+    },
+    { $inc: { reservedSpend: amount } },
+    { session }
+  )
+  if (result.value) return { reserved: amount, violation: null }
+
+  // Report the limit that stopped it; there is none if the key was deleted or
+  // its limits lifted since it was cached
+  const current = await apiKeys.findOne({ _id: key._id }, { session })
+  return { reserved: 0, violation: current ? checkSpendLimits(current, amount) : null }
+}
+
+/**
+ * Adds a charge to the key's running totals, in the transaction of the
+ * charge itself. Follow up with afterApiKeySpend once it commits.
+ * @returns {Promise<WithId<ApiKeyDocument> | null>} The updated key
+ */
+export async function recordApiKeySpend(apiKeyId: string, amount: number, session: ClientSession) {
+  const db = await connectToDatabase()
+  const apiKeys = db.collection<ApiKeyDocument>("apiKeys")
+  const day = currentDay()
+  const month = currentMonth()
+
+  // Pipeline update so the period rollover and the increment are atomic
+  const result = await apiKeys.findOneAndUpdate(
+    { _id: new ObjectId(apiKeyId) },
+    [{
+      $set: {
+        spend: {
+          total: { $add: [{ $ifNull: ["$spend.total", 0] }, amount] },
+          day,
+          daily: {
+            $cond: [{ $eq: ["$spend.day", day] }, { $add: ["$spend.daily", amount] }, amount]
+          },
+          month,
+          monthly: {
+            $cond: [{ $eq: ["$spend.month", month] }, { $add: ["$spend.monthly", amount] }, amount]
+          }
+        }
+      }
+    }],
+    { returnDocument: "after", session }
+  )
+  return result.value
+}
+
+/**
+ * Caches a key after a charge was recorded against it and fires the soft
+ * limit hook for every soft limit the charge crossed
+ */
+export async function afterApiKeySpend(key: WithId<ApiKeyDocument>, amount: number) {
+  // Keeps the limits the chat routes check from going stale
+  await cacheApiKey(key)
+
+  const spent = getPeriodSpend(key)
+  for (const period of SPEND_PERIODS) {
+    const soft = key.limits?.[period]?.soft
+    if (soft === undefined || soft === null) continue
+    if (spent[period] - amount < soft && spent[period] >= soft) {
+      notifySoftLimitReached(key, period, soft, spent[period])
+    }
+  }
+}
+
+function notifySoftLimitReached(key: WithId<ApiKeyDocument>, period: SpendPeriod, limit: number, spent: number) {
+  const event: SoftLimitEvent = {
+    apiKeyId: key._id.toString(),
+    userId: key.userId,
+    keyName: key.name,
+    keyPrefix: key.prefix,
+    period,
+    limit,
+    spent
+  }
+  for (const handler of softLimitHandlers) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch(error => console.error("Soft limit handler failed:", error))
+  }
+}
+
+/**
+ * Limits and current spend per period, as shown to the key's owner
+ */
+export function getSpendSummary(key: ApiKeyDocument) {
+  const spent = getPeriodSpend(key)
+  return Object.fromEntries(SPEND_PERIODS.map(period => [period, {
+    hard: key.limits?.[period]?.hard ?? null,
+    soft: key.limits?.[period]?.soft ?? null,
+    spent: spent[period],
+    resetsAt: periodResetsAt(period)
+  }]))
+}
+
+function parseLimitValue(value: any): number | null | undefined | false {
+  if (value === undefined || value === null) return value
+  return typeof value === "number" && isFinite(value) && value >= 0 ? value : false
+}
+
+/**
+ * Validates a limits body: `{ daily?, monthly?, lifetime? }`, each with
+ * optional `hard` and `soft` amounts. Null clears a limit.
+ * @returns {{ limits: SpendLimits } | { error: string }}
+ */
+export function parseSpendLimits(body: any): { limits: SpendLimits; error?: undefined } | { error: string; limits?: undefined } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Limits must be an object" }
+  }
+
+  const limits: SpendLimits = {}
+  for (const [period, value] of Object.entries(body)) {
+    if (!SPEND_PERIODS.includes(period as SpendPeriod)) {
+      return { error: `Unknown period '${period}', expected one of: ${SPEND_PERIODS.join(", ")}` }
+    }
+    if (value === null) continue
+    if (typeof value !== "object" || Array.isArray(value)) {
+      return { error: `${period} must be an object with 'hard' and/or 'soft'` }
+    }
+
+    const hard = parseLimitValue((value as any).hard)
+    const soft = parseLimitValue((value as any).soft)
+    if (hard === false || soft === false) {
+      return { error: `${period} limits must be non-negative numbers` }
+    }
+    if (hard !== undefined && hard !== null && soft !== undefined && soft !== null && soft > hard) {
+      return { error: `${period} soft limit cannot be above the hard limit` }
+    }
+    limits[period as SpendPeriod] = { hard: hard ?? null, soft: soft ?? null }
+  }
+  return { limits }
+}
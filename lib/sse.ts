@@ -0,0 +1,55 @@
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Incremental Server-Sent Events parser. Network chunks can end anywhere,
+ * including in the middle of a line or a multi-byte character, so input is
+ * buffered until a blank line completes the event.
+ */
+export function createSSEParser(onEvent: (event: SSEEvent) => void) {
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  function dispatch(block: string) {
+    let event: string | undefined
+    const data: string[] = []
+
+    for (const line of block.split(/\r\n|\r|\n/)) {
+      // Lines starting with a colon are comments (keep-alives)
+      if (!line || line.startsWith(":")) continue
+
+      const colon = line.indexOf(":")
+      const field = colon === -1 ? line : line.slice(0, colon)
+      let value = colon === -1 ? "" : line.slice(colon + 1)
+      if (value.startsWith(" ")) value = value.slice(1)
+
+      if (field === "event") event = value
+      else if (field === "data") data.push(value)
+    }
+
+    if (data.length) onEvent({ event, data: data.join("\n") })
+  }
+
+  return {
+    push(chunk: Buffer | string) {
+      buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })
+
+      let boundary = buffer.search(/\r\n\r\n|\n\n|\r\r/)
+      while (boundary !== -1) {
+        const separator = buffer.startsWith("\r\n\r\n", boundary) ? 4 : 2
+        dispatch(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + separator)
+        boundary = buffer.search(/\r\n\r\n|\n\n|\r\r/)
+      }
+    },
+
+    // Dispatches whatever is left when the stream ends without a final blank line
+    flush() {
+      buffer += decoder.decode()
+      if (buffer.trim()) dispatch(buffer)
+      buffer = ""
+    }
+  }
+}
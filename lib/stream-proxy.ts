@@ -0,0 +1,152 @@
+import { Readable } from "stream"
+import { Response } from "express"
+import { createSSEParser } from "./sse"
+import { estimatePromptTokens, estimateTokens } from "./tokens"
+
+export interface StreamResult {
+  status: "completed" | "client_disconnected" | "upstream_error";
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    [key: string]: any;
+  };
+  // Whether usage was reported by the upstream or counted locally
+  usageSource: "upstream" | "estimated";
+}
+
+// Sends chunks to the client in the format of the endpoint being served
+export interface StreamWriter {
+  // A chat.completion.chunk, or an in-band `{ error }` payload
+  write(chunk: any): void;
+  // Called once when the upstream ends or fails, but not after the client left
+  end(status: "completed" | "upstream_error"): void;
+}
+
+function writeEvent(res: Response, payload: any) {
+  if (!res.writableEnded) res.write(`data: ${JSON.stringify(payload)}\n\n`)
+}
+
+// Relays chat.completion.chunk events as they are
+export function createChatStreamWriter(res: Response): StreamWriter {
+  return {
+    write: chunk => writeEvent(res, chunk),
+    end() {
+      if (res.writableEnded) return
+      res.write('data: [DONE]\n\n')
+      res.end()
+    }
+  }
+}
+
+/**
+ * Relays an OpenAI-format SSE stream to the client and works out what it
+ * used. The upstream is asked for a final usage chunk; when it never arrives
+ * (older deployments, errors, client disconnects) the generated output is
+ * counted locally so partial streams are still billed.
+ * @param {boolean} options.includeUsage - Whether the client asked for the usage chunk itself
+ * @param {() => void} options.onAbort - Called when the client goes away, to stop the upstream
+ * @param {StreamWriter} options.writer - Defaults to relaying chat.completion.chunk events
+ */
+export function proxyChatStream(
+  upstream: Readable,
+  res: Response,
+  body: Record<string, any>,
+  options: { includeUsage: boolean; onAbort: () => void; writer?: StreamWriter }
+): Promise<StreamResult> {
+  const writer = options.writer ?? createChatStreamWriter(res)
+
+  return new Promise(resolve => {
+    let upstreamUsage: any = null
+    // Generated text per choice: content, refusals and tool call arguments
+    const generated: string[] = []
+    let settled = false
+
+    const finish = (status: StreamResult["status"]) => {
+      if (settled) return
+      settled = true
+
+      if (status !== "client_disconnected") writer.end(status)
+
+      if (upstreamUsage) {
+        return resolve({ status, usage: upstreamUsage, usageSource: "upstream" })
+      }
+
+      const promptTokens = estimatePromptTokens(body)
+      const completionTokens = generated.reduce((sum, text) => sum + estimateTokens(text), 0)
+      resolve({
+        status,
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens
+        },
+        usageSource: "estimated"
+      })
+    }
+
+    const parser = createSSEParser(({ data }) => {
+      if (data === "[DONE]") return
+
+      let chunk: any
+      try {
+        chunk = JSON.parse(data)
+      } catch (error) {
+        console.error("Failed to parse SSE data:", error)
+        return
+      }
+
+      // Errors the upstream reports in-band are forwarded unchanged
+      if (chunk.error) {
+        writer.write(chunk)
+        return
+      }
+
+      if (chunk.usage) upstreamUsage = chunk.usage
+
+      for (const choice of chunk.choices || []) {
+        const delta = choice.delta || {}
+        const index = choice.index ?? 0
+        generated[index] = (generated[index] || "") +
+          (delta.content || "") +
+          (delta.refusal || "") +
+          (delta.function_call?.arguments || "") +
+          (delta.tool_calls || []).map((call: any) => call.function?.arguments || "").join("")
+      }
+
+      // The usage-only chunk was requested for billing; the client only
+      // gets it if it asked for it too
+      if (!chunk.choices?.length && chunk.usage && !options.includeUsage) return
+
+      writer.write(chunk)
+    })
+
+    upstream.on('data', (data: Buffer) => parser.push(data))
+
+    upstream.on('end', () => {
+      parser.flush()
+      finish("completed")
+    })
+
+    upstream.on('error', (error: Error) => {
+      if (settled) return
+      console.error("Upstream stream error:", error)
+      writer.write({
+        error: {
+          message: "The upstream connection failed mid-stream",
+          type: "server_error",
+          param: null,
+          code: "upstream_error"
+        }
+      })
+      finish("upstream_error")
+    })
+
+    // Client went away before the stream finished
+    res.on('close', () => {
+      if (settled || res.writableEnded) return
+      options.onAbort()
+      finish("client_disconnected")
+    })
+  })
+}
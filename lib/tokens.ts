@@ -0,0 +1,124 @@
+// Rough token estimation used for pre-authorizing requests before the
+// upstream has reported real usage. English prose averages ~4 chars per
+// token, but code and JSON split on punctuation, and CJK and most other
+// non-Latin scripts take a token or more per character, so each kind of
+// character is counted at its own rate and the total gets a safety margin.
+// Chat messages add a per-message framing overhead on top.
+const CHARS_PER_TOKEN = 4 // ASCII letters, digits and whitespace
+// Code and JSON often split at every symbol
+const TOKENS_PER_PUNCTUATION = 1
+// Per character outside ASCII; emoji and other characters beyond the basic
+// plane take up to twice as many
+const TOKENS_PER_NON_ASCII = 1
+const SAFETY_MARGIN = 1.1
+const TOKENS_PER_MESSAGE = 4
+const TOKENS_PER_REPLY = 3
+
+// Image inputs cost a base amount plus an amount per 512px tile. Images are
+// scaled to fit 2048x2048 and then to 768px on the short side, so the most
+// tiles an image can have is 2 x 4. Dimensions are not known before the
+// upstream fetches the image, so every high-detail image is assumed to be
+// the largest. gpt-4o-mini bills far more tokens per image at a lower rate.
+const MAX_IMAGE_TILES = 8
+const IMAGE_TOKENS: Record<string, { base: number; tile: number }> = {
+  default: { base: 85, tile: 170 },
+  "gpt-4o-mini": { base: 2833, tile: 5667 },
+}
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/g
+const NON_ASCII = /[^\x00-\x7f]/gu
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+
+  let nonAscii = 0
+  let asciiLength = text.length
+  for (const [char] of text.matchAll(NON_ASCII)) {
+    // Characters beyond the basic plane are two UTF-16 code units
+    nonAscii += char.length * TOKENS_PER_NON_ASCII
+    asciiLength -= char.length
+  }
+  const punctuation = text.match(ASCII_PUNCTUATION)?.length ?? 0
+
+  const tokens = (asciiLength - punctuation) / CHARS_PER_TOKEN + punctuation * TOKENS_PER_PUNCTUATION + nonAscii
+  return Math.ceil(tokens * SAFETY_MARGIN)
+}
+
+/**
+ * Upper bound on the prompt tokens of one image input
+ * @param {string} detail - The image_url detail: "low", "high" or "auto"
+ */
+export function estimateImageTokens(model: string | undefined, detail?: string): number {
+  const rates = (model && IMAGE_TOKENS[model]) || IMAGE_TOKENS.default
+  return detail === "low" ? rates.base : rates.base + rates.tile * MAX_IMAGE_TILES
+}
+
+function imageTokens(content: any, model?: string): number {
+  if (!Array.isArray(content)) return 0
+  return content
+    .filter(part => part?.type === "image_url")
+    .reduce((sum, part) => sum + estimateImageTokens(model, part.image_url?.detail), 0)
+}
+
+function contentToText(content: any): string {
+  if (typeof content === "string") return content
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === "string" ? part : part?.text || ""))
+      .join("")
+  }
+  return content ? JSON.stringify(content) : ""
+}
+
+/**
+ * Estimates the prompt tokens for a chat-completions `messages` array
+ * @param {any[]} messages - The chat messages
+ * @param {string} model - Used to price image inputs
+ * @returns {number}
+ */
+export function estimateMessageTokens(messages: any[], model?: string): number {
+  if (!Array.isArray(messages)) return 0
+
+  let tokens = TOKENS_PER_REPLY
+  for (const message of messages) {
+    tokens += TOKENS_PER_MESSAGE
+    tokens += estimateTokens(message?.role || "")
+    tokens += estimateTokens(contentToText(message?.content))
+    tokens += imageTokens(message?.content, model)
+    if (message?.name) tokens += estimateTokens(message.name)
+    // Tool calls the assistant made earlier are billed as prompt tokens
+    if (message?.tool_calls) tokens += estimateTokens(JSON.stringify(message.tool_calls))
+    if (message?.function_call) tokens += estimateTokens(JSON.stringify(message.function_call))
+  }
+  return tokens
+}
+
+/**
+ * Estimates the prompt tokens of a whole chat-completions request: tool
+ * definitions and response schemas are injected into the prompt upstream
+ * and billed as prompt tokens too
+ */
+export function estimatePromptTokens(body: Record<string, any>): number {
+  let tokens = estimateMessageTokens(body.messages, body.model)
+  if (body.tools) tokens += estimateTokens(JSON.stringify(body.tools))
+  if (body.functions) tokens += estimateTokens(JSON.stringify(body.functions))
+  if (body.response_format?.json_schema) {
+    tokens += estimateTokens(JSON.stringify(body.response_format.json_schema))
+  }
+  return tokens
+}
+
+/**
+ * Estimates the tokens of an embeddings `input`: text, a list of texts, or
+ * already tokenized input as arrays of token ids
+ */
+export function estimateEmbeddingTokens(input: string | string[] | number[] | number[][]): number {
+  if (typeof input === "string") return estimateTokens(input)
+  if (!input.length) return 0
+  if (typeof input[0] === "number") return input.length
+
+  return (input as (string | number[])[]).reduce(
+    (sum: number, item) => sum + (typeof item === "string" ? estimateTokens(item) : item.length),
+    0
+  )
+}
@@ -0,0 +1,239 @@
+import { ObjectId } from "mongodb"
+import { connectToDatabase } from "./mongodb"
+import type { CostBreakdown } from "./pricing"
+
+// One row per API request in `usageRecords`, kept for USAGE_RETENTION_DAYS
+// by a TTL index, and a running per-day total per key and model in
+// `usageDaily`, which the analytics API reads and which is kept much longer.
+const USAGE_RETENTION_DAYS = Number(process.env.USAGE_RETENTION_DAYS) || 90
+const ROLLUP_RETENTION_DAYS = Number(process.env.USAGE_ROLLUP_RETENTION_DAYS) || 2 * 365
+const DAY_SECONDS = 24 * 60 * 60
+
+export interface UsageRecordDocument {
+  _id?: ObjectId;
+  userId: string;
+  apiKeyId: string;
+  requestId: string;
+  // The API that was called, e.g. "chat.completions"
+  endpoint: string;
+  model: string;
+  stream: boolean;
+  cached: boolean;
+  // HTTP status sent to the client
+  status: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  latencyMs: number;
+  error?: string;
+  createdAt: Date;
+}
+
+export interface UsageDailyDocument {
+  _id?: ObjectId;
+  userId: string;
+  // YYYY-MM-DD, UTC
+  day: string;
+  apiKeyId: string;
+  model: string;
+  requests: number;
+  errors: number;
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  latencyMs: number;
+  // When the day ended plus the retention, for the TTL index
+  expiresAt: Date;
+}
+
+export type UsageGroupBy = "day" | "model" | "key"
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ["day", "model", "key"]
+
+let indexesCreated = false
+
+async function getCollections() {
+  const db = await connectToDatabase()
+  const records = db.collection<UsageRecordDocument>("usageRecords")
+  const daily = db.collection<UsageDailyDocument>("usageDaily")
+
+  if (!indexesCreated) {
+    await Promise.all([
+      records.createIndex({ createdAt: 1 }, { expireAfterSeconds: USAGE_RETENTION_DAYS * DAY_SECONDS }),
+      records.createIndex({ userId: 1, createdAt: -1 }),
+      daily.createIndex({ userId: 1, day: 1, apiKeyId: 1, model: 1 }, { unique: true }),
+      daily.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    ])
+    indexesCreated = true
+  }
+  return { records, daily }
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Logs a finished request and adds it to the daily totals. Never throws:
+ * usage logging must not fail the request it describes.
+ */
+export async function recordUsage(entry: {
+  userId: string;
+  apiKeyId: string;
+  requestId: string;
+  endpoint: string;
+  model: string;
+  stream: boolean;
+  cached: boolean;
+  status: number;
+  breakdown: CostBreakdown | null;
+  latencyMs: number;
+  error?: string;
+}) {
+  try {
+    const { records, daily } = await getCollections()
+    const now = new Date()
+    const { breakdown, ...rest } = entry
+    const record: UsageRecordDocument = {
+      ...rest,
+      promptTokens: breakdown?.promptTokens ?? 0,
+      completionTokens: breakdown?.completionTokens ?? 0,
+      cost: breakdown?.total ?? 0,
+      createdAt: now
+    }
+    await records.insertOne(record)
+
+    const day = toDay(now)
+    const dayEnd = new Date(`${day}T00:00:00Z`).getTime() + DAY_SECONDS * 1000
+    await daily.updateOne(
+      { userId: entry.userId, day, apiKeyId: entry.apiKeyId, model: entry.model },
+      {
+        $inc: {
+          requests: 1,
+          // Streams that fail midway still have a 200 status
+          errors: entry.status >= 400 || entry.error ? 1 : 0,
+          cachedRequests: entry.cached ? 1 : 0,
+          promptTokens: record.promptTokens,
+          completionTokens: record.completionTokens,
+          cost: record.cost,
+          latencyMs: entry.latencyMs
+        },
+        $setOnInsert: { expiresAt: new Date(dayEnd + ROLLUP_RETENTION_DAYS * DAY_SECONDS * 1000) }
+      },
+      { upsert: true }
+    )
+  } catch (error) {
+    console.error("Failed to record usage:", error)
+  }
+}
+
+/**
+ * Lists recent requests that failed, newest first, across all accounts
+ * unless a user is given. Only as far back as USAGE_RETENTION_DAYS.
+ * @param {string} cursor - The id of the last entry of the previous page
+ */
+export async function getFailedRequests(options: { cursor?: string; limit: number; userId?: string }) {
+  const { records } = await getCollections()
+
+  const filter: Record<string, any> = { $or: [{ status: { $gte: 400 } }, { error: { $exists: true } }] }
+  if (options.cursor) filter._id = { $lt: new ObjectId(options.cursor) }
+  if (options.userId) filter.userId = options.userId
+
+  const entries = await records
+    .find(filter)
+    .sort({ _id: -1 })
+    .limit(options.limit + 1)
+    .toArray()
+
+  const hasMore = entries.length > options.limit
+  const data = entries.slice(0, options.limit)
+  return {
+    data,
+    hasMore,
+    nextCursor: hasMore ? data[data.length - 1]._id.toString() : null
+  }
+}
+
+export type UsageRow = {
+  day?: string;
+  model?: string;
+  apiKeyId?: string;
+  requests: number;
+  errors: number;
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+const GROUP_FIELDS: Record<UsageGroupBy, string> = { day: "day", model: "model", key: "apiKeyId" }
+
+/**
+ * Totals from the daily rollups between two UTC days, inclusive
+ */
+export async function getUsageSummary(
+  userId: string,
+  options: { from: string; to: string; groupBy: UsageGroupBy; apiKeyId?: string; model?: string }
+): Promise<{ data: UsageRow[]; totals: UsageRow }> {
+  const { daily } = await getCollections()
+
+  const match: Record<string, any> = { userId, day: { $gte: options.from, $lte: options.to } }
+  if (options.apiKeyId) match.apiKeyId = options.apiKeyId
+  if (options.model) match.model = options.model
+
+  const field = GROUP_FIELDS[options.groupBy]
+  const groups = await daily
+    .aggregate<any>([
+      { $match: match },
+      {
+        $group: {
+          _id: `$${field}`,
+          requests: { $sum: "$requests" },
+          errors: { $sum: "$errors" },
+          cachedRequests: { $sum: "$cachedRequests" },
+          promptTokens: { $sum: "$promptTokens" },
+          completionTokens: { $sum: "$completionTokens" },
+          cost: { $sum: "$cost" },
+          latencyMs: { $sum: "$latencyMs" }
+        }
+      },
+      { $sort: options.groupBy === "day" ? { _id: 1 } : { cost: -1 } }
+    ])
+    .toArray()
+
+  const toRow = ({ _id, latencyMs, ...totals }: any): UsageRow => ({
+    ...totals,
+    averageLatencyMs: totals.requests ? Math.round(latencyMs / totals.requests) : 0
+  })
+
+  const data = groups.map(group => ({ [field]: group._id, ...toRow(group) }))
+  const totals = toRow(
+    groups.reduce(
+      (sum, group) => {
+        for (const key of Object.keys(sum)) if (key !== "_id") sum[key] += group[key]
+        return sum
+      },
+      { _id: null, requests: 0, errors: 0, cachedRequests: 0, promptTokens: 0, completionTokens: 0, cost: 0, latencyMs: 0 }
+    )
+  )
+  return { data, totals }
+}
+
+function csvField(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value)
+  // Keeps spreadsheets from evaluating user-chosen text such as key names
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Renders rows as CSV with a header line; columns follow the first row's
+ * keys, or `columns` when given
+ */
+export function toCsv(rows: Record<string, unknown>[], columns = rows.length ? Object.keys(rows[0]) : []) {
+  const lines = [columns.map(csvField).join(",")]
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField(row[column])).join(","))
+  }
+  return lines.join("\r\n") + "\r\n"
+}
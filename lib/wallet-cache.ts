@@ -0,0 +1,36 @@
+import { redis } from "./redis"
+
+// The chat routes validate requests against a cached copy of the user's
+// wallet to save a Mongo round trip. There is one entry per user, shared by
+// all of their API keys, so the keys cannot drift apart.
+export const generateWalletKey = (userId: string): string => `wallet:${userId}`
+
+export async function getCachedWallet(userId: string) {
+  const wallet = await redis.get(generateWalletKey(userId))
+  return wallet ? JSON.parse(wallet) : null
+}
+
+export async function cacheWallet(userId: string, wallet: any) {
+  await redis.set(generateWalletKey(userId), JSON.stringify(wallet))
+}
+
+/**
+ * Drops the cached wallet, forcing the next request to reload it from Mongo.
+ * Used after the wallet is credited outside the chat routes.
+ */
+export async function invalidateCachedWallet(userId: string) {
+  await redis.del(generateWalletKey(userId))
+}
+
+/**
+ * Applies a debit to the cached wallet only. Used when Mongo is unreachable
+ * so the user cannot keep spending the same balance until the outbox catches up.
+ */
+export async function debitCachedWallet(userId: string, amount: number): Promise<number> {
+  const wallet = await getCachedWallet(userId)
+  if (!wallet) throw new Error("Wallet not found")
+
+  const updated = { ...wallet, balance: wallet.balance - amount }
+  await cacheWallet(userId, updated)
+  return updated.balance
+}
@@ -0,0 +1,88 @@
+import { ObjectId } from "mongodb"
+import { connectToDatabase } from "./mongodb"
+
+// Verified webhook deliveries are stored before they are processed, so a
+// failed event can be inspected and replayed, and redeliveries of an event
+// that was already handled are acknowledged without side effects.
+export type WebhookEventStatus = "received" | "processed" | "ignored" | "failed"
+
+export interface WebhookEventDocument {
+  _id?: ObjectId;
+  provider: string;
+  eventId: string;
+  eventType: string;
+  payload: any;
+  status: WebhookEventStatus;
+  attempts: number;
+  error?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+let indexCreated = false
+
+async function getWebhookEvents() {
+  const db = await connectToDatabase()
+  const events = db.collection<WebhookEventDocument>("webhookEvents")
+  if (!indexCreated) {
+    await events.createIndex({ provider: 1, eventId: 1 }, { unique: true })
+    indexCreated = true
+  }
+  return events
+}
+
+/**
+ * Stores a delivery, or returns the stored copy if the event was seen before
+ */
+export async function recordWebhookEvent(provider: string, eventId: string, eventType: string, payload: any) {
+  const events = await getWebhookEvents()
+  const result = await events.findOneAndUpdate(
+    { provider, eventId },
+    {
+      $setOnInsert: {
+        provider,
+        eventId,
+        eventType,
+        payload,
+        status: "received",
+        attempts: 0,
+        receivedAt: new Date()
+      }
+    },
+    { upsert: true, returnDocument: "after" }
+  )
+  return result.value!
+}
+
+export async function getWebhookEvent(provider: string, eventId: string) {
+  const events = await getWebhookEvents()
+  return events.findOne({ provider, eventId })
+}
+
+/**
+ * Runs a handler for a stored event and records the outcome
+ * @param {(payload: any) => Promise<"processed" | "ignored">} handler
+ */
+export async function processWebhookEvent(
+  event: WebhookEventDocument,
+  handler: (payload: any) => Promise<"processed" | "ignored">
+): Promise<WebhookEventStatus> {
+  const events = await getWebhookEvents()
+  try {
+    const status = await handler(event.payload)
+    await events.updateOne(
+      { _id: event._id },
+      { $set: { status, processedAt: new Date() }, $inc: { attempts: 1 }, $unset: { error: "" } }
+    )
+    return status
+  } catch (error) {
+    await events.updateOne(
+      { _id: event._id },
+      {
+        $set: { status: "failed", error: error instanceof Error ? error.message : String(error) },
+        $inc: { attempts: 1 }
+      }
+    )
+    throw error
+  }
+}
@@ -1,11 +1,30 @@
 import { Request, Response, NextFunction } from "express"
 import { getAuth } from "firebase-admin/auth"
+import { WithId } from "mongodb"
+import { ApiKeyDocument, findApiKey, isApiKeyExpired, touchApiKey } from "../lib/api-keys"
+import { AccountContext, getOrgContext, hasPermission, Permission, personalContext } from "../lib/organizations"
+import { getWallet } from "../lib/mongodb"
+import { cacheWallet, getCachedWallet } from "../lib/wallet-cache"
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     uid: string
+    email?: string
+    emailVerified?: boolean
   }
-  apiKey?: string
+  // The personal account or organization the request acts for
+  account?: AccountContext
+  apiKey?: WithId<ApiKeyDocument>
+}
+
+// Tokens are checked for revocation too, so suspending a user or signing
+// them out everywhere takes effect before their current token expires
+function rejectToken(res: Response, error: any) {
+  if (error?.code === "auth/id-token-revoked") {
+    return res.status(401).json({ error: "Token has been revoked" })
+  }
+  console.error("Auth error:", error)
+  return res.status(401).json({ error: "Invalid token" })
 }
 
 export const verifyToken = async (
@@ -20,15 +39,74 @@ export const verifyToken = async (
     }
 
     const token = authHeader.split("Bearer ")[1]
-    const decodedToken = await getAuth().verifyIdToken(token)
-    req.user = { uid: decodedToken.uid }
+    const decodedToken = await getAuth().verifyIdToken(token, true)
+    req.user = { uid: decodedToken.uid, email: decodedToken.email, emailVerified: decodedToken.email_verified }
+  } catch (error) {
+    return rejectToken(res, error)
+  }
+
+  try {
+    // Requests act for the user's personal account unless they name an
+    // organization the user belongs to
+    const orgId = req.headers["x-organization-id"]
+    if (typeof orgId === "string" && orgId) {
+      const account = await getOrgContext(req.user.uid, orgId)
+      if (!account) {
+        return res.status(403).json({ error: "You are not a member of this organization" })
+      }
+      req.account = account
+    } else {
+      req.account = personalContext(req.user.uid)
+    }
     next()
   } catch (error) {
-    console.error("Auth error:", error)
-    res.status(401).json({ error: "Invalid token" })
+    console.error("Organization lookup error:", error)
+    res.status(500).json({ error: "Failed to resolve organization" })
   }
 }
 
+/**
+ * Lets through only users whose Firebase token carries the `admin` custom
+ * claim. Admin routes act on any account, so no account context is set.
+ */
+export const verifyAdmin = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const authHeader = req.headers.authorization
+    if (!authHeader?.startsWith("Bearer ")) {
+      return res.status(401).json({ error: "Unauthorized" })
+    }
+
+    const token = authHeader.split("Bearer ")[1]
+    const decodedToken = await getAuth().verifyIdToken(token, true)
+    if (decodedToken.admin !== true) {
+      return res.status(403).json({ error: "Admin access required" })
+    }
+    req.user = { uid: decodedToken.uid, email: decodedToken.email, emailVerified: decodedToken.email_verified }
+    next()
+  } catch (error) {
+    return rejectToken(res, error)
+  }
+}
+
+/**
+ * Rejects requests whose role in the organization lacks the permission.
+ * Must run after verifyToken.
+ */
+export const requirePermission = (permission: Permission) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.account || !hasPermission(req.account, permission)) {
+    return res.status(403).json({ error: "Your role in this organization does not allow this" })
+  }
+  next()
+}
+
 export const verifyApiKey = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -47,7 +125,29 @@ export const verifyApiKey = async (
       return res.status(401).json({ error: "API key is required" })
     }
 
-    req.apiKey = apiKey
+    const key = await findApiKey(apiKey)
+    if (!key) {
+      return res.status(401).json({ error: "Invalid API key" })
+    }
+    if (isApiKeyExpired(key)) {
+      return res.status(401).json({ error: "API key has expired" })
+    }
+    if (key.suspendedAt) {
+      return res.status(403).json({ error: "API key has been suspended" })
+    }
+
+    // Suspending an account stops all of its keys
+    let wallet = await getCachedWallet(key.userId)
+    if (!wallet) {
+      wallet = await getWallet(key.userId)
+      if (wallet) await cacheWallet(key.userId, wallet)
+    }
+    if (wallet?.suspendedAt) {
+      return res.status(403).json({ error: "This account has been suspended" })
+    }
+
+    touchApiKey(key._id)
+    req.apiKey = key
     next()
   } catch (error) {
     console.error("API key error:", error)
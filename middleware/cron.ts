@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from "express"
+
+/**
+ * Lets through only the Vercel cron scheduler, which sends the CRON_SECRET
+ * as a bearer token. Without a configured secret every request is rejected.
+ */
+export const verifyCronSecret = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const authHeader = req.headers.authorization
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+  next()
+}
@@ -0,0 +1,71 @@
+import { connectToDatabase, withTransaction, WalletDocument, TransactionDocument } from "../lib/mongodb"
+
+// Wallets funded before every balance change went through the ledger hold
+// a balance their entries do not add up to. This records the difference as
+// one opening_balance entry per wallet, dated when the wallet was created,
+// so that getLedgerBalance matches the balance again. Wallets that already
+// have an opening balance are skipped, so the script can be re-run.
+//
+//   MONGODB_URI=... npm run backfill:opening-balances
+
+// Differences below this are floating point noise, not missing entries
+const TOLERANCE = 1e-9
+
+async function backfillOpeningBalance(userId: string): Promise<number | null> {
+  const db = await connectToDatabase()
+  const wallets = db.collection<WalletDocument>("wallets")
+  const transactions = db.collection<TransactionDocument>("transactions")
+
+  // Balance changes write their entry in the same transaction, so reading
+  // both inside one gives a consistent snapshot
+  return withTransaction(async session => {
+    const existing = await transactions.findOne({ userId, type: "opening_balance" }, { session })
+    if (existing) return null
+
+    const wallet = await wallets.findOne({ userId }, { session })
+    if (!wallet) return null
+
+    const [ledger] = await transactions
+      .aggregate([
+        { $match: { userId } },
+        { $group: { _id: null, balance: { $sum: "$amount" } } }
+      ], { session })
+      .toArray()
+    const difference = wallet.balance - (ledger?.balance ?? 0)
+    if (Math.abs(difference) < TOLERANCE) return null
+
+    await transactions.insertOne({
+      userId,
+      type: "opening_balance",
+      amount: difference,
+      balanceAfter: wallet.balance,
+      description: "Balance held before the ledger was introduced",
+      createdAt: wallet._id!.getTimestamp()
+    }, { session })
+    return difference
+  })
+}
+
+async function main() {
+  const db = await connectToDatabase()
+  const wallets = db.collection<WalletDocument>("wallets")
+
+  let scanned = 0
+  let backfilled = 0
+  for await (const wallet of wallets.find({}, { projection: { userId: 1 } })) {
+    scanned++
+    const difference = await backfillOpeningBalance(wallet.userId)
+    if (difference !== null) {
+      backfilled++
+      console.log(`${wallet.userId}: opening balance ${difference}`)
+    }
+  }
+  console.log(`Backfilled ${backfilled} of ${scanned} wallets`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Failed to backfill opening balances:", error)
+    process.exit(1)
+  })
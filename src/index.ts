@@ -4,10 +4,32 @@ import chatRoute from "../api/chat"
 import generateKeyRoute from "../api/generate-key"
 import apiKeysRoute from "../api/api-keys"
 import walletRoute from "../api/wallet"
-import deleteKey from "../api/api-key/[key]"
+import apiKeyRoute from "../api/api-key/[id]"
 import useAI from "../v1/chat/completions"
+import modelsRoute from "../v1/models"
+import embeddingsRoute from "../v1/embeddings"
+import imageGenerationsRoute from "../v1/images/generations"
+import transcriptionsRoute from "../v1/audio/transcriptions"
+import speechRoute from "../v1/audio/speech"
+import completionsRoute from "../v1/completions"
+import responsesRoute from "../v1/responses"
+import filesRoute from "../v1/files"
+import batchesRoute from "../v1/batches"
 import verifyPayment from "../api/verify-payment"
-import webhookRoute from "../api/webhooks/paypal"
+import webhookRoute from "../api/webhooks/[provider]"
+import paymentsRoute from "../api/payments"
+import reconcileRoute from "../api/cron/reconcile"
+import autoRechargeRoute from "../api/cron/auto-recharge"
+import alertsCronRoute from "../api/cron/alerts"
+import batchesCronRoute from "../api/cron/batches"
+import alertsRoute from "../api/alerts"
+import usageRoute from "../api/usage"
+import organizationsRoute from "../api/organizations"
+import adminRoute from "../api/admin"
+import { reconcileWallets } from "../lib/reconcile"
+import { processDueAutoRecharges } from "../lib/auto-recharge"
+import { retryAlertDeliveries } from "../lib/alerts"
+import { processBatches } from "../lib/batches"
 
 const app = express()
 
@@ -32,8 +54,8 @@ const FRONTEND_ORIGIN = process.env.FRONTEND_URL
 app.use((req, res, next) => {
   const origin = req.headers.origin
 
-  // Allow all origins for /api/chat
-  if (req.path.startsWith("/api/chat") || req.path.startsWith("/v1/chat/completions") ) {
+  // Allow all origins for /api/chat and the OpenAI-compatible /v1 routes
+  if (req.path.startsWith("/api/chat") || req.path.startsWith("/v1/")) {
     res.setHeader("Access-Control-Allow-Origin", "*")
   } else if (origin === FRONTEND_ORIGIN) {
     // Allow only frontend for other routes
@@ -41,9 +63,10 @@ app.use((req, res, next) => {
   }
 
   // Set CORS headers for methods and credentials
-  res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,DELETE,OPTIONS")
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, x-api-key")
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, x-api-key, x-organization-id")
   res.setHeader("Access-Control-Allow-Credentials", "true")
+  res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, X-Cost, X-Remaining-Balance")
 
   // Handle preflight request
   if (req.method === "OPTIONS") {
@@ -53,18 +76,46 @@ app.use((req, res, next) => {
   next()
 })
 
-// Middleware for JSON parsing
-app.use(express.json())
+// Middleware for JSON parsing. Webhook signatures are computed over the
+// exact bytes received, so the raw body is kept as well. Only the model
+// routes, batches and files included, take large bodies: long prompts and
+// base64 images. Everything else keeps the default limit.
+const keepRawBody = (req: any, res: any, buf: Buffer) => {
+  req.rawBody = buf
+}
+app.use(["/api/chat", "/v1"], express.json({
+  limit: process.env.JSON_BODY_LIMIT || "25mb",
+  verify: keepRawBody
+}))
+app.use(express.json({ verify: keepRawBody }))
 
 // API routes
 app.use("/api/chat", chatRoute)
 app.use("/api/generate-key", generateKeyRoute)
 app.use("/api/api-keys", apiKeysRoute)
-app.use("/api/api-key", deleteKey)
+app.use("/api/api-key", apiKeyRoute)
 app.use("/api/wallet", walletRoute)
 app.use("/v1/chat/completions",useAI)
+app.use("/v1/models", modelsRoute)
+app.use("/v1/embeddings", embeddingsRoute)
+app.use("/v1/images/generations", imageGenerationsRoute)
+app.use("/v1/audio/transcriptions", transcriptionsRoute)
+app.use("/v1/audio/speech", speechRoute)
+app.use("/v1/completions", completionsRoute)
+app.use("/v1/responses", responsesRoute)
+app.use("/v1/files", filesRoute)
+app.use("/v1/batches", batchesRoute)
 app.use("/api/verify-payment",verifyPayment)
-app.use("/api/webhooks/paypal", webhookRoute)
+app.use("/api/payments", paymentsRoute)
+app.use("/api/webhooks", webhookRoute)
+app.use("/api/alerts", alertsRoute)
+app.use("/api/usage", usageRoute)
+app.use("/api/organizations", organizationsRoute)
+app.use("/admin", adminRoute)
+app.use("/api/cron/reconcile", reconcileRoute)
+app.use("/api/cron/auto-recharge", autoRechargeRoute)
+app.use("/api/cron/alerts", alertsCronRoute)
+app.use("/api/cron/batches", batchesCronRoute)
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -88,6 +139,21 @@ if (process.env.NODE_ENV !== "production") {
   app.listen(port, () => {
     console.log(`Server is running on port ${port}`)
   })
+
+  // Production runs the reconciler from the Vercel cron schedule instead
+  const reconcileInterval = Number(process.env.RECONCILE_INTERVAL_MS) || 5 * 60 * 1000
+  setInterval(() => {
+    reconcileWallets().catch(error => console.error("Wallet reconciliation failed:", error))
+  }, reconcileInterval)
+  setInterval(() => {
+    processDueAutoRecharges().catch(error => console.error("Auto-recharge run failed:", error))
+  }, reconcileInterval)
+  setInterval(() => {
+    retryAlertDeliveries().catch(error => console.error("Alert delivery retry failed:", error))
+  }, reconcileInterval)
+  setInterval(() => {
+    processBatches().catch(error => console.error("Batch worker run failed:", error))
+  }, Number(process.env.BATCH_INTERVAL_MS) || 60 * 1000)
 }
 
 export default app
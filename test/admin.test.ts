@@ -0,0 +1,75 @@
+import adminRouter from "../api/admin"
+import { connectToDatabase, createWallet, getWallet } from "../lib/mongodb"
+import { startApp } from "./helpers/app"
+
+const ADMIN = "admin-1"
+const USER = "user-1"
+
+let app: Awaited<ReturnType<typeof startApp>>
+
+beforeAll(async () => {
+  app = await startApp({ "/admin": adminRouter })
+})
+
+afterAll(async () => {
+  await app.close()
+})
+
+beforeEach(async () => {
+  await createWallet(USER, { signupGrant: false })
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+async function auditEntries() {
+  const db = await connectToDatabase()
+  return db.collection("auditLog").find({}).toArray()
+}
+
+describe("admin wallet adjustments", () => {
+  it("records the adjustment in the audit log", async () => {
+    const response = await app.request("POST", `/admin/users/${USER}/adjustments`, {
+      as: ADMIN,
+      body: { amount: 5, reason: "Goodwill credit" }
+    })
+
+    expect(response.status).toBe(200)
+    expect(await getWallet(USER)).toMatchObject({ balance: 5 })
+    expect(await auditEntries()).toEqual([
+      expect.objectContaining({
+        adminId: ADMIN,
+        action: "wallet.adjust",
+        target: { type: "user", id: USER },
+        details: { amount: 5, balance: 5 }
+      })
+    ])
+  })
+
+  it("rolls the adjustment back when its audit entry cannot be written", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const db = await connectToDatabase()
+    jest.spyOn(db.collection("auditLog"), "insertOne").mockRejectedValueOnce(new Error("connection reset"))
+
+    const response = await app.request("POST", `/admin/users/${USER}/adjustments`, {
+      as: ADMIN,
+      body: { amount: 5, reason: "Goodwill credit" }
+    })
+
+    expect(response.status).toBe(500)
+    expect(await getWallet(USER)).toMatchObject({ balance: 0 })
+    expect(await db.collection("transactions").find({ userId: USER, type: "adjustment" }).toArray()).toHaveLength(0)
+  })
+
+  it("refuses callers without the admin claim", async () => {
+    const response = await app.request("POST", `/admin/users/${USER}/adjustments`, {
+      as: USER,
+      body: { amount: 5, reason: "Goodwill credit" }
+    })
+
+    expect(response.status).toBe(403)
+    expect(await getWallet(USER)).toMatchObject({ balance: 0 })
+    expect(await auditEntries()).toHaveLength(0)
+  })
+})
@@ -0,0 +1,41 @@
+import alertsRouter from "../api/alerts"
+import { connectToDatabase } from "../lib/mongodb"
+import { createOrganization } from "../lib/organizations"
+import { startApp } from "./helpers/app"
+
+const OWNER = "owner-1"
+const ADMIN = "admin-1"
+
+let app: Awaited<ReturnType<typeof startApp>>
+let orgId: string
+
+beforeAll(async () => {
+  app = await startApp({ "/api/alerts": alertsRouter })
+})
+
+afterAll(async () => {
+  await app.close()
+})
+
+// Admins may read the billing settings but not change them
+beforeEach(async () => {
+  orgId = (await createOrganization(OWNER, "Acme"))._id.toString()
+  const db = await connectToDatabase()
+  await db.collection("memberships").insertOne({ orgId, userId: ADMIN, role: "admin", createdAt: new Date() })
+})
+
+describe("alert settings", () => {
+  it("returns the webhook secret to those who may change the settings", async () => {
+    const response = await app.request("GET", "/api/alerts", { as: OWNER, org: orgId })
+
+    expect(response.status).toBe(200)
+    expect(response.body.webhookSecret).toEqual(expect.any(String))
+  })
+
+  it("leaves the webhook secret out for those who may only read them", async () => {
+    const response = await app.request("GET", "/api/alerts", { as: ADMIN, org: orgId })
+
+    expect(response.status).toBe(200)
+    expect(response.body).not.toHaveProperty("webhookSecret")
+  })
+})
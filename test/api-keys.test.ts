@@ -0,0 +1,84 @@
+import apiKeysRouter from "../api/api-keys"
+import apiKeyRouter from "../api/api-key/[id]"
+import { connectToDatabase } from "../lib/mongodb"
+import { createOrganization, orgAccountId } from "../lib/organizations"
+import { startApp } from "./helpers/app"
+
+const OWNER = "owner-1"
+const MEMBER = "member-1"
+
+let app: Awaited<ReturnType<typeof startApp>>
+let orgId: string
+let keyId: string
+
+beforeAll(async () => {
+  app = await startApp({ "/api/api-keys": apiKeysRouter, "/api/api-key": apiKeyRouter })
+})
+
+afterAll(async () => {
+  await app.close()
+})
+
+// An organization with a member who created one of its keys
+beforeEach(async () => {
+  orgId = (await createOrganization(OWNER, "Acme"))._id.toString()
+  const db = await connectToDatabase()
+  await db.collection("memberships").insertOne({ orgId, userId: MEMBER, role: "member", createdAt: new Date() })
+  const { insertedId } = await db.collection("apiKeys").insertOne({
+    keyHash: "hash-1",
+    prefix: "sk-test",
+    name: "Member key",
+    userId: orgAccountId(orgId),
+    createdBy: MEMBER,
+    createdAt: new Date(),
+    expiresAt: null,
+    allowedModels: [],
+    requestCount: 0
+  })
+  keyId = insertedId.toString()
+})
+
+async function getKey() {
+  const db = await connectToDatabase()
+  return (await db.collection("apiKeys").findOne({ keyHash: "hash-1" }))!
+}
+
+const limits = { daily: { hard: 50, soft: 40 } }
+const rateLimits = { rpm: 1000 }
+
+describe("API key limits", () => {
+  it("lets the owner set a member's spend limits", async () => {
+    const response = await app.request("PUT", `/api/api-keys/${keyId}/limits`, { as: OWNER, org: orgId, body: limits })
+
+    expect(response.status).toBe(200)
+    expect((await getKey()).limits).toMatchObject(limits)
+  })
+
+  it("does not let a member change the spend limits of their own key", async () => {
+    const response = await app.request("PUT", `/api/api-keys/${keyId}/limits`, { as: MEMBER, org: orgId, body: {} })
+
+    expect(response.status).toBe(403)
+    expect((await getKey()).limits).toBeUndefined()
+  })
+
+  it("does not let a member change the rate limits of their own key", async () => {
+    const response = await app.request("PATCH", `/api/api-key/${keyId}`, { as: MEMBER, org: orgId, body: { rateLimits } })
+
+    expect(response.status).toBe(403)
+    expect((await getKey()).rateLimits).toBeUndefined()
+  })
+
+  it("lets a member rename their own key", async () => {
+    const response = await app.request("PATCH", `/api/api-key/${keyId}`, { as: MEMBER, org: orgId, body: { name: "Renamed" } })
+
+    expect(response.status).toBe(200)
+    expect(await getKey()).toMatchObject({ name: "Renamed" })
+  })
+
+  it("lets the owner change a member's rate limits", async () => {
+    const response = await app.request("PATCH", `/api/api-key/${keyId}`, { as: OWNER, org: orgId, body: { rateLimits } })
+
+    expect(response.status).toBe(200)
+    expect((await getKey()).rateLimits).toMatchObject(rateLimits)
+  })
+})
@@ -0,0 +1,42 @@
+import { Router } from "express"
+import { AuthenticatedRequest, verifyAdmin, verifyToken } from "../middleware/auth"
+import { startApp } from "./helpers/app"
+
+const whoami = (req: AuthenticatedRequest, res: any) => res.json({ uid: req.user!.uid })
+
+let app: Awaited<ReturnType<typeof startApp>>
+
+beforeAll(async () => {
+  app = await startApp({
+    "/user": Router().get("/", verifyToken, whoami),
+    "/admin": Router().get("/", verifyAdmin, whoami)
+  })
+})
+
+afterAll(async () => {
+  await app.close()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("token verification", () => {
+  it("accepts a valid token", async () => {
+    expect(await app.request("GET", "/user", { as: "user-1" })).toEqual({ status: 200, body: { uid: "user-1" } })
+  })
+
+  it("rejects a token issued before the user's sessions were revoked", async () => {
+    expect(await app.request("GET", "/user", { as: "revoked:user-1" })).toEqual({
+      status: 401,
+      body: { error: "Token has been revoked" }
+    })
+  })
+
+  it("rejects a revoked admin token", async () => {
+    expect(await app.request("GET", "/admin", { as: "revoked:admin-1" })).toEqual({
+      status: 401,
+      body: { error: "Token has been revoked" }
+    })
+  })
+})
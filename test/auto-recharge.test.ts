@@ -0,0 +1,164 @@
+import { AutoRechargeSettings, maybeTriggerAutoRecharge, runAutoRecharge } from "../lib/auto-recharge"
+import { connectToDatabase, createWallet, getWallet, WalletDocument } from "../lib/mongodb"
+import { applyPaymentEvents, creditPayment } from "../lib/payments"
+import { getPaymentProvider } from "../lib/payment-providers"
+
+const USER = "user-1"
+const DAY = 24 * 60 * 60 * 1000
+
+async function setUpWallet(methodId: string, autoRecharge: Partial<AutoRechargeSettings> = {}) {
+  await createWallet(USER, { signupGrant: false })
+  const db = await connectToDatabase()
+  const settings: AutoRechargeSettings = {
+    enabled: true,
+    threshold: 5,
+    amount: 20,
+    monthlyLimit: 100,
+    paymentMethod: { provider: "test", id: methodId },
+    failures: 0,
+    nextAttemptAt: null,
+    ...autoRecharge
+  }
+  await db.collection<WalletDocument>("wallets").updateOne({ userId: USER }, { $set: { balance: 1, autoRecharge: settings } })
+}
+
+async function getSettings() {
+  return (await getWallet(USER))!.autoRecharge!
+}
+
+// Balance change handlers run after the change is committed
+const flushHandlers = () => new Promise(resolve => setTimeout(resolve, 10))
+
+let charge: jest.SpyInstance
+
+beforeEach(() => {
+  charge = jest.spyOn(getPaymentProvider("test")!, "chargeSavedMethod")
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("auto-recharge", () => {
+  it("credits a charge that completes at once", async () => {
+    await setUpWallet("test_pm_card")
+
+    expect(await runAutoRecharge(USER)).toBe("charged")
+    expect(await getWallet(USER)).toMatchObject({ balance: 21 })
+    expect(await getSettings()).toMatchObject({ pendingAttemptId: null, pendingCharge: null, chargedThisMonth: 20 })
+  })
+
+  it("keeps a pending charge marked until its payment is credited", async () => {
+    await setUpWallet("test_pm_pending")
+
+    expect(await runAutoRecharge(USER)).toBe("pending")
+
+    const settings = await getSettings()
+    expect(settings.pendingAttemptId).toEqual(expect.any(String))
+    expect(settings.pendingCharge).toEqual({ provider: "test", externalId: expect.any(String), since: expect.any(Date) })
+    expect(settings.nextAttemptAt).toBeNull()
+    expect(await getWallet(USER)).toMatchObject({ balance: 1 })
+  })
+
+  it("makes no other charge while one is pending", async () => {
+    await setUpWallet("test_pm_pending")
+    await runAutoRecharge(USER)
+
+    expect(await runAutoRecharge(USER)).toBe("skipped")
+    await maybeTriggerAutoRecharge((await getWallet(USER))!)
+    await flushHandlers()
+
+    expect(charge).toHaveBeenCalledTimes(1)
+    expect((await getSettings()).nextAttemptAt).toBeNull()
+  })
+
+  it("lifts the block when the webhook credits the pending charge", async () => {
+    await setUpWallet("test_pm_pending")
+    await runAutoRecharge(USER)
+    const { externalId } = (await getSettings()).pendingCharge!
+
+    await creditPayment({ provider: "test", userId: USER, amount: 20, currency: "USD", externalId })
+    await flushHandlers()
+
+    expect(await getWallet(USER)).toMatchObject({ balance: 21 })
+    expect(await getSettings()).toMatchObject({ pendingCharge: null, pendingAttemptId: null })
+  })
+
+  it("lifts the block on its next run when the credit's handler did not run", async () => {
+    await setUpWallet("test_pm_pending")
+    await runAutoRecharge(USER)
+    const { externalId } = (await getSettings()).pendingCharge!
+    const db = await connectToDatabase()
+    await db.collection("payments").insertOne({ provider: "test", userId: USER, externalId, status: "completed" })
+
+    expect(await runAutoRecharge(USER)).toBe("skipped")
+    expect(await getSettings()).toMatchObject({ pendingCharge: null, pendingAttemptId: null })
+    expect(charge).toHaveBeenCalledTimes(1)
+  })
+
+  it("counts a pending charge that is never credited as a failure", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    await setUpWallet("test_pm_pending", {
+      pendingAttemptId: "attempt-1",
+      pendingCharge: { provider: "test", externalId: "test_pi_lost", since: new Date(Date.now() - 11 * DAY) }
+    })
+
+    expect(await runAutoRecharge(USER)).toBe("failed")
+    expect(await getSettings()).toMatchObject({
+      failures: 1,
+      pendingCharge: null,
+      pendingAttemptId: null,
+      nextAttemptAt: expect.any(Date),
+      lastError: "Charge test_pi_lost was not credited in time"
+    })
+    expect(charge).not.toHaveBeenCalled()
+  })
+
+  it("retries a charge that timed out with the same idempotency key", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    await setUpWallet("test_pm_card")
+    charge.mockRejectedValueOnce(new Error("timeout of 30000ms exceeded"))
+
+    expect(await runAutoRecharge(USER)).toBe("failed")
+    const { pendingAttemptId } = await getSettings()
+    expect(pendingAttemptId).toEqual(expect.any(String))
+
+    expect(await runAutoRecharge(USER)).toBe("charged")
+    expect(charge.mock.calls[1][4]).toBe(charge.mock.calls[0][4])
+    expect(charge.mock.calls[1][4]).toBe(`auto_recharge_${pendingAttemptId}`)
+    expect(await getWallet(USER)).toMatchObject({ balance: 21 })
+  })
+
+  it("retries a declined charge as a new charge", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    await setUpWallet("test_pm_decline")
+
+    expect(await runAutoRecharge(USER)).toBe("failed")
+    expect(await getSettings()).toMatchObject({ failures: 1, pendingAttemptId: null, lastError: "Test card declined" })
+  })
+
+  it("counts a pending charge the provider denies as a decline", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    await setUpWallet("test_pm_pending")
+    await runAutoRecharge(USER)
+    const { externalId } = (await getSettings()).pendingCharge!
+
+    const status = await applyPaymentEvents("test", [
+      { type: "adjusted", externalId, adjustment: { id: externalId, type: "denial" } }
+    ])
+
+    expect(status).toBe("processed")
+    expect(await getSettings()).toMatchObject({
+      failures: 1,
+      pendingCharge: null,
+      pendingAttemptId: null,
+      nextAttemptAt: expect.any(Date),
+      lastError: `Charge ${externalId} was denied`
+    })
+    expect(await getWallet(USER)).toMatchObject({ balance: 1 })
+  })
+})
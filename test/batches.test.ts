@@ -0,0 +1,182 @@
+import { AxiosError, AxiosHeaders } from "axios"
+import { ObjectId } from "mongodb"
+import * as billing from "../lib/billing"
+import { batchHoldTtl, BatchDocument, createBatch, processBatches } from "../lib/batches"
+import { withFailover } from "../lib/failover"
+import { connectToDatabase, createWallet, getWallet } from "../lib/mongodb"
+import { ApiKeyDocument } from "../lib/api-keys"
+
+jest.mock("../lib/failover", () => ({
+  ...jest.requireActual("../lib/failover"),
+  withFailover: jest.fn()
+}))
+
+jest.mock("../lib/models", () => ({
+  ...jest.requireActual("../lib/models"),
+  resolveModel: () => [{ provider: {}, upstreamModel: "upstream" }]
+}))
+
+jest.mock("../lib/files", () => ({
+  saveFile: jest.fn(async (_userId: string, name: string) => ({ id: `file-${name}` }))
+}))
+
+const USER = "user-1"
+const HOLD = 1
+
+const completion = {
+  object: "chat.completion",
+  choices: [{ index: 0, message: { role: "assistant", content: "Hi" }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 }
+}
+
+const unavailable = () =>
+  new AxiosError("Service Unavailable", "ERR_BAD_RESPONSE", undefined, undefined, {
+    status: 503,
+    statusText: "Service Unavailable",
+    data: {},
+    headers: {},
+    config: { headers: new AxiosHeaders() }
+  })
+
+async function startBatch(customIds: string[]) {
+  await createWallet(USER, { signupGrant: false })
+  const db = await connectToDatabase()
+  await db.collection("wallets").updateOne({ userId: USER }, { $set: { balance: 10 } })
+
+  const key = { _id: new ObjectId(), keyHash: "hash", prefix: "sk-test", name: "test", userId: USER, createdAt: new Date() }
+  await db.collection<ApiKeyDocument>("apiKeys").insertOne(key)
+  const { holdId } = await billing.reserveRequestFunds(key, USER, HOLD, {}, batchHoldTtl("24h"))
+
+  return createBatch(
+    {
+      userId: USER,
+      apiKeyId: key._id.toString(),
+      endpoint: "/v1/chat/completions",
+      inputFileId: "file-input",
+      completionWindow: "24h",
+      holdId: holdId!,
+      reserved: HOLD,
+      metadata: null
+    },
+    customIds.map((customId, index) => ({
+      index,
+      customId,
+      body: { model: "gpt-4o-mini", messages: [{ role: "user", content: "Hello" }], max_tokens: 1000 }
+    }))
+  )
+}
+
+async function getBatchDocument(batch: BatchDocument) {
+  const db = await connectToDatabase()
+  return (await db.collection<BatchDocument>("batches").findOne({ _id: batch._id }))!
+}
+
+async function getCharges() {
+  const db = await connectToDatabase()
+  return db.collection("transactions").find({ userId: USER, type: "charge" }).toArray()
+}
+
+const mockedWithFailover = withFailover as jest.MockedFunction<typeof withFailover>
+
+beforeEach(() => {
+  mockedWithFailover.mockReset()
+  mockedWithFailover.mockResolvedValue(completion)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("batch worker", () => {
+  it("charges every completed request and finalizes the batch", async () => {
+    const batch = await startBatch(["a", "b"])
+
+    const report = await processBatches()
+    expect(report).toMatchObject({ requestsRun: 2, batchesFinalized: 1 })
+
+    const charges = await getCharges()
+    expect(charges).toHaveLength(2)
+    const cost = charges.reduce((sum, charge) => sum - charge.amount, 0)
+    expect(cost).toBeGreaterThan(0)
+
+    const finished = await getBatchDocument(batch)
+    expect(finished).toMatchObject({
+      status: "completed",
+      requestCounts: { total: 2, completed: 2, failed: 0 },
+      outputFileId: expect.any(String)
+    })
+    expect(finished.cost).toBeCloseTo(cost)
+
+    // What is left of the hold is released
+    const wallet = await getWallet(USER)
+    expect(wallet!.balance).toBeCloseTo(10 - cost)
+    expect(wallet!.reserved).toBeCloseTo(0)
+  })
+
+  it("does not charge a request again when its charge committed but the worker did not hear back", async () => {
+    const settle = billing.settleBatchRequestCharge
+    jest.spyOn(billing, "settleBatchRequestCharge").mockImplementationOnce(async (...args) => {
+      await settle(...args)
+      throw new Error("Connection lost")
+    })
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const batch = await startBatch(["a"])
+
+    await processBatches()
+    await processBatches()
+
+    const charges = await getCharges()
+    expect(charges).toHaveLength(1)
+    expect((await getBatchDocument(batch)).cost).toBeCloseTo(-charges[0].amount)
+  })
+
+  it("retries a failed charge when the batch is finalized", async () => {
+    jest.spyOn(billing, "settleBatchRequestCharge").mockRejectedValueOnce(new Error("Write conflict"))
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const batch = await startBatch(["a"])
+
+    await processBatches()
+
+    expect(await getCharges()).toHaveLength(1)
+    expect(await getBatchDocument(batch)).toMatchObject({ status: "completed" })
+  })
+
+  it("waits out the retry delay after a transient upstream failure", async () => {
+    mockedWithFailover.mockRejectedValueOnce(unavailable())
+    const batch = await startBatch(["a"])
+
+    await processBatches()
+    await processBatches()
+
+    expect(mockedWithFailover).toHaveBeenCalledTimes(1)
+    expect(await getBatchDocument(batch)).toMatchObject({ status: "in_progress" })
+
+    const db = await connectToDatabase()
+    const request = await db.collection("batchRequests").findOne({ batchId: batch._id })
+    expect(request).toMatchObject({ status: "pending", attempts: 1, retryAfter: expect.any(Date) })
+
+    await db.collection("batchRequests").updateOne({ _id: request!._id }, { $set: { retryAfter: new Date() } })
+    await processBatches()
+
+    expect(mockedWithFailover).toHaveBeenCalledTimes(2)
+    expect(await getBatchDocument(batch)).toMatchObject({ status: "completed", requestCounts: { completed: 1 } })
+  })
+
+  it("completes a batch that was finalizing when its window ran out", async () => {
+    jest.spyOn(billing, "settleBatchRequestCharge").mockRejectedValueOnce(new Error("Write conflict"))
+    jest.spyOn(billing, "settleBatchRequestCharge").mockRejectedValueOnce(new Error("Write conflict"))
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const batch = await startBatch(["a"])
+
+    // The request's charge fails on its run and again on the first finalize
+    await processBatches()
+    expect(await getBatchDocument(batch)).toMatchObject({ status: "finalizing" })
+
+    const db = await connectToDatabase()
+    await db.collection("batches").updateOne({ _id: batch._id }, { $set: { expiresAt: new Date(Date.now() - 1000) } })
+    await processBatches()
+
+    expect(await getBatchDocument(batch)).toMatchObject({ status: "completed", outputFileId: expect.any(String) })
+    expect(await getCharges()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,174 @@
+import { ObjectId } from "mongodb"
+import {
+  connectToDatabase,
+  createWallet,
+  getLedgerBalance,
+  getWallet,
+  releaseWalletHold,
+  reserveWalletFunds,
+  settleWalletHold
+} from "../lib/mongodb"
+import { reserveRequestFunds, settleRequestCharge } from "../lib/billing"
+import { ApiKeyDocument } from "../lib/api-keys"
+import { CostBreakdown } from "../lib/pricing"
+
+const USER = "user-1"
+
+async function createApiKey(limits: ApiKeyDocument["limits"]) {
+  const db = await connectToDatabase()
+  const key = {
+    _id: new ObjectId(),
+    keyHash: "hash",
+    prefix: "sk-test",
+    name: "test",
+    userId: USER,
+    createdAt: new Date(),
+    limits
+  }
+  await db.collection<ApiKeyDocument>("apiKeys").insertOne(key)
+  return key
+}
+
+const breakdown = (total: number): CostBreakdown => ({
+  model: "gpt-4o",
+  pricingId: "pricing",
+  promptTokens: 10,
+  cachedTokens: 0,
+  completionTokens: 10,
+  input: total / 2,
+  cachedInput: 0,
+  output: total / 2,
+  total
+})
+
+async function getApiKey(id: ObjectId) {
+  const db = await connectToDatabase()
+  return db.collection<ApiKeyDocument>("apiKeys").findOne({ _id: id })
+}
+
+beforeEach(async () => {
+  await createWallet(USER, { signupGrant: false })
+  const db = await connectToDatabase()
+  await db.collection("wallets").updateOne({ userId: USER }, { $set: { balance: 10 } })
+})
+
+describe("wallet holds", () => {
+  it("reserves funds only while the available balance covers them", async () => {
+    expect(await reserveWalletFunds(USER, 6)).toEqual(expect.any(String))
+    expect(await reserveWalletFunds(USER, 6)).toBeNull()
+    expect(await reserveWalletFunds(USER, 4)).toEqual(expect.any(String))
+
+    const wallet = await getWallet(USER)
+    expect(wallet).toMatchObject({ balance: 10, reserved: 10 })
+  })
+
+  it("settles a hold at its actual cost and records the charge", async () => {
+    const holdId = (await reserveWalletFunds(USER, 5, { model: "gpt-4o" }))!
+
+    const wallet = await settleWalletHold(holdId, 2, { requestId: "req-1" })
+    expect(wallet).toMatchObject({ balance: 8, reserved: 0 })
+
+    const db = await connectToDatabase()
+    const charges = await db.collection("transactions").find({ userId: USER, type: "charge" }).toArray()
+    expect(charges).toEqual([expect.objectContaining({ amount: -2, balanceAfter: 8, requestId: "req-1", model: "gpt-4o" })])
+  })
+
+  it("settles a hold once", async () => {
+    const holdId = (await reserveWalletFunds(USER, 5))!
+
+    await settleWalletHold(holdId, 2)
+    expect(await settleWalletHold(holdId, 2)).toBeNull()
+    expect(await releaseWalletHold(holdId)).toBeNull()
+
+    expect(await getWallet(USER)).toMatchObject({ balance: 8, reserved: 0 })
+  })
+
+  it("releases a hold without charging", async () => {
+    const holdId = (await reserveWalletFunds(USER, 5))!
+
+    expect(await releaseWalletHold(holdId)).toMatchObject({ balance: 10, reserved: 0 })
+    expect(await settleWalletHold(holdId, 2)).toBeNull()
+    expect(await getWallet(USER)).toMatchObject({ balance: 10, reserved: 0 })
+  })
+
+  it("charges a released hold when the outbox replays it", async () => {
+    const holdId = (await reserveWalletFunds(USER, 5))!
+    await releaseWalletHold(holdId)
+
+    expect(await settleWalletHold(holdId, 2, {}, { allowReleased: true })).toMatchObject({ balance: 8, reserved: 0 })
+  })
+
+  it("keeps the wallet balance equal to the ledger", async () => {
+    const db = await connectToDatabase()
+    await db.collection("wallets").deleteMany({})
+    await createWallet(USER)
+
+    const first = (await reserveWalletFunds(USER, 0.1))!
+    const second = (await reserveWalletFunds(USER, 0.05))!
+    await settleWalletHold(first, 0.04)
+    await releaseWalletHold(second)
+
+    const wallet = await getWallet(USER)
+    expect(wallet!.balance).toBeCloseTo(await getLedgerBalance(USER))
+  })
+})
+
+describe("request holds", () => {
+  it("releases the key's expired holds before reserving against its limits", async () => {
+    const key = await createApiKey({ daily: { hard: 3 } })
+    const { holdId } = await reserveRequestFunds(key, USER, 2)
+    const db = await connectToDatabase()
+    await db.collection("walletHolds").updateOne(
+      { _id: new ObjectId(holdId!) },
+      { $set: { expiresAt: new Date(Date.now() - 1000) } }
+    )
+
+    const hold = await reserveRequestFunds(key, USER, 2)
+    expect(hold.holdId).toEqual(expect.any(String))
+
+    expect(await db.collection("walletHolds").findOne({ _id: new ObjectId(holdId!) })).toMatchObject({ status: "released" })
+    expect(await getApiKey(key._id)).toMatchObject({ reservedSpend: 2 })
+    expect(await getWallet(USER)).toMatchObject({ reserved: 2 })
+  })
+
+  it("reserves against the key's hard limits with the wallet hold", async () => {
+    const key = await createApiKey({ daily: { hard: 3 } })
+
+    const hold = await reserveRequestFunds(key, USER, 2, { model: "gpt-4o" })
+    expect(hold.holdId).toEqual(expect.any(String))
+    expect(await getApiKey(key._id)).toMatchObject({ reservedSpend: 2 })
+
+    const refused = await reserveRequestFunds(key, USER, 2)
+    expect(refused).toEqual({ holdId: null, violation: expect.objectContaining({ period: "daily", limit: 3 }) })
+    expect(await getWallet(USER)).toMatchObject({ reserved: 2 })
+  })
+
+  it("gives the key reservation back when the wallet cannot cover the hold", async () => {
+    const key = await createApiKey({ lifetime: { hard: 100 } })
+
+    expect(await reserveRequestFunds(key, USER, 20)).toEqual({ holdId: null, violation: null })
+    expect((await getApiKey(key._id))?.reservedSpend ?? 0).toBe(0)
+  })
+
+  it("moves the key reservation to its spend when the request is charged", async () => {
+    const key = await createApiKey({ daily: { hard: 3 } })
+    const { holdId } = await reserveRequestFunds(key, USER, 2)
+
+    const balance = await settleRequestCharge(key._id.toString(), USER, holdId!, breakdown(1.5), "req-1")
+    expect(balance).toBe(8.5)
+
+    const updated = await getApiKey(key._id)
+    expect(updated).toMatchObject({ reservedSpend: 0, spend: { daily: 1.5, total: 1.5 } })
+    expect((await reserveRequestFunds(key, USER, 2)).violation).toMatchObject({ period: "daily", spent: 1.5 })
+  })
+
+  it("gives the key reservation back when the hold is released", async () => {
+    const key = await createApiKey({ daily: { hard: 3 } })
+    const { holdId } = await reserveRequestFunds(key, USER, 2)
+
+    await releaseWalletHold(holdId!)
+
+    expect(await getApiKey(key._id)).toMatchObject({ reservedSpend: 0 })
+    expect((await reserveRequestFunds(key, USER, 3)).holdId).toEqual(expect.any(String))
+  })
+})
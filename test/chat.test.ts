@@ -0,0 +1,87 @@
+import { Readable } from "stream"
+import chatRouter from "../api/chat"
+import { withFailover } from "../lib/failover"
+import { generateApiKey } from "../lib/api-keys"
+import { connectToDatabase, createWallet, getWallet, releaseExpiredHolds } from "../lib/mongodb"
+import { calculateCost } from "../lib/pricing"
+import { startApp } from "./helpers/app"
+
+jest.mock("../lib/failover", () => ({
+  ...jest.requireActual("../lib/failover"),
+  withFailover: jest.fn()
+}))
+
+jest.mock("../lib/models", () => ({
+  ...jest.requireActual("../lib/models"),
+  resolveModel: () => [{ provider: {}, upstreamModel: "upstream" }]
+}))
+
+const USER = "user-1"
+const MODEL = "gpt-4o-mini"
+const usage = { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 }
+
+const events = (...chunks: unknown[]) =>
+  Readable.from([...chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"])
+
+let app: Awaited<ReturnType<typeof startApp>>
+let apiKey: string
+
+beforeAll(async () => {
+  app = await startApp({ "/api/chat": chatRouter })
+})
+
+afterAll(async () => {
+  await app.close()
+})
+
+beforeEach(async () => {
+  await createWallet(USER, { signupGrant: false })
+  const db = await connectToDatabase()
+  await db.collection("wallets").updateOne({ userId: USER }, { $set: { balance: 10 } })
+
+  const { key, keyHash, prefix } = generateApiKey()
+  await db.collection("apiKeys").insertOne({
+    keyHash,
+    prefix,
+    name: "test",
+    userId: USER,
+    createdAt: new Date(),
+    expiresAt: null,
+    allowedModels: [],
+    requestCount: 0
+  })
+  apiKey = key
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("streamed chat completions", () => {
+  it("bills a stream that outlasted its hold", async () => {
+    // The stream runs past the hold's TTL, and another request releases the
+    // hold as expired before the stream ends
+    jest.mocked(withFailover).mockImplementation(async () => {
+      const db = await connectToDatabase()
+      await db.collection("walletHolds").updateMany({ userId: USER }, { $set: { expiresAt: new Date(Date.now() - 1000) } })
+      await releaseExpiredHolds(USER)
+      return events(
+        { choices: [{ index: 0, delta: { content: "Hello" } }] },
+        { choices: [], usage }
+      ) as any
+    })
+
+    const response = await app.request("POST", "/api/chat", {
+      headers: { "X-Api-Key": apiKey },
+      body: { model: MODEL, stream: true, messages: [{ role: "user", content: "Hi" }] }
+    })
+    expect(response.status).toBe(200)
+    expect(response.body).toContain("Hello")
+
+    const { total } = await calculateCost(MODEL, usage)
+    const db = await connectToDatabase()
+    expect(await db.collection("walletHolds").findOne({ userId: USER })).toMatchObject({ status: "settled", cost: total })
+    expect(await getWallet(USER)).toMatchObject({ balance: 10 - total, reserved: 0 })
+    expect(await db.collection("transactions").find({ userId: USER, type: "charge" }).toArray()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,42 @@
+import reconcileCron from "../api/cron/reconcile"
+import { startApp } from "./helpers/app"
+
+let app: Awaited<ReturnType<typeof startApp>>
+
+beforeAll(async () => {
+  app = await startApp({ "/api/cron/reconcile": reconcileCron })
+})
+
+afterAll(() => app.close())
+
+afterEach(() => {
+  delete process.env.CRON_SECRET
+})
+
+describe("cron routes", () => {
+  it("reject requests without the cron secret", async () => {
+    process.env.CRON_SECRET = "cron-secret"
+
+    const response = await app.request("GET", "/api/cron/reconcile")
+    expect(response.status).toBe(401)
+  })
+
+  it("reject a wrong cron secret", async () => {
+    process.env.CRON_SECRET = "cron-secret"
+
+    const response = await app.request("GET", "/api/cron/reconcile", { headers: { Authorization: "Bearer guess" } })
+    expect(response.status).toBe(401)
+  })
+
+  it("reject every request while no cron secret is configured", async () => {
+    const response = await app.request("GET", "/api/cron/reconcile", { headers: { Authorization: "Bearer undefined" } })
+    expect(response.status).toBe(401)
+  })
+
+  it("run the job for the cron scheduler", async () => {
+    process.env.CRON_SECRET = "cron-secret"
+
+    const response = await app.request("GET", "/api/cron/reconcile", { headers: { Authorization: "Bearer cron-secret" } })
+    expect(response.status).toBe(200)
+  })
+})
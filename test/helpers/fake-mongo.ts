@@ -0,0 +1,326 @@
+import { isDeepStrictEqual as isEqual } from "util"
+import { ObjectId } from "bson"
+import { Aggregator, Query, update as applyOperator } from "mingo"
+import "mingo/init/system"
+
+// An in-memory stand-in for the parts of the MongoDB driver the code under
+// test uses: CRUD with query and update operators (evaluated by mingo),
+// update pipelines, unique indexes and transactions that roll back on abort.
+// Transactions run one at a time, as if every concurrent one had conflicted
+// and retried after the other committed. Sessions are accepted and ignored
+// outside of withTransaction.
+
+type Doc = Record<string, any>
+
+interface UniqueIndex {
+  keys: string[];
+  partial?: Query;
+}
+
+const collections = new Map<string, FakeCollection>()
+
+let transactionQueue: Promise<unknown> = Promise.resolve()
+
+const duplicateKeyError = () => Object.assign(new Error("E11000 duplicate key error"), { code: 11000 })
+
+// Stored documents are never mutated, only replaced, so a transaction can
+// roll back by restoring the arrays it started with
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)])) as T
+  }
+  return value
+}
+
+const getPath = (doc: Doc, path: string) => path.split(".").reduce((value, key) => value?.[key], doc)
+
+function setPath(doc: Doc, path: string, value: unknown) {
+  const keys = path.split(".")
+  const parent = keys.slice(0, -1).reduce((target, key) => (target[key] ??= {}), doc)
+  parent[keys[keys.length - 1]] = value
+}
+
+function applyUpdate(doc: Doc, update: Doc | Doc[], inserting: boolean): Doc {
+  if (Array.isArray(update)) return new Aggregator(update).run([clone(doc)])[0] as Doc
+
+  const next = clone(doc)
+  for (const [operator, fields] of Object.entries(update)) {
+    if (operator === "$setOnInsert") {
+      if (inserting) applyOperator(next, { $set: clone(fields) })
+    } else {
+      applyOperator(next, { [operator]: clone(fields) } as any)
+    }
+  }
+  return next
+}
+
+// The equality conditions of a filter, which an upsert inserts
+function upsertBase(filter: Doc): Doc {
+  const doc: Doc = {}
+  for (const [path, value] of Object.entries(filter)) {
+    if (path.startsWith("$")) continue
+    const isOperator = value && typeof value === "object" && Object.keys(value).some(key => key.startsWith("$"))
+    if (!isOperator) setPath(doc, path, clone(value))
+  }
+  return doc
+}
+
+class FakeCursor {
+  private sortSpec?: Doc
+  private skipCount = 0
+  private limitCount = 0
+  private projection?: Doc
+
+  constructor(private docs: () => Doc[], private filter: Doc) {}
+
+  sort(spec: Doc) {
+    this.sortSpec = spec
+    return this
+  }
+
+  skip(count: number) {
+    this.skipCount = count
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  project(projection: Doc) {
+    this.projection = projection
+    return this
+  }
+
+  async toArray() {
+    let cursor = new Query(this.filter).find(this.docs(), this.projection)
+    if (this.sortSpec) cursor = cursor.sort(this.sortSpec)
+    if (this.skipCount) cursor = cursor.skip(this.skipCount)
+    if (this.limitCount) cursor = cursor.limit(this.limitCount)
+    return cursor.all().map(clone) as any[]
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* await this.toArray()
+  }
+}
+
+export class FakeCollection {
+  docs: Doc[] = []
+  private uniqueIndexes: UniqueIndex[] = []
+
+  constructor(readonly collectionName: string) {}
+
+  private matching(filter: Doc = {}, sort?: Doc) {
+    let cursor = new Query(filter).find(this.docs)
+    if (sort) cursor = cursor.sort(sort)
+    return cursor.all() as Doc[]
+  }
+
+  private checkUnique(doc: Doc) {
+    for (const index of this.uniqueIndexes) {
+      if (index.partial && !index.partial.test(doc)) continue
+      const key = index.keys.map(path => getPath(doc, path) ?? null)
+      const taken = this.docs.some(other =>
+        !isEqual(other._id, doc._id) &&
+        (!index.partial || index.partial.test(other)) &&
+        index.keys.every((path, i) => isEqual(getPath(other, path) ?? null, key[i]))
+      )
+      if (taken) throw duplicateKeyError()
+    }
+  }
+
+  private insert(doc: Doc) {
+    this.checkUnique(doc)
+    this.docs = [...this.docs, doc]
+  }
+
+  private replace(previous: Doc, next: Doc) {
+    this.checkUnique(next)
+    this.docs = this.docs.map(doc => (isEqual(doc._id, previous._id) ? next : doc))
+  }
+
+  async createIndex(keys: Doc, options: Doc = {}) {
+    if (options.unique) {
+      this.uniqueIndexes.push({
+        keys: Object.keys(keys),
+        partial: options.partialFilterExpression && new Query(options.partialFilterExpression)
+      })
+    }
+    return Object.keys(keys).join("_")
+  }
+
+  find(filter: Doc = {}, options: Doc = {}) {
+    const cursor = new FakeCursor(() => this.docs, filter)
+    if (options.sort) cursor.sort(options.sort)
+    if (options.limit) cursor.limit(options.limit)
+    if (options.projection) cursor.project(options.projection)
+    return cursor
+  }
+
+  async findOne(filter: Doc = {}, options: Doc = {}) {
+    const [doc] = await this.find(filter, options).limit(1).toArray()
+    return doc ?? null
+  }
+
+  async countDocuments(filter: Doc = {}, options: Doc = {}) {
+    const count = this.matching(filter).length
+    return options.limit ? Math.min(count, options.limit) : count
+  }
+
+  async insertOne(doc: Doc, _options?: Doc) {
+    doc._id ??= new ObjectId()
+    this.insert(clone(doc))
+    return { acknowledged: true, insertedId: doc._id }
+  }
+
+  async insertMany(docs: Doc[], _options?: Doc) {
+    const insertedIds: Record<number, ObjectId> = {}
+    for (const [i, doc] of docs.entries()) {
+      insertedIds[i] = (await this.insertOne(doc)).insertedId
+    }
+    return { acknowledged: true, insertedCount: docs.length, insertedIds }
+  }
+
+  private upsert(filter: Doc, update: Doc | Doc[]) {
+    const doc = applyUpdate(upsertBase(filter), update, true)
+    doc._id ??= new ObjectId()
+    this.insert(doc)
+    return doc
+  }
+
+  async updateOne(filter: Doc, update: Doc | Doc[], options: Doc = {}) {
+    const [previous] = this.matching(filter)
+    if (!previous) {
+      if (!options.upsert) return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null }
+      const doc = this.upsert(filter, update)
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: doc._id }
+    }
+    const next = applyUpdate(previous, update, false)
+    this.replace(previous, next)
+    const modifiedCount = isEqual(previous, next) ? 0 : 1
+    return { acknowledged: true, matchedCount: 1, modifiedCount, upsertedCount: 0, upsertedId: null }
+  }
+
+  async updateMany(filter: Doc, update: Doc | Doc[], _options?: Doc) {
+    let modifiedCount = 0
+    const matched = this.matching(filter)
+    for (const previous of matched) {
+      const next = applyUpdate(previous, update, false)
+      this.replace(previous, next)
+      if (!isEqual(previous, next)) modifiedCount++
+    }
+    return { acknowledged: true, matchedCount: matched.length, modifiedCount, upsertedCount: 0, upsertedId: null }
+  }
+
+  async findOneAndUpdate(filter: Doc, update: Doc | Doc[], options: Doc = {}) {
+    const [previous] = this.matching(filter, options.sort)
+    if (!previous) {
+      if (!options.upsert) return { ok: 1, value: null }
+      const doc = this.upsert(filter, update)
+      return { ok: 1, value: options.returnDocument === "after" ? clone(doc) : null }
+    }
+    const next = applyUpdate(previous, update, false)
+    this.replace(previous, next)
+    return { ok: 1, value: clone(options.returnDocument === "after" ? next : previous) }
+  }
+
+  async deleteOne(filter: Doc, _options?: Doc) {
+    const [doc] = this.matching(filter)
+    if (doc) this.docs = this.docs.filter(other => !isEqual(other._id, doc._id))
+    return { acknowledged: true, deletedCount: doc ? 1 : 0 }
+  }
+
+  async deleteMany(filter: Doc = {}, _options?: Doc) {
+    const matched = this.matching(filter)
+    this.docs = this.docs.filter(doc => !matched.some(other => isEqual(other._id, doc._id)))
+    return { acknowledged: true, deletedCount: matched.length }
+  }
+
+  aggregate(pipeline: Doc[], _options?: Doc) {
+    return { toArray: async () => new Aggregator(pipeline).run(this.docs.map(clone)) as any[] }
+  }
+
+  async bulkWrite(operations: Doc[], _options?: Doc) {
+    for (const operation of operations) {
+      if (operation.insertOne) await this.insertOne(operation.insertOne.document)
+      if (operation.updateOne) {
+        const { filter, update, upsert } = operation.updateOne
+        await this.updateOne(filter, update, { upsert })
+      }
+    }
+    return { ok: 1 }
+  }
+}
+
+class FakeDb {
+  collection(name: string) {
+    let collection = collections.get(name)
+    if (!collection) {
+      collection = new FakeCollection(name)
+      collections.set(name, collection)
+    }
+    return collection
+  }
+}
+
+class FakeSession {
+  private aborted = false
+
+  async withTransaction(fn: () => Promise<unknown>) {
+    const run = transactionQueue.then(() => this.runTransaction(fn))
+    transactionQueue = run.catch(() => {})
+    return run
+  }
+
+  private async runTransaction(fn: () => Promise<unknown>) {
+    const snapshot = new Map([...collections].map(([name, collection]) => [name, collection.docs]))
+    const rollBack = () => {
+      for (const [name, collection] of collections) collection.docs = snapshot.get(name) ?? []
+    }
+    this.aborted = false
+    try {
+      await fn()
+    } catch (error) {
+      rollBack()
+      throw error
+    }
+    if (this.aborted) rollBack()
+  }
+
+  async abortTransaction() {
+    this.aborted = true
+  }
+
+  async endSession() {}
+}
+
+export class FakeMongoClient {
+  private readonly database = new FakeDb()
+
+  constructor(_uri?: string, _options?: Doc) {}
+
+  async connect() {
+    return this
+  }
+
+  db() {
+    return this.database
+  }
+
+  startSession() {
+    return new FakeSession()
+  }
+
+  async close() {}
+}
+
+/**
+ * Empties every collection; indexes are kept, as the modules under test only
+ * create them once
+ */
+export function resetFakeDatabase() {
+  for (const collection of collections.values()) collection.docs = []
+}
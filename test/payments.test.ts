@@ -0,0 +1,100 @@
+import { connectToDatabase, createWallet, getWallet } from "../lib/mongodb"
+import { creditPayment, isPaymentCredited } from "../lib/payments"
+
+const USER = "user-1"
+
+const payment = (overrides: Partial<Parameters<typeof creditPayment>[0]> = {}) => ({
+  provider: "stripe",
+  userId: USER,
+  amount: 25,
+  currency: "usd",
+  externalId: "pi_1",
+  orderId: "cs_1",
+  ...overrides
+})
+
+async function topups() {
+  const db = await connectToDatabase()
+  return db.collection("transactions").find({ userId: USER, type: "topup" }).toArray()
+}
+
+beforeEach(async () => {
+  await createWallet(USER, { signupGrant: false })
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("creditPayment", () => {
+  it("credits a payment to the wallet", async () => {
+    const result = await creditPayment(payment())
+
+    expect(result).toEqual({ wallet: expect.objectContaining({ balance: 25 }), duplicate: false })
+    expect(await topups()).toEqual([expect.objectContaining({ amount: 25, externalId: "pi_1", currency: "USD" })])
+    expect(await isPaymentCredited("stripe", "pi_1")).toBe(true)
+  })
+
+  it("credits a payment reported twice once", async () => {
+    await creditPayment(payment())
+    const again = await creditPayment(payment())
+
+    expect(again).toEqual({ wallet: null, duplicate: true })
+    expect(await getWallet(USER)).toMatchObject({ balance: 25 })
+    expect(await topups()).toHaveLength(1)
+  })
+
+  it("credits a checkout once when its webhook and confirmation race", async () => {
+    const results = await Promise.all([creditPayment(payment()), creditPayment(payment())])
+
+    expect(results.filter(result => result.duplicate)).toHaveLength(1)
+    expect(await getWallet(USER)).toMatchObject({ balance: 25 })
+  })
+
+  it("credits the payment through the other report when the first credit fails", async () => {
+    const db = await connectToDatabase()
+    jest.spyOn(db.collection("transactions"), "insertOne").mockRejectedValueOnce(new Error("connection reset"))
+
+    const [webhook, confirmation] = await Promise.allSettled([creditPayment(payment()), creditPayment(payment())])
+
+    expect(webhook).toMatchObject({ status: "rejected", reason: new Error("connection reset") })
+    expect(confirmation).toMatchObject({ status: "fulfilled", value: { duplicate: false } })
+    expect(await getWallet(USER)).toMatchObject({ balance: 25 })
+    expect(await isPaymentCredited("stripe", "pi_1")).toBe(true)
+  })
+
+  it("fails instead of reporting a duplicate while an earlier claim is unfinished", async () => {
+    const db = await connectToDatabase()
+    await db.collection("payments").insertOne({ ...payment(), currency: "USD", status: "pending", adjustments: [], createdAt: new Date() })
+
+    await expect(creditPayment(payment())).rejects.toThrow("unfinished claim")
+    expect(await getWallet(USER)).toMatchObject({ balance: 0 })
+  })
+
+  it("treats another capture of the same checkout as a duplicate", async () => {
+    await creditPayment(payment())
+
+    expect(await creditPayment(payment({ externalId: "pi_2" }))).toMatchObject({ duplicate: true })
+    expect(await getWallet(USER)).toMatchObject({ balance: 25 })
+  })
+
+  it("credits payments without a checkout by their external id", async () => {
+    await creditPayment(payment({ orderId: undefined }))
+    await creditPayment(payment({ orderId: undefined, externalId: "pi_2" }))
+
+    expect(await getWallet(USER)).toMatchObject({ balance: 50 })
+  })
+
+  it("records nothing when the wallet is missing, so a retry can credit it", async () => {
+    await expect(creditPayment(payment({ userId: "no-wallet" }))).rejects.toThrow("Wallet not found")
+    expect(await isPaymentCredited("stripe", "pi_1")).toBe(false)
+
+    await createWallet("no-wallet", { signupGrant: false })
+    expect(await creditPayment(payment({ userId: "no-wallet" }))).toMatchObject({ duplicate: false })
+  })
+
+  it("rejects payments in another currency", async () => {
+    await expect(creditPayment(payment({ currency: "eur" }))).rejects.toThrow("Cannot credit a eur payment")
+    expect(await getWallet(USER)).toMatchObject({ balance: 0 })
+  })
+})
@@ -0,0 +1,36 @@
+import Redis from "ioredis-mock"
+import * as outbox from "../lib/outbox"
+import { reconcileWallets } from "../lib/reconcile"
+
+const LOCK_KEY = "lock:reconcile"
+const redis = new Redis()
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("reconcileWallets", () => {
+  it("frees its lock when it is done", async () => {
+    expect(await reconcileWallets()).not.toBeNull()
+    expect(await redis.get(LOCK_KEY)).toBeNull()
+  })
+
+  it("skips the run while another one holds the lock", async () => {
+    await redis.set(LOCK_KEY, "other-run")
+
+    expect(await reconcileWallets()).toBeNull()
+    expect(await redis.get(LOCK_KEY)).toBe("other-run")
+  })
+
+  it("leaves the lock of the next run alone when it outlasted its own", async () => {
+    // The lock expires mid-run and the next run takes it
+    const drainOutbox = outbox.drainOutbox
+    jest.spyOn(outbox, "drainOutbox").mockImplementation(async () => {
+      await redis.set(LOCK_KEY, "next-run")
+      return drainOutbox()
+    })
+
+    expect(await reconcileWallets()).not.toBeNull()
+    expect(await redis.get(LOCK_KEY)).toBe("next-run")
+  })
+})
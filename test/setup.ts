@@ -0,0 +1,41 @@
+import Redis from "ioredis-mock"
+import { resetFakeDatabase } from "./helpers/fake-mongo"
+
+// Tests run against in-memory stand-ins for Mongo and Redis, and pay with
+// the test payment provider
+process.env.MONGODB_URI = "mongodb://localhost/test"
+process.env.PAYMENTS_TEST_MODE = "true"
+
+jest.mock("mongodb", () => ({
+  ...jest.requireActual("mongodb"),
+  MongoClient: require("./helpers/fake-mongo").FakeMongoClient
+}))
+
+// A Firebase ID token is the uid of the user it stands for; "revoked:<uid>"
+// stands for a token issued before the user's sessions were revoked, which
+// only fails when revocation is checked. Uids starting with "admin" carry
+// the admin claim.
+jest.mock("firebase-admin/auth", () => ({
+  getAuth: () => ({
+    verifyIdToken: async (token: string, checkRevoked?: boolean) => {
+      if (token.startsWith("revoked:") && checkRevoked) {
+        throw Object.assign(new Error("The Firebase ID token has been revoked."), { code: "auth/id-token-revoked" })
+      }
+      const uid = token.replace(/^revoked:/, "")
+      return { uid, email: `${uid}@example.com`, email_verified: true, admin: uid.startsWith("admin") }
+    }
+  })
+}))
+
+jest.mock("ioredis", () => {
+  const Redis = require("ioredis-mock")
+  return { Redis, default: Redis }
+})
+
+// Redis mocks share their data
+const redis = new Redis()
+
+beforeEach(async () => {
+  resetFakeDatabase()
+  await redis.flushall()
+})
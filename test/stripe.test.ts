@@ -0,0 +1,41 @@
+import axios from "axios"
+import { createStripeProvider } from "../lib/payment-providers/stripe"
+
+const stripe = createStripeProvider("stripe", { secretKey: "sk_test" })
+
+const intentSucceeded = (amount: number, currency: string) => ({
+  id: "evt_1",
+  type: "payment_intent.succeeded",
+  data: {
+    object: { id: "pi_1", amount_received: amount, currency, metadata: { offSession: "true", userId: "user-1" } }
+  }
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("Stripe amounts", () => {
+  it.each([
+    ["usd", 1050, 10.5],
+    ["jpy", 1050, 1050],
+    ["kwd", 1050, 1.05]
+  ])("reads %s amounts in the currency's minor unit", (currency, minor, amount) => {
+    expect(stripe.parseWebhook(intentSucceeded(minor, currency))).toEqual([
+      expect.objectContaining({ amount, currency: currency.toUpperCase() })
+    ])
+  })
+
+  it("charges zero-decimal currencies in whole units", async () => {
+    const request = jest.spyOn(axios, "request").mockImplementation(async ({ url }: any) => ({
+      data: url.endsWith("/payment_intents")
+        ? { id: "pi_1", status: "succeeded", amount_received: 1000, currency: "jpy" }
+        : { id: "pm_1", customer: "cus_1" }
+    }))
+
+    const payment = await stripe.chargeSavedMethod!("user-1", "pm_1", 1000, "JPY", "key-1")
+
+    expect(new URLSearchParams(request.mock.calls[1][0].data as string).get("amount")).toBe("1000")
+    expect(payment).toMatchObject({ type: "completed", amount: 1000, currency: "JPY" })
+  })
+})
@@ -0,0 +1,15 @@
+import { estimateTokens } from "../lib/tokens"
+
+// Roughly what the cl100k and o200k tokenizers count, whichever is more. The
+// estimate sizes holds, so it must not come out under either.
+describe("estimateTokens", () => {
+  it.each([
+    ["English prose", "Hello world, this is a test of the estimator.", 11],
+    ["Chinese", "你好，世界。这是一个测试。", 13],
+    ["emoji", "😀😀😀", 6],
+    ["code", "function f(a) { return a.map(x => x * 2); }", 16],
+    ["JSON", '{"type":"object","properties":{"a":{"type":"string"}}}', 17]
+  ])("does not underestimate %s", (_kind, text, tokens) => {
+    expect(estimateTokens(text)).toBeGreaterThanOrEqual(tokens)
+  })
+})
@@ -0,0 +1,119 @@
+import express from "express"
+import crypto from "crypto"
+import { AuthenticatedRequest, verifyApiKey } from "../../middleware/auth"
+import { releaseWalletHold } from "../../lib/mongodb"
+import { calculateUnitCost, CostBreakdown } from "../../lib/pricing"
+import { resolveModel } from "../../lib/models"
+import { withFailover } from "../../lib/failover"
+import { getRequestWallet, settleRequestCharge } from "../../lib/billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "../../lib/request-guards"
+import { validateSpeechRequest } from "../../lib/audio-schema"
+import { SPEECH_CONTENT_TYPES } from "../../lib/audio"
+import { invalidRequest } from "../../lib/chat-schema"
+import { recordUsage } from "../../lib/usage"
+
+const router = express.Router()
+
+// OpenAI-compatible text-to-speech, billed per input character. The cost is
+// known up front, so the charge is settled once the upstream starts sending
+// audio and reported in headers; the body is the audio itself.
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  const usage: { breakdown: CostBreakdown | null; error?: string } = { breakdown: null }
+  let logUsage: (() => void) | null = null
+
+  try {
+    const validation = validateSpeechRequest(req.body)
+    if (validation.error) return res.status(400).json({ error: validation.error })
+
+    const { model, ...params } = validation.params
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: "audio.speech",
+        model,
+        stream: true,
+        cached: false,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
+      })
+    }
+
+    const modelError = await checkModelAccess(apiKey, model, "speech")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+
+    const targets = resolveModel(model).filter(target => target.provider.speak)
+    if (!targets.length) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found")
+      })
+    }
+
+    const breakdown = await calculateUnitCost(model, "character", "character", params.input.length)
+    if (!breakdown) throw new Error(`No per-character price configured for model ${model}`)
+
+    const wallet = await getRequestWallet(apiKey.userId)
+
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, 0)
+    if (!rateLimitResult) return
+
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, breakdown.total, { model })
+    if (!holdId) return
+
+    const audio = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+      provider.speak!(upstreamModel, params, signal)
+    )
+
+    const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+    usage.breakdown = breakdown
+
+    res.setHeader('Content-Type', SPEECH_CONTENT_TYPES[params.response_format])
+    res.setHeader('X-Cost', String(breakdown.total))
+    res.setHeader('X-Remaining-Balance', String(newBalance))
+
+    // Usage is logged once the audio has been sent
+    await new Promise<void>(resolve => {
+      audio.on("error", error => {
+        console.error("Speech stream failed:", error)
+        usage.error = error.message
+        res.destroy(error)
+        resolve()
+      })
+      res.on("close", () => {
+        audio.destroy()
+        resolve()
+      })
+      audio.pipe(res)
+    })
+  } catch (error) {
+    controller.abort()
+    console.error("Failed to process speech request:", error)
+    usage.error = error.message || String(error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+
+    sendRequestError(res, error, "Failed to process speech request")
+  } finally {
+    logUsage?.()
+  }
+})
+
+export default router
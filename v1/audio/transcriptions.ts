@@ -0,0 +1,147 @@
+import express from "express"
+import crypto from "crypto"
+import multer from "multer"
+import { AuthenticatedRequest, verifyApiKey } from "../../middleware/auth"
+import { releaseWalletHold } from "../../lib/mongodb"
+import { calculateUnitCost, CostBreakdown } from "../../lib/pricing"
+import { resolveModel } from "../../lib/models"
+import { withFailover } from "../../lib/failover"
+import { getRequestWallet, settleRequestCharge } from "../../lib/billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "../../lib/request-guards"
+import { validateTranscriptionRequest } from "../../lib/audio-schema"
+import { estimateAudioMinutes, formatTranscription, MAX_AUDIO_BYTES, transcriptionMinutes } from "../../lib/audio"
+import { invalidRequest } from "../../lib/chat-schema"
+import { recordUsage } from "../../lib/usage"
+
+const router = express.Router()
+
+// Uploads are kept in memory; they are small enough and only sent upstream
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_AUDIO_BYTES, files: 1 }
+}).single("file")
+
+// Runs after verifyApiKey so unauthenticated uploads are never read
+const receiveAudio = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload(req, res, error => {
+    if (!error) return next()
+
+    const tooLarge = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE"
+    res.status(tooLarge ? 413 : 400).json({
+      error: invalidRequest(
+        tooLarge ? `Audio files must be at most ${MAX_AUDIO_BYTES / (1024 * 1024)} MB` : `Invalid upload: ${error.message}`,
+        "file",
+        tooLarge ? "file_too_large" : "invalid_value"
+      )
+    })
+  })
+}
+
+// OpenAI-compatible transcription, billed per minute of audio
+router.post("/", verifyApiKey, receiveAudio, async (req: AuthenticatedRequest, res) => {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  const usage: { breakdown: CostBreakdown | null; error?: string } = { breakdown: null }
+  let logUsage: (() => void) | null = null
+
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: invalidRequest("Missing required parameter: 'file'.", "file", "missing_required_parameter")
+      })
+    }
+    const validation = validateTranscriptionRequest(req.body || {})
+    if (validation.error) return res.status(400).json({ error: validation.error })
+
+    const { model, response_format: format, ...fields } = validation.params
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: "audio.transcriptions",
+        model,
+        stream: false,
+        cached: false,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
+      })
+    }
+
+    const modelError = await checkModelAccess(apiKey, model, "transcription")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+
+    const targets = resolveModel(model).filter(target => target.provider.transcribe)
+    if (!targets.length) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found")
+      })
+    }
+
+    const maxCost = await calculateUnitCost(model, "minute", "minute", estimateAudioMinutes(req.file.size))
+    if (!maxCost) throw new Error(`No per-minute price configured for model ${model}`)
+
+    const wallet = await getRequestWallet(apiKey.userId)
+
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, 0)
+    if (!rateLimitResult) return
+
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost.total, { model })
+    if (!holdId) return
+
+    const audio = { buffer: req.file.buffer, filename: req.file.originalname || "audio", mimetype: req.file.mimetype }
+    const transcription = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+      provider.transcribe!(upstreamModel, audio, { ...fields, response_format: "verbose_json" }, signal)
+    )
+
+    // Upstreams that report no duration are billed the estimate held
+    const minutes = transcriptionMinutes(transcription) ?? maxCost.units!.quantity
+    const units = { ...maxCost.units!, quantity: minutes }
+    const breakdown: CostBreakdown = { ...maxCost, total: units.unitPrice * minutes, units }
+
+    const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+    usage.breakdown = breakdown
+
+    // Text formats have no room for the charge, so it is always sent in headers
+    res.setHeader('X-Cost', String(breakdown.total))
+    res.setHeader('X-Remaining-Balance', String(newBalance))
+
+    const { body, contentType } = formatTranscription(transcription, format)
+    if (typeof body === "string") {
+      return res.type(contentType).send(body)
+    }
+    return res.json({
+      ...body,
+      cost: breakdown.total,
+      costBreakdown: breakdown,
+      remainingBalance: newBalance
+    })
+  } catch (error) {
+    controller.abort()
+    console.error("Failed to process transcription request:", error)
+    usage.error = error.message || String(error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+
+    sendRequestError(res, error, "Failed to process transcription request")
+  } finally {
+    logUsage?.()
+  }
+})
+
+export default router
@@ -0,0 +1,155 @@
+import express from "express"
+import { AuthenticatedRequest, verifyApiKey } from "../middleware/auth"
+import { releaseWalletHold } from "../lib/mongodb"
+import { getRequestWallet } from "../lib/billing"
+import { checkModelAccess, placeRequestHold } from "../lib/request-guards"
+import { getFile, readFile } from "../lib/files"
+import {
+  BATCH_ENDPOINTS,
+  batchHoldTtl,
+  cancelBatch,
+  createBatch,
+  estimateBatchCost,
+  getBatch,
+  listBatches,
+  parseBatchInput,
+  serializeBatch,
+  validateBatchRequest
+} from "../lib/batches"
+import { invalidRequest } from "../lib/chat-schema"
+
+const router = express.Router()
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+const notFound = (res: express.Response, id: string) =>
+  res.status(404).json({ error: invalidRequest(`No such Batch object: ${id}`, "id", "batch_not_found") })
+
+// Creates a batch from an uploaded JSONL file. Every request is validated
+// and the batch's maximum cost is held on the wallet before it is accepted.
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  let holdId: string | null = null
+
+  try {
+    const validation = validateBatchRequest(req.body)
+    if (validation.error) return res.status(400).json({ error: validation.error })
+
+    const { input_file_id: inputFileId, endpoint, completion_window: completionWindow, metadata } = validation.params
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    const file = await getFile(apiKey.userId, inputFileId)
+    if (!file || file.metadata.purpose !== "batch") {
+      return res.status(400).json({
+        error: invalidRequest(`No batch input file found with id ${inputFileId}`, "input_file_id", "file_not_found")
+      })
+    }
+
+    const parsed = parseBatchInput((await readFile(apiKey.userId, inputFileId))!, endpoint)
+    if (parsed.error) return res.status(400).json({ error: parsed.error })
+
+    for (const model of new Set(parsed.requests.map(request => request.body.model as string))) {
+      const modelError = await checkModelAccess(apiKey, model, BATCH_ENDPOINTS[endpoint])
+      if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+    }
+
+    const wallet = await getRequestWallet(apiKey.userId)
+
+    const maxCost = await estimateBatchCost(endpoint, parsed.requests)
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost, {}, batchHoldTtl(completionWindow))
+    if (!holdId) return
+
+    const batch = await createBatch(
+      {
+        userId: wallet.userId,
+        apiKeyId,
+        endpoint,
+        inputFileId,
+        completionWindow,
+        holdId,
+        reserved: maxCost,
+        metadata: metadata ?? null
+      },
+      parsed.requests
+    )
+    return res.json(serializeBatch(batch))
+  } catch (error) {
+    console.error("Failed to create batch:", error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+    return res.status(500).json({ error: "Failed to create batch" })
+  }
+})
+
+router.get("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+
+    const { after, limit } = req.query as Record<string, string | undefined>
+    const pageSize = limit ? Number(limit) : DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return res.status(400).json({
+        error: invalidRequest(`limit must be between 1 and ${MAX_PAGE_SIZE}`, "limit", "invalid_value")
+      })
+    }
+
+    const { batches, hasMore } = await listBatches(apiKey.userId, { after, limit: pageSize })
+    const data = batches.map(serializeBatch)
+    return res.json({
+      object: "list",
+      data,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+      has_more: hasMore
+    })
+  } catch (error) {
+    console.error("Failed to list batches:", error)
+    return res.status(500).json({ error: "Failed to list batches" })
+  }
+})
+
+router.get("/:id", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+
+    const batch = await getBatch(apiKey.userId, req.params.id)
+    if (!batch) return notFound(res, req.params.id)
+    return res.json(serializeBatch(batch))
+  } catch (error) {
+    console.error("Failed to fetch batch:", error)
+    return res.status(500).json({ error: "Failed to fetch batch" })
+  }
+})
+
+// Requests that already ran stay charged; the rest are reported as cancelled
+// in the error file once the worker has stopped the batch
+router.post("/:id/cancel", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+
+    const batch = await getBatch(apiKey.userId, req.params.id)
+    if (!batch) return notFound(res, req.params.id)
+
+    const cancelled = await cancelBatch(batch)
+    if (!cancelled) {
+      return res.status(409).json({
+        error: invalidRequest(`Cannot cancel a batch with status '${batch.status}'`, "id", "batch_not_cancellable")
+      })
+    }
+    return res.json(serializeBatch(cancelled))
+  } catch (error) {
+    console.error("Failed to cancel batch:", error)
+    return res.status(500).json({ error: "Failed to cancel batch" })
+  }
+})
+
+export default router
@@ -1,296 +1,215 @@
 import express from "express"
 import { AuthenticatedRequest } from "../../middleware/auth"
 import { verifyApiKey } from "../../middleware/auth"
-import axios, { AxiosInstance } from "axios"
-import { getWalletByApiKey, updateWalletBalance as updateMongoWalletBalance } from "../../lib/mongodb"
-import { calculateCost } from "../../lib/pricing"
-import { Redis } from "ioredis"
+import { releaseWalletHold } from "../../lib/mongodb"
+import { calculateCost, estimateMaxCost, applyCacheHitPricing, capCompletionTokens, CostBreakdown } from "../../lib/pricing"
+import { estimatePromptTokens } from "../../lib/tokens"
+import { getRequestWallet, settleRequestCharge } from "../../lib/billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "../../lib/request-guards"
+import { recordUsage } from "../../lib/usage"
 import crypto from "crypto"
-import { rateLimit } from "../../lib/rate-limit"
+import { recordTokenUsage } from "../../lib/rate-limit"
+import { resolveModel, supportsVision } from "../../lib/models"
+import { withFailover } from "../../lib/failover"
+import { validateChatRequest, countImageParts, invalidRequest } from "../../lib/chat-schema"
+import { streamChatCompletion } from "../../lib/chat-forwarding"
+import {
+  parseCacheOptions,
+  generateCacheKey,
+  getCachedResponse,
+  storeCachedResponse,
+  findSimilarResponse,
+  indexSimilarResponse,
+  recordCacheOutcome,
+  CacheOutcome
+} from "../../lib/response-cache"
 
 const router = express.Router()
 
-// Constants
-const CACHE_TTL = 3600 // 1 hour
-const WALLET_LOCK_TTL = 30 // 30 seconds for lock
-
-// Initialize Redis
-const redis = new Redis(process.env.REDIS_URL || "redis://localhost:6379", {
-  retryStrategy: (times) => Math.min(times * 50, 2000),
-  enableReadyCheck: true,
-  maxRetriesPerRequest: 3
-})
-
-// Azure Configuration
-const AZURE_CONFIG = {
-  endpoint: process.env.AZURE_OPENAI_ENDPOINT,
-  apiKey: process.env.AZURE_OPENAI_API_KEY,
-  apiVersion: "2023-05-15",
-}
-
-// New GPT-4O Configuration
-const GPT4O_CONFIG = {
-  endpoint: process.env.AZURE_GPT4O_ENDPOINT,
-  apiKey: process.env.AZURE_GPT4O_API_KEY,
-  apiVersion: "2023-05-15",
+// Helper functions
+// The most this request can cost, held before it is forwarded
+async function estimateRequestCost(body: Record<string, any>) {
+  const promptTokens = estimatePromptTokens(body)
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens
+  return estimateMaxCost(body.model, promptTokens, maxTokens, body.n ?? 1)
 }
 
-const MODEL_DEPLOYMENTS = {
-  'gpt-4': process.env.AZURE_GPT4_DEPLOYMENT_NAME,
-  'gpt-4o-mini': process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
-  'gpt-3.5-turbo': process.env.AZURE_GPT35_DEPLOYMENT_NAME,
-  'gpt-4o': process.env.AZURE_GPT4O_DEPLOYMENT_NAME,
-}
+async function validateRequest(userId: string, model: string) {
+  const wallet = await getRequestWallet(userId)
 
-// Create optimized axios instance
-const axiosInstance: AxiosInstance = axios.create({
-  timeout: 30000,
-  headers: { "Content-Type": "application/json" },
-  httpAgent: new (require('http').Agent)({ keepAlive: true }),
-  httpsAgent: new (require('https').Agent)({ keepAlive: true }),
-  maxRedirects: 5,
-  maxContentLength: Infinity,
-  maxBodyLength: Infinity,
-})
+  const targets = resolveModel(model)
+  if (!targets.length) throw new Error("Invalid model specified")
 
-// Helper functions
-const generateCacheKey = (messages: any[], model: string, temperature?: number, max_tokens?: number): string => {
-  const data = JSON.stringify({ messages, model, temperature, max_tokens })
-  return crypto.createHash('md5').update(data).digest('hex')
+  return { wallet, targets }
 }
 
-const generateWalletKey = (apiKey: string): string => `wallet:${apiKey}`
+// Main route handler
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  // Filled in as the request progresses and logged once it is settled
+  const usage: { breakdown: CostBreakdown | null; cached: boolean; error?: string } = {
+    breakdown: null,
+    cached: false
+  }
+  let logUsage: (() => void) | null = null
 
-async function getWalletFromRedis(apiKey: string) {
-  const walletKey = generateWalletKey(apiKey)
-  const wallet = await redis.get(walletKey)
-  return wallet ? JSON.parse(wallet) : null
-}
+  try {
+    const validation = validateChatRequest(req.body)
+    if (validation.error) return res.status(400).json({ error: validation.error })
 
-async function updateWalletBalances(apiKey: string, userId: string, cost: number): Promise<number> {
-  const walletKey = generateWalletKey(apiKey)
-  let retries = 3
-  
-  while (retries > 0) {
-    try {
-      const walletStr = await redis.get(walletKey)
-      if (!walletStr) throw new Error("Wallet not found")
-      
-      const wallet = JSON.parse(walletStr)
-      const newBalance = wallet.balance - cost
-      
-      // Update Redis immediately
-      const result = await redis
-        .multi()
-        .set(walletKey, JSON.stringify({ ...wallet, balance: newBalance }))
-        .exec()
-      
-      if (!result) throw new Error("Redis transaction failed")
-      
-      // Update MongoDB asynchronously
-      updateMongoWalletBalance(userId, -cost).catch(error => {
-        console.error('Failed to update MongoDB wallet balance:', error)
-        // Implement retry mechanism or alerting system here
+    // Every validated parameter is forwarded upstream as-is, plus a
+    // completion cap when the client sets none
+    const { model = "gpt-4", stream = false, ...params } = validation.params
+    const body = capCompletionTokens({ ...params, model })
+    
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    // Lets clients match a response to its ledger entry
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: "chat.completions",
+        model,
+        stream,
+        cached: usage.cached,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
       })
-      
-      return newBalance
-    } catch (error) {
-      retries--
-      if (retries === 0) throw error
-      await new Promise(resolve => setTimeout(resolve, 100))
     }
-  }
-  
-  throw new Error("Failed to update wallet balance after retries")
-}
 
-function parseSSEResponse(chunk: string) {
-  const lines = chunk.split('\n')
-  const parsedLines = []
-  
-  for (const line of lines) {
-    if (line.startsWith('data: ')) {
-      const jsonStr = line.slice(6)
-      if (jsonStr === '[DONE]') continue
-      try {
-        const parsed = JSON.parse(jsonStr)
-        parsedLines.push(parsed)
-      } catch (e) {
-        console.error('Failed to parse SSE data:', e)
-      }
-    }
-  }
-  
-  return parsedLines
-}
+    const modelError = await checkModelAccess(apiKey, model, "chat")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
 
-async function validateRequest(apiKey: string, model: string) {
-  // Try Redis first
-  let wallet = await getWalletFromRedis(apiKey)
-  
-  if (!wallet) {
-    // Fallback to MongoDB
-    wallet = await getWalletByApiKey(apiKey)
-    if (!wallet) throw new Error("Invalid API key")
-    
-    // Cache in Redis
-    await redis.set(generateWalletKey(apiKey), JSON.stringify(wallet))
-  }
-
-  const [rateLimitResult, deploymentName] = await Promise.all([
-    wallet.userId ? rateLimit(wallet.userId) : { success: true },
-    MODEL_DEPLOYMENTS[model]
-  ])
+    // Image tokens are billed as prompt tokens, so only vision models take images
+    if (countImageParts(params.messages) && !supportsVision(model)) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not support image inputs`, "messages", "model_not_supported")
+      })
+    }
 
-  if (!rateLimitResult.success) throw new Error("Rate limit exceeded")
-  if (!deploymentName) throw new Error("Invalid model specified")
+    // Validate request
+    const { wallet, targets } = await validateRequest(apiKey.userId, model)
 
-  return { wallet, deploymentName }
-}
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, estimatePromptTokens(body))
+    if (!rateLimitResult) return
 
-function getModelConfig(model: string) {
-  return model === 'gpt-4o' ? GPT4O_CONFIG : AZURE_CONFIG
-}
+    const cacheOptions = parseCacheOptions(req.headers['cache-control'], { ...body, stream })
+    const cacheKey = generateCacheKey(wallet.userId, body)
+    let embedding: number[] | null = null
 
-// Main route handler
-router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
-  const controller = new AbortController()
-  const signal = controller.signal
+    if (cacheOptions.lookup) {
+      let outcome: CacheOutcome = "hit"
+      let cachedResponse = await getCachedResponse(cacheKey, cacheOptions)
 
-  try {
-    const { 
-      messages, 
-      model = "gpt-4", 
-      temperature, 
-      max_tokens, 
-      stream = false 
-    } = req.body
-    
-    const apiKey = req.apiKey
-    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+      if (!cachedResponse) {
+        const similar = await findSimilarResponse(wallet.userId, body, cacheOptions, signal)
+        cachedResponse = similar.response
+        embedding = similar.embedding
+        outcome = "semantic_hit"
+      }
 
-    // Check cache for non-streaming requests
-    if (!stream) {
-      const cacheKey = generateCacheKey(messages, model, temperature, max_tokens)
-      const cachedResponse = await redis.get(cacheKey)
-      
       if (cachedResponse) {
-        const parsed = JSON.parse(cachedResponse)
-        const { wallet } = await validateRequest(apiKey, model)
-        const cost = calculateCost(model, parsed.usage.total_tokens)
-        
-        if (wallet.balance < cost) {
-          return res.status(402).json({ error: "Insufficient funds" })
-        }
+        await recordCacheOutcome(apiKeyId, outcome)
+        res.setHeader('X-Cache', outcome === "hit" ? "HIT" : "SEMANTIC-HIT")
 
-        const newBalance = await updateWalletBalances(apiKey, wallet.userId, cost)
+        const breakdown = applyCacheHitPricing(await calculateCost(model, cachedResponse.usage))
+        usage.cached = true
+        holdId = await placeRequestHold(res, apiKey, wallet.userId, breakdown.total, { model })
+        if (!holdId) return
+
+        const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+        usage.breakdown = breakdown
         
         return res.json({
-          ...parsed,
-          cost,
+          ...cachedResponse,
+          cost: breakdown.total,
+          costBreakdown: breakdown,
           remainingBalance: newBalance,
           cached: true
         })
       }
+
+      await recordCacheOutcome(apiKeyId, "miss")
+      res.setHeader('X-Cache', 'MISS')
+    } else if (!stream) {
+      await recordCacheOutcome(apiKeyId, "bypass")
+      res.setHeader('X-Cache', 'BYPASS')
     }
 
-    // Validate request
-    const { wallet, deploymentName } = await validateRequest(apiKey, model)
-    const modelConfig = getModelConfig(model)
+    // Reserve the worst-case cost against the wallet and the key's hard limits
+    // in one transaction, so concurrent requests can neither spend the same
+    // balance nor together overshoot a limit
+    const maxCost = await estimateRequestCost(body)
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost, { model })
+    if (!holdId) return
 
     if (stream) {
-      res.setHeader('Content-Type', 'text/event-stream')
-      res.setHeader('Cache-Control', 'no-cache')
-      res.setHeader('Connection', 'keep-alive')
-
-      const response = await axiosInstance.post(
-        `${modelConfig.endpoint}/openai/deployments/${deploymentName}/chat/completions`,
+      usage.breakdown = await streamChatCompletion(
+        res,
         {
-          messages,
           model,
-          temperature,
-          max_tokens,
-          stream: true
+          targets,
+          body,
+          signal,
+          onAbort: () => controller.abort(),
+          includeUsage: !!params.stream_options?.include_usage
         },
-        {
-          params: { 'api-version': modelConfig.apiVersion },
-          headers: { "api-key": modelConfig.apiKey },
-          responseType: 'stream',
-          signal
-        }
+        { apiKeyId, userId: wallet.userId, holdId, requestId, buckets: rateLimitResult.buckets }
       )
-
-      let lastChunk: any = null
-
-      response.data.on('data', (chunk: Buffer) => {
-        const text = chunk.toString()
-        const parsed = parseSSEResponse(text)
-        
-        for (const item of parsed) {
-          lastChunk = item
-          res.write(`data: ${JSON.stringify(item)}\n\n`)
-        }
-      })
-
-      response.data.on('end', async () => {
-        if (lastChunk?.usage) {
-          const cost = calculateCost(model, lastChunk.usage.total_tokens)
-          await updateWalletBalances(apiKey, wallet.userId, cost)
-        }
-        res.write('data: [DONE]\n\n')
-        res.end()
-      })
-
-      req.on('close', () => controller.abort())
     } else {
-      const response = await axiosInstance.post(
-        `${modelConfig.endpoint}/openai/deployments/${deploymentName}/chat/completions`,
-        {
-          messages,
-          model,
-          temperature,
-          max_tokens,
-          stream: false
-        },
-        {
-          params: { 'api-version': modelConfig.apiVersion },
-          headers: { "api-key": modelConfig.apiKey },
-          signal
-        }
+      const completionResponse = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+        provider.complete(upstreamModel, body, signal)
       )
-
-      const completionResponse = response.data
-      const cost = calculateCost(model, completionResponse.usage.total_tokens)
-      
-      if (wallet.balance < cost) {
-        return res.status(402).json({ error: "Insufficient funds" })
-      }
+      const breakdown = await calculateCost(model, completionResponse.usage)
+      await recordTokenUsage(rateLimitResult.buckets, breakdown.promptTokens + breakdown.completionTokens)
 
       // Cache the response
-      const cacheKey = generateCacheKey(messages, model, temperature, max_tokens)
-      await redis.setex(cacheKey, CACHE_TTL, JSON.stringify(completionResponse))
+      if (cacheOptions.store) {
+        await storeCachedResponse(cacheKey, completionResponse, cacheOptions)
+        if (embedding) {
+          await indexSimilarResponse(wallet.userId, body, cacheKey, embedding, cacheOptions)
+        }
+      }
 
-      // Update wallet balances - Redis immediately, MongoDB async
-      const newBalance = await updateWalletBalances(apiKey, wallet.userId, cost)
+      // Settle the hold against the actual usage and refresh the cached wallet
+      const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+      usage.breakdown = breakdown
 
       return res.json({
         ...completionResponse,
-        cost,
+        cost: breakdown.total,
+        costBreakdown: breakdown,
         remainingBalance: newBalance
       })
     }
   } catch (error) {
     controller.abort()
     console.error("Failed to process chat request:", error)
-    
-    if (axios.isAxiosError(error)) {
-      console.error("Axios error details:", error.response?.data)
-      return res.status(error.response?.status || 500).json({ 
-        error: error.response?.data?.error || "Failed to process chat request" 
+    usage.error = error.message || String(error)
+
+    // Settled holds are left untouched, so this only frees unspent reservations
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
       })
     }
     
-    res.status(500).json({ error: error.message || "An internal error occurred" })
+    sendRequestError(res, error, "Failed to process chat request")
+  } finally {
+    // Streams are billed after the response ends, so this waits for the handler
+    logUsage?.()
   }
 })
 
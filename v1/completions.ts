@@ -0,0 +1,22 @@
+import express from "express"
+import { AuthenticatedRequest, verifyApiKey } from "../middleware/auth"
+import { forwardChatRequest } from "../lib/chat-forwarding"
+import { createCompletionStreamWriter, toTextCompletion, validateCompletionRequest } from "../lib/completions"
+
+const router = express.Router()
+
+// The legacy completions API for older tooling, served by chat models
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const validation = validateCompletionRequest(req.body)
+  if (validation.error) return res.status(400).json({ error: validation.error })
+
+  await forwardChatRequest(req, res, {
+    endpoint: "completions",
+    body: validation.params,
+    formatResponse: toTextCompletion,
+    createStreamWriter: createCompletionStreamWriter,
+    includeUsage: !!validation.params.stream_options?.include_usage
+  })
+})
+
+export default router
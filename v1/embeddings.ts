@@ -0,0 +1,110 @@
+import express from "express"
+import crypto from "crypto"
+import { AuthenticatedRequest, verifyApiKey } from "../middleware/auth"
+import { releaseWalletHold } from "../lib/mongodb"
+import { calculateCost, CostBreakdown } from "../lib/pricing"
+import { estimateEmbeddingTokens } from "../lib/tokens"
+import { recordTokenUsage } from "../lib/rate-limit"
+import { resolveModel } from "../lib/models"
+import { withFailover } from "../lib/failover"
+import { getRequestWallet, settleRequestCharge } from "../lib/billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "../lib/request-guards"
+import { validateEmbeddingsRequest } from "../lib/embeddings-schema"
+import { invalidRequest } from "../lib/chat-schema"
+import { recordUsage } from "../lib/usage"
+
+const router = express.Router()
+
+// OpenAI-compatible embeddings, billed to the key's wallet like chat
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  const usage: { breakdown: CostBreakdown | null; error?: string } = { breakdown: null }
+  let logUsage: (() => void) | null = null
+
+  try {
+    const validation = validateEmbeddingsRequest(req.body)
+    if (validation.error) return res.status(400).json({ error: validation.error })
+
+    const { model, ...params } = validation.params
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: "embeddings",
+        model,
+        stream: false,
+        cached: false,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
+      })
+    }
+
+    const modelError = await checkModelAccess(apiKey, model, "embedding")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+
+    const targets = resolveModel(model).filter(target => target.provider.embed)
+    if (!targets.length) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found")
+      })
+    }
+
+    const wallet = await getRequestWallet(apiKey.userId)
+    const promptTokens = estimateEmbeddingTokens(params.input)
+
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, promptTokens)
+    if (!rateLimitResult) return
+
+    // Embeddings have no output, so the estimate only covers the input
+    const maxCost = (await calculateCost(model, { prompt_tokens: promptTokens })).total
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost, { model })
+    if (!holdId) return
+
+    const response = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+      provider.embed!(upstreamModel, params, signal)
+    )
+    const breakdown = await calculateCost(model, response.usage)
+    await recordTokenUsage(rateLimitResult.buckets, breakdown.promptTokens)
+
+    const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+    usage.breakdown = breakdown
+
+    return res.json({
+      ...response,
+      // Azure reports its deployment name here
+      model,
+      cost: breakdown.total,
+      costBreakdown: breakdown,
+      remainingBalance: newBalance
+    })
+  } catch (error) {
+    controller.abort()
+    console.error("Failed to process embeddings request:", error)
+    usage.error = error.message || String(error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+
+    sendRequestError(res, error, "Failed to process embeddings request")
+  } finally {
+    logUsage?.()
+  }
+})
+
+export default router
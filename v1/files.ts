@@ -0,0 +1,126 @@
+import express from "express"
+import multer from "multer"
+import { AuthenticatedRequest, verifyApiKey } from "../middleware/auth"
+import { deleteFile, getFile, listFiles, MAX_FILE_BYTES, readFile, saveFile, serializeFile, UPLOAD_PURPOSES } from "../lib/files"
+import { invalidRequest } from "../lib/chat-schema"
+
+const router = express.Router()
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 1000
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_BYTES, files: 1 }
+}).single("file")
+
+// Runs after verifyApiKey so unauthenticated uploads are never read
+const receiveFile = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload(req, res, error => {
+    if (!error) return next()
+
+    const tooLarge = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE"
+    res.status(tooLarge ? 413 : 400).json({
+      error: invalidRequest(
+        tooLarge ? `Files must be at most ${MAX_FILE_BYTES / (1024 * 1024)} MB` : `Invalid upload: ${error.message}`,
+        "file",
+        tooLarge ? "file_too_large" : "invalid_value"
+      )
+    })
+  })
+}
+
+const notFound = (res: express.Response, id: string) =>
+  res.status(404).json({ error: invalidRequest(`No such File object: ${id}`, "id", "file_not_found") })
+
+// Uploads a JSONL file of batch requests
+router.post("/", verifyApiKey, receiveFile, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: invalidRequest("Missing required parameter: 'file'.", "file", "missing_required_parameter")
+      })
+    }
+    const purpose = req.body?.purpose
+    if (!UPLOAD_PURPOSES.includes(purpose)) {
+      return res.status(400).json({
+        error: invalidRequest(`Invalid 'purpose': must be one of: ${UPLOAD_PURPOSES.join(", ")}.`, "purpose", "invalid_value")
+      })
+    }
+
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const file = await saveFile(apiKey.userId, req.file.originalname || "upload.jsonl", purpose, req.file.buffer)
+    return res.json(file)
+  } catch (error) {
+    console.error("Failed to upload file:", error)
+    return res.status(500).json({ error: "Failed to upload file" })
+  }
+})
+
+router.get("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const { purpose, after, limit } = req.query as Record<string, string | undefined>
+    const pageSize = limit ? Number(limit) : DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return res.status(400).json({
+        error: invalidRequest(`limit must be between 1 and ${MAX_PAGE_SIZE}`, "limit", "invalid_value")
+      })
+    }
+
+    const { files, hasMore } = await listFiles(apiKey.userId, { purpose, after, limit: pageSize })
+    return res.json({
+      object: "list",
+      data: files,
+      first_id: files[0]?.id ?? null,
+      last_id: files[files.length - 1]?.id ?? null,
+      has_more: hasMore
+    })
+  } catch (error) {
+    console.error("Failed to list files:", error)
+    return res.status(500).json({ error: "Failed to list files" })
+  }
+})
+
+router.get("/:id", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const file = await getFile(apiKey.userId, req.params.id)
+    if (!file) return notFound(res, req.params.id)
+    return res.json(serializeFile(file))
+  } catch (error) {
+    console.error("Failed to fetch file:", error)
+    return res.status(500).json({ error: "Failed to fetch file" })
+  }
+})
+
+router.get("/:id/content", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const content = await readFile(apiKey.userId, req.params.id)
+    if (!content) return notFound(res, req.params.id)
+    return res.type("application/jsonl").send(content)
+  } catch (error) {
+    console.error("Failed to read file:", error)
+    return res.status(500).json({ error: "Failed to read file" })
+  }
+})
+
+router.delete("/:id", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  try {
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const deleted = await deleteFile(apiKey.userId, req.params.id)
+    if (!deleted) return notFound(res, req.params.id)
+    return res.json({ id: req.params.id, object: "file", deleted: true })
+  } catch (error) {
+    console.error("Failed to delete file:", error)
+    return res.status(500).json({ error: "Failed to delete file" })
+  }
+})
+
+export default router
@@ -0,0 +1,119 @@
+import express from "express"
+import crypto from "crypto"
+import { AuthenticatedRequest, verifyApiKey } from "../../middleware/auth"
+import { releaseWalletHold } from "../../lib/mongodb"
+import { calculateUnitCost, CostBreakdown } from "../../lib/pricing"
+import { resolveModel } from "../../lib/models"
+import { withFailover } from "../../lib/failover"
+import { getRequestWallet, settleRequestCharge } from "../../lib/billing"
+import { checkModelAccess, enforceRateLimit, placeRequestHold, sendRequestError } from "../../lib/request-guards"
+import { validateImageRequest } from "../../lib/images-schema"
+import { invalidRequest } from "../../lib/chat-schema"
+import { recordUsage } from "../../lib/usage"
+
+const router = express.Router()
+
+// OpenAI-compatible image generation, billed per image by quality and size
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const controller = new AbortController()
+  const signal = controller.signal
+  const requestId = crypto.randomUUID()
+  const startedAt = Date.now()
+  let holdId: string | null = null
+  const usage: { breakdown: CostBreakdown | null; error?: string } = { breakdown: null }
+  let logUsage: (() => void) | null = null
+
+  try {
+    const validation = validateImageRequest(req.body)
+    if (validation.error) return res.status(400).json({ error: validation.error })
+
+    const { model, ...params } = validation.params
+    const apiKey = req.apiKey
+    if (!apiKey) return res.status(401).json({ error: "API key is required" })
+    const apiKeyId = apiKey._id.toString()
+
+    res.setHeader('X-Request-Id', requestId)
+
+    logUsage = () => {
+      recordUsage({
+        userId: apiKey.userId,
+        apiKeyId,
+        requestId,
+        endpoint: "images.generations",
+        model,
+        stream: false,
+        cached: false,
+        status: res.statusCode,
+        breakdown: usage.breakdown,
+        latencyMs: Date.now() - startedAt,
+        error: usage.error
+      })
+    }
+
+    const modelError = await checkModelAccess(apiKey, model, "image")
+    if (modelError) return res.status(modelError.status).json({ error: modelError.error })
+
+    const targets = resolveModel(model).filter(target => target.provider.generateImage)
+    if (!targets.length) {
+      return res.status(400).json({
+        error: invalidRequest(`The model '${model}' does not exist`, "model", "model_not_found")
+      })
+    }
+
+    const variant = `${params.quality}:${params.size}`
+    const maxCost = await calculateUnitCost(model, "image", variant, params.n)
+    if (!maxCost) {
+      return res.status(400).json({
+        error: invalidRequest(
+          `The model '${model}' does not support size '${params.size}' with quality '${params.quality}'`,
+          "size",
+          "invalid_value"
+        )
+      })
+    }
+
+    const wallet = await getRequestWallet(apiKey.userId)
+
+    // Only the request limits apply; images have no tokens
+    const rateLimitResult = await enforceRateLimit(res, apiKey, wallet, model, 0)
+    if (!rateLimitResult) return
+
+    holdId = await placeRequestHold(res, apiKey, wallet.userId, maxCost.total, { model })
+    if (!holdId) return
+
+    const response = await withFailover(model, targets, signal, (provider, upstreamModel) =>
+      provider.generateImage!(upstreamModel, params, signal)
+    )
+
+    // Images filtered out by content safety are not returned, or billed
+    const generated = Array.isArray(response.data) ? Math.min(response.data.length, params.n) : params.n
+    const units = { ...maxCost.units!, quantity: generated }
+    const breakdown: CostBreakdown = { ...maxCost, total: units.unitPrice * generated, units }
+
+    const newBalance = await settleRequestCharge(apiKeyId, wallet.userId, holdId, breakdown, requestId)
+    usage.breakdown = breakdown
+
+    return res.json({
+      ...response,
+      cost: breakdown.total,
+      costBreakdown: breakdown,
+      remainingBalance: newBalance
+    })
+  } catch (error) {
+    controller.abort()
+    console.error("Failed to process image request:", error)
+    usage.error = error.message || String(error)
+
+    if (holdId) {
+      await releaseWalletHold(holdId).catch(releaseError => {
+        console.error("Failed to release wallet hold:", releaseError)
+      })
+    }
+
+    sendRequestError(res, error, "Failed to process image request")
+  } finally {
+    logUsage?.()
+  }
+})
+
+export default router
@@ -0,0 +1,40 @@
+import express from "express"
+import { listAvailableModels } from "../lib/models"
+
+const router = express.Router()
+
+// Public: OpenAI SDKs call this to discover models before authenticating
+router.get("/", async (req, res) => {
+  try {
+    const models = await listAvailableModels()
+    res.json({ object: "list", data: models })
+  } catch (error) {
+    console.error("Failed to list models:", error)
+    res.status(500).json({ error: { message: "Failed to list models", type: "server_error" } })
+  }
+})
+
+router.get("/:id", async (req, res) => {
+  try {
+    const models = await listAvailableModels()
+    const model = models.find(m => m.id === req.params.id)
+
+    if (!model) {
+      return res.status(404).json({
+        error: {
+          message: `The model '${req.params.id}' does not exist`,
+          type: "invalid_request_error",
+          param: "model",
+          code: "model_not_found"
+        }
+      })
+    }
+
+    res.json(model)
+  } catch (error) {
+    console.error("Failed to retrieve model:", error)
+    res.status(500).json({ error: { message: "Failed to retrieve model", type: "server_error" } })
+  }
+})
+
+export default router
@@ -0,0 +1,24 @@
+import express from "express"
+import { AuthenticatedRequest, verifyApiKey } from "../middleware/auth"
+import { forwardChatRequest } from "../lib/chat-forwarding"
+import { createResponseStreamWriter, toResponse, validateResponseRequest } from "../lib/responses"
+
+const router = express.Router()
+
+// The Responses API, served by chat models. Usage is part of the final
+// response.completed event, so the writer always receives the usage chunk.
+router.post("/", verifyApiKey, async (req: AuthenticatedRequest, res) => {
+  const validation = validateResponseRequest(req.body)
+  if (validation.error) return res.status(400).json({ error: validation.error })
+
+  const settings = validation.response
+  await forwardChatRequest(req, res, {
+    endpoint: "responses",
+    body: validation.params,
+    formatResponse: completion => toResponse(completion, settings),
+    createStreamWriter: streamRes => createResponseStreamWriter(streamRes, settings),
+    includeUsage: true
+  })
+})
+
+export default router